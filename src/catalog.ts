@@ -0,0 +1,258 @@
+import { appendFile, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { BackupCatalog, CatalogEntry, CatalogQuery } from './types.js';
+import { ensureDir } from './utils.js';
+
+type LatestQuery = Omit<CatalogQuery, 'database' | 'limit'>;
+// Dates come back from JSON as ISO strings
+type StoredEntry = Omit<CatalogEntry, 'startedAt' | 'finishedAt'> & { startedAt: string; finishedAt: string };
+
+const MODULE_MISSING_MESSAGE =
+  'better-sqlite3 is required for the SQLite catalog. Install it with: npm install better-sqlite3';
+
+/**
+ * Catalog stored as one JSON object per line. Appends are cheap and the file
+ * is easy to ship to log tooling; queries read the whole file.
+ */
+export class JsonLinesCatalog implements BackupCatalog {
+  // Serialises appends from concurrent runs sharing this catalog
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  record(entry: CatalogEntry): Promise<void> {
+    const write = this.writing.then(async () => {
+      await ensureDir(dirname(this.path));
+      await appendFile(this.path, `${JSON.stringify(entry)}\n`);
+    });
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  async list(query: CatalogQuery = {}): Promise<CatalogEntry[]> {
+    await this.writing;
+
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries = content
+      .split('\n')
+      .map(parseLine)
+      .filter((entry): entry is CatalogEntry => entry !== undefined && matchesQuery(entry, query))
+      .sort((a, b) => b.finishedAt.getTime() - a.finishedAt.getTime());
+    return query.limit === undefined ? entries : entries.slice(0, query.limit);
+  }
+
+  async latest(database: string, query: LatestQuery = {}): Promise<CatalogEntry | undefined> {
+    const [entry] = await this.list({ ...query, database, limit: 1 });
+    return entry;
+  }
+}
+
+interface CatalogRow {
+  id: string;
+  status: CatalogEntry['status'];
+  database_name: string;
+  strategy: string;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  file_name: string | null;
+  size_bytes: number | null;
+  compressed: number | null;
+  checksum: string | null;
+  deliveries: string;
+  error: string | null;
+  error_phase: CatalogEntry['errorPhase'] | null;
+}
+
+const CREATE_TABLE = `
+  CREATE TABLE IF NOT EXISTS backup_runs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    database_name TEXT NOT NULL,
+    strategy TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    file_name TEXT,
+    size_bytes INTEGER,
+    compressed INTEGER,
+    checksum TEXT,
+    deliveries TEXT NOT NULL,
+    error TEXT,
+    error_phase TEXT
+  );
+  CREATE INDEX IF NOT EXISTS backup_runs_database ON backup_runs (database_name, finished_at);
+`;
+
+/**
+ * Catalog stored in a SQLite database through the optional better-sqlite3
+ * dependency. Suited to large histories, since queries use an index.
+ */
+export class SQLiteCatalog implements BackupCatalog {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private db?: Promise<any>;
+
+  constructor(readonly path: string) {}
+
+  async record(entry: CatalogEntry): Promise<void> {
+    const db = await this.open();
+    db.prepare(`
+      INSERT INTO backup_runs (
+        id, status, database_name, strategy, started_at, finished_at, duration_ms, file_name,
+        size_bytes, compressed, checksum, deliveries, error, error_phase
+      ) VALUES (
+        @id, @status, @database_name, @strategy, @started_at, @finished_at, @duration_ms, @file_name,
+        @size_bytes, @compressed, @checksum, @deliveries, @error, @error_phase
+      )
+    `).run(toRow(entry));
+  }
+
+  async list(query: CatalogQuery = {}): Promise<CatalogEntry[]> {
+    const db = await this.open();
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.database !== undefined) {
+      conditions.push('database_name = @database');
+      params['database'] = query.database;
+    }
+    if (query.strategy !== undefined) {
+      conditions.push('strategy = @strategy');
+      params['strategy'] = query.strategy;
+    }
+    if (query.status !== undefined) {
+      conditions.push('status = @status');
+      params['status'] = query.status;
+    }
+    // ISO timestamps sort the same as the dates they encode
+    if (query.since !== undefined) {
+      conditions.push('finished_at >= @since');
+      params['since'] = query.since.toISOString();
+    }
+    if (query.until !== undefined) {
+      conditions.push('finished_at <= @until');
+      params['until'] = query.until.toISOString();
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = query.limit === undefined ? '' : `LIMIT ${Math.max(0, Math.floor(query.limit))}`;
+    const statement = db.prepare(`SELECT * FROM backup_runs ${where} ORDER BY finished_at DESC ${limit}`);
+    // better-sqlite3 rejects named parameters for a statement that has none
+    const rows: CatalogRow[] = conditions.length > 0 ? statement.all(params) : statement.all();
+    return rows.map(fromRow);
+  }
+
+  async latest(database: string, query: LatestQuery = {}): Promise<CatalogEntry | undefined> {
+    const [entry] = await this.list({ ...query, database, limit: 1 });
+    return entry;
+  }
+
+  async close(): Promise<void> {
+    const db = await this.db;
+    db?.close();
+    delete this.db;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private open(): Promise<any> {
+    this.db ??= (async () => {
+      // Dynamic import for optional dependency
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let Database: any;
+      try {
+        Database = (await import('better-sqlite3')).default;
+      } catch {
+        throw new Error(MODULE_MISSING_MESSAGE);
+      }
+
+      await ensureDir(dirname(this.path));
+      const db = Database(this.path);
+      db.exec(CREATE_TABLE);
+      return db;
+    })();
+    // Let a later call retry after a failed open
+    this.db.catch(() => delete this.db);
+    return this.db;
+  }
+}
+
+export function createJsonLinesCatalog(path: string): JsonLinesCatalog {
+  return new JsonLinesCatalog(path);
+}
+
+export function createSQLiteCatalog(path: string): SQLiteCatalog {
+  return new SQLiteCatalog(path);
+}
+
+function matchesQuery(entry: CatalogEntry, query: CatalogQuery): boolean {
+  const finishedAt = entry.finishedAt.getTime();
+  return (query.database === undefined || entry.database === query.database)
+    && (query.strategy === undefined || entry.strategy === query.strategy)
+    && (query.status === undefined || entry.status === query.status)
+    && (query.since === undefined || finishedAt >= query.since.getTime())
+    && (query.until === undefined || finishedAt <= query.until.getTime());
+}
+
+// Skips blank and truncated lines, e.g. from a crash mid-append
+function parseLine(line: string): CatalogEntry | undefined {
+  if (!line.trim()) {
+    return undefined;
+  }
+  try {
+    const raw = JSON.parse(line) as StoredEntry;
+    return { ...raw, startedAt: new Date(raw.startedAt), finishedAt: new Date(raw.finishedAt) };
+  } catch {
+    return undefined;
+  }
+}
+
+function toRow(entry: CatalogEntry): CatalogRow {
+  return {
+    id: entry.id,
+    status: entry.status,
+    database_name: entry.database,
+    strategy: entry.strategy,
+    started_at: entry.startedAt.toISOString(),
+    finished_at: entry.finishedAt.toISOString(),
+    duration_ms: entry.durationMs,
+    file_name: entry.fileName ?? null,
+    size_bytes: entry.sizeBytes ?? null,
+    compressed: entry.compressed === undefined ? null : Number(entry.compressed),
+    checksum: entry.checksum ?? null,
+    deliveries: JSON.stringify(entry.deliveries),
+    error: entry.error ?? null,
+    error_phase: entry.errorPhase ?? null,
+  };
+}
+
+function fromRow(row: CatalogRow): CatalogEntry {
+  const entry: CatalogEntry = {
+    id: row.id,
+    status: row.status,
+    database: row.database_name,
+    strategy: row.strategy,
+    startedAt: new Date(row.started_at),
+    finishedAt: new Date(row.finished_at),
+    durationMs: row.duration_ms,
+    deliveries: JSON.parse(row.deliveries) as CatalogEntry['deliveries'],
+  };
+  // Leave unset columns out, matching entries read from a JSON-lines catalog
+  return {
+    ...entry,
+    ...(row.file_name !== null && { fileName: row.file_name }),
+    ...(row.size_bytes !== null && { sizeBytes: row.size_bytes }),
+    ...(row.compressed !== null && { compressed: row.compressed === 1 }),
+    ...(row.checksum !== null && { checksum: row.checksum }),
+    ...(row.error !== null && { error: row.error }),
+    ...(row.error_phase !== null && { errorPhase: row.error_phase }),
+  };
+}
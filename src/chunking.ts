@@ -0,0 +1,85 @@
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+
+export const ChunkingOptionsSchema = z
+  .object({
+    // Uncompressed bytes; chunk boundaries never fall before minSize or after maxSize
+    minSize: z.number().int().min(64).default(256 * 1024),
+    // Expected chunk size; must be a power of two
+    avgSize: z.number().int().default(1024 * 1024),
+    maxSize: z.number().int().default(4 * 1024 * 1024),
+  })
+  .superRefine(({ minSize, avgSize, maxSize }, ctx) => {
+    if (!Number.isInteger(Math.log2(avgSize)) || avgSize < 256) {
+      ctx.addIssue({ code: 'custom', path: ['avgSize'], message: 'avgSize must be a power of two of at least 256' });
+    }
+    if (minSize >= avgSize || avgSize >= maxSize) {
+      ctx.addIssue({ code: 'custom', path: ['avgSize'], message: 'Chunk sizes must be minSize < avgSize < maxSize' });
+    }
+  });
+
+export type ChunkingOptions = z.input<typeof ChunkingOptionsSchema>;
+
+// Fixed pseudo-random value per byte; changing it would move every chunk boundary
+const GEAR = Int32Array.from({ length: 256 }, (_, i) =>
+  createHash('sha256').update(`wbackup-gear-${i}`).digest().readInt32BE(0)
+);
+
+/**
+ * Content-defined chunking with a gear hash, as in FastCDC. A boundary falls
+ * where the top bits of the hash over the last 32 bytes are zero, so an edit
+ * only moves the boundaries around it and later chunks keep their content.
+ * A stricter mask below avgSize and a looser one above it keep most chunks
+ * close to avgSize.
+ */
+export async function* chunkStream(
+  source: AsyncIterable<Buffer>,
+  options: ChunkingOptions = {}
+): AsyncGenerator<Buffer> {
+  const { minSize, avgSize, maxSize } = ChunkingOptionsSchema.parse(options);
+  const bits = Math.log2(avgSize);
+  const strictMask = topBits(bits + 1);
+  const looseMask = topBits(bits - 1);
+
+  let parts: Buffer[] = [];
+  let size = 0;
+  let hash = 0;
+
+  for await (const data of source) {
+    let start = 0;
+    let i = 0;
+    while (i < data.length) {
+      // The first minSize bytes of a chunk are never hashed
+      if (size < minSize) {
+        const skip = Math.min(minSize - size, data.length - i);
+        size += skip;
+        i += skip;
+        continue;
+      }
+
+      hash = ((hash << 1) + (GEAR[data[i] ?? 0] ?? 0)) | 0;
+      size++;
+      i++;
+      if ((hash & (size < avgSize ? strictMask : looseMask)) === 0 || size === maxSize) {
+        parts.push(data.subarray(start, i));
+        yield Buffer.concat(parts);
+        parts = [];
+        size = 0;
+        hash = 0;
+        start = i;
+      }
+    }
+    if (start < data.length) {
+      parts.push(data.subarray(start));
+    }
+  }
+
+  if (size > 0) {
+    yield Buffer.concat(parts);
+  }
+}
+
+// The high bits of a gear hash depend on the most bytes
+function topBits(count: number): number {
+  return count >= 32 ? -1 : ~(-1 >>> count);
+}
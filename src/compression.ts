@@ -0,0 +1,255 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import type { Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import * as zlib from 'node:zlib';
+import { z } from 'zod';
+import type {
+  BackupContext,
+  CompressFileOptions,
+  CompressionCodec,
+  Compressor,
+  PreflightCheck,
+} from './types.js';
+import { DEFAULT_GZIP_BLOCK_SIZE, MIN_GZIP_BLOCK_SIZE, createParallelGzip } from './parallel-gzip.js';
+import { checkExecutable } from './preflight.js';
+import { createProgressTracker, DEFAULT_PROGRESS_INTERVAL_MS } from './progress.js';
+import { getFileSize, readFileHeader, removeFile, runCommand } from './utils.js';
+
+export const COMPRESSION_CODECS = ['gzip', 'brotli', 'zstd'] as const satisfies readonly CompressionCodec[];
+
+const CODECS: Record<CompressionCodec, { extension: string; minLevel: number; maxLevel: number; level: number }> = {
+  // Level 6: ~10x faster than 9, only ~5% larger
+  gzip: { extension: '.gz', minLevel: 1, maxLevel: 9, level: 6 },
+  // Brotli's own default of 11 is far too slow for large dumps
+  brotli: { extension: '.br', minLevel: 0, maxLevel: 11, level: 6 },
+  // Levels above 19 need zstd's --ultra mode and a lot of memory
+  zstd: { extension: '.zst', minLevel: 1, maxLevel: 19, level: 3 },
+};
+
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
+const ZSTD_MAGIC = Buffer.from([0x28, 0xb5, 0x2f, 0xfd]);
+
+const ZSTD_NOT_FOUND_MESSAGE = 'zstd not found. Install zstd, or use Node.js 22.15 or later, which has it built in.';
+
+export const CompressionOptionsSchema = z
+  .object({
+    codec: z.enum(COMPRESSION_CODECS).default('gzip'),
+    // Defaults per codec: gzip 6, brotli 6, zstd 3
+    level: z.number().int().optional(),
+    // gzip only: worker threads compressing blocks side by side (default: 1, no workers)
+    threads: z.number().int().min(1).optional(),
+    // gzip only: uncompressed bytes per block when threads > 1 (default: 1MB)
+    blockSize: z.number().int().min(MIN_GZIP_BLOCK_SIZE).optional(),
+  })
+  .superRefine(({ codec, level, threads, blockSize }, ctx) => {
+    const { minLevel, maxLevel } = CODECS[codec];
+    if (level !== undefined && (level < minLevel || level > maxLevel)) {
+      ctx.addIssue({ code: 'custom', path: ['level'], message: `${codec} level must be ${minLevel}-${maxLevel}` });
+    }
+    if (codec !== 'gzip' && (threads !== undefined || blockSize !== undefined)) {
+      ctx.addIssue({ code: 'custom', path: ['threads'], message: 'threads and blockSize are only supported by gzip' });
+    }
+  });
+
+export type CompressionOptions = z.input<typeof CompressionOptionsSchema>;
+
+export interface CompressedOutput {
+  finalPath: string;
+  compressed: boolean;
+  sizeBytes: number;
+  codec?: CompressionCodec | undefined;
+}
+
+// Streams through a node:zlib transform, or the worker-thread gzip transform
+class ZlibCompressor implements Compressor {
+  constructor(
+    readonly codec: CompressionCodec,
+    readonly level: number,
+    readonly createStream: () => Transform
+  ) {}
+
+  get extension(): string {
+    return CODECS[this.codec].extension;
+  }
+
+  async compress(inputPath: string, outputPath: string, options: CompressFileOptions = {}): Promise<void> {
+    const source = createReadStream(inputPath);
+    if (options.onBytes) {
+      const { onBytes } = options;
+      let bytesRead = 0;
+      source.on('data', (chunk) => {
+        bytesRead += chunk.length;
+        onBytes(bytesRead);
+      });
+    }
+    const destination = createWriteStream(outputPath);
+    await pipeline(source, this.createStream(), destination, options.signal ? { signal: options.signal } : {});
+  }
+}
+
+// Runs the zstd command on Node.js versions whose zlib has no zstd; reports no byte progress
+class ZstdCommandCompressor implements Compressor {
+  readonly codec = 'zstd';
+  readonly extension = CODECS.zstd.extension;
+
+  constructor(readonly level: number) {}
+
+  async compress(inputPath: string, outputPath: string, options: CompressFileOptions = {}): Promise<void> {
+    await runCommand({
+      command: 'zstd',
+      args: ['--quiet', '--force', `-${this.level}`, '-o', outputPath, inputPath],
+      notFoundMessage: ZSTD_NOT_FOUND_MESSAGE,
+      signal: options.signal,
+    });
+  }
+
+  preflight(): Promise<PreflightCheck> {
+    return checkExecutable('zstd', ZSTD_NOT_FOUND_MESSAGE);
+  }
+}
+
+export function createCompressor(options: CompressionOptions = {}): Compressor {
+  const parsed = CompressionOptionsSchema.parse(options);
+  const { codec } = parsed;
+  const level = parsed.level ?? CODECS[codec].level;
+
+  switch (codec) {
+    case 'gzip': {
+      const threads = parsed.threads ?? 1;
+      const blockSize = parsed.blockSize ?? DEFAULT_GZIP_BLOCK_SIZE;
+      return new ZlibCompressor(codec, level, () =>
+        threads > 1 ? createParallelGzip({ level, threads, blockSize }) : zlib.createGzip({ level })
+      );
+    }
+    case 'brotli':
+      return new ZlibCompressor(codec, level, () =>
+        zlib.createBrotliCompress({ params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level } })
+      );
+    case 'zstd':
+      return hasNativeZstd()
+        ? new ZlibCompressor(codec, level, () =>
+          zlib.createZstdCompress({ params: { [zlib.constants.ZSTD_c_compressionLevel]: level } })
+        )
+        : new ZstdCommandCompressor(level);
+  }
+}
+
+// zlib gained zstd in Node.js 22.15 and 23.8
+export function hasNativeZstd(): boolean {
+  return typeof zlib.createZstdCompress === 'function';
+}
+
+// Brotli streams have no magic number, so they are recognised by their extension
+export async function detectCodec(filePath: string): Promise<CompressionCodec | undefined> {
+  if ((await stat(filePath)).isDirectory()) {
+    return undefined;
+  }
+
+  const header = await readFileHeader(filePath, ZSTD_MAGIC.length);
+  if (header.subarray(0, GZIP_MAGIC.length).equals(GZIP_MAGIC)) {
+    return 'gzip';
+  }
+  if (header.equals(ZSTD_MAGIC)) {
+    return 'zstd';
+  }
+  return filePath.endsWith(CODECS.brotli.extension) ? 'brotli' : undefined;
+}
+
+// Also reads pigz-style multi-member gzip; a failed run leaves no output behind
+export async function decompressFile(
+  inputPath: string,
+  outputPath: string,
+  codec: CompressionCodec,
+  signal?: AbortSignal
+): Promise<void> {
+  try {
+    if (codec === 'zstd' && !hasNativeZstd()) {
+      await runCommand({
+        command: 'zstd',
+        args: ['--quiet', '--decompress', '-o', outputPath, inputPath],
+        notFoundMessage: ZSTD_NOT_FOUND_MESSAGE,
+        signal,
+      });
+      return;
+    }
+
+    const destination = createWriteStream(outputPath);
+    await pipeline(createReadStream(inputPath), createDecompressStream(codec), destination, signal ? { signal } : {});
+  } catch (error) {
+    await removeFile(outputPath);
+    throw error;
+  }
+}
+
+function createDecompressStream(codec: CompressionCodec): Transform {
+  switch (codec) {
+    case 'gzip':
+      return zlib.createGunzip();
+    case 'brotli':
+      return zlib.createBrotliDecompress();
+    case 'zstd':
+      return zlib.createZstdDecompress();
+  }
+}
+
+// Writes "<input><extension>" and removes the input; a failed run leaves the input untouched
+export async function compressFile(
+  inputPath: string,
+  signal?: AbortSignal,
+  onBytes?: (bytesRead: number) => void,
+  compressor: Compressor = createCompressor()
+): Promise<string> {
+  const outputPath = `${inputPath}${compressor.extension}`;
+
+  try {
+    await compressor.compress(inputPath, outputPath, { signal, onBytes });
+  } catch (error) {
+    await removeFile(outputPath);
+    throw error;
+  }
+  await removeFile(inputPath);
+
+  return outputPath;
+}
+
+/**
+ * Shared compression step for backup strategies, using context.compressor.
+ * Formats that are compressed already pass skipReason, which is reported
+ * through context.onCompressionSkipped when compression is on.
+ */
+export async function maybeCompress(
+  path: string,
+  shouldCompress: boolean,
+  context: BackupContext = {},
+  skipReason?: string
+): Promise<CompressedOutput> {
+  if (!shouldCompress || skipReason !== undefined) {
+    if (shouldCompress && skipReason !== undefined) {
+      context.onCompressionSkipped?.(skipReason);
+    }
+    return { finalPath: path, compressed: false, sizeBytes: await getFileSize(path) };
+  }
+
+  const compressor = context.compressor ?? createCompressor();
+  const inputBytes = await getFileSize(path);
+  const startTime = Date.now();
+  const { onByteProgress } = context;
+  const tracker = onByteProgress && createProgressTracker(
+    context.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS,
+    (progress) => onByteProgress('compress', progress)
+  );
+  const onBytes = tracker && ((bytesRead: number) => tracker.report(bytesRead, inputBytes));
+
+  const finalPath = await compressFile(path, context.signal, onBytes, compressor);
+  tracker?.finish();
+  const sizeBytes = await getFileSize(finalPath);
+  context.onCompressed?.({
+    codec: compressor.codec,
+    inputBytes,
+    outputBytes: sizeBytes,
+    durationMs: Date.now() - startTime,
+  });
+
+  return { finalPath, compressed: true, sizeBytes, codec: compressor.codec };
+}
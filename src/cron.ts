@@ -0,0 +1,246 @@
+/**
+ * Minimal cron expression parser with seconds and time zone support.
+ *
+ * Accepts 5 fields (minute hour day month weekday) or 6 fields with a
+ * leading seconds field. Supports `*`, lists, ranges, steps, month and
+ * weekday names, and the @yearly/@monthly/@weekly/@daily/@hourly macros.
+ * Time zones are resolved with the built-in Intl API, no time service needed.
+ */
+
+interface CronField {
+  readonly values: ReadonlySet<number>;
+  readonly wildcard: boolean;
+}
+
+export interface CronExpression {
+  readonly source: string;
+  readonly seconds: CronField;
+  readonly minutes: CronField;
+  readonly hours: CronField;
+  readonly daysOfMonth: CronField;
+  readonly months: CronField;
+  readonly daysOfWeek: CronField;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 0 1 1 *',
+  '@annually': '0 0 0 1 1 *',
+  '@monthly': '0 0 0 1 * *',
+  '@weekly': '0 0 0 * * 0',
+  '@daily': '0 0 0 * * *',
+  '@midnight': '0 0 0 * * *',
+  '@hourly': '0 0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Give up when no match exists within this many years (e.g. "0 0 30 2 *")
+const MAX_SEARCH_YEARS = 8;
+
+function parseValue(token: string, min: number, names?: string[]): number {
+  const nameIndex = names?.indexOf(token.toLowerCase()) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + min;
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Invalid cron value "${token}"`);
+  }
+  return parseInt(token, 10);
+}
+
+function parseField(expression: string, min: number, max: number, names?: string[]): CronField {
+  const values = new Set<number>();
+  const wildcard = expression === '*' || expression === '?';
+
+  for (const part of expression.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    if (rangePart === undefined || rangePart === '' || part.split('/').length > 2) {
+      throw new Error(`Invalid cron field "${expression}"`);
+    }
+
+    const step = stepPart === undefined ? 1 : parseValue(stepPart, 0);
+    if (step < 1) {
+      throw new Error(`Invalid cron step in "${expression}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*' || rangePart === '?') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from ?? '', min, names);
+      end = parseValue(to ?? '', min, names);
+    } else {
+      start = parseValue(rangePart, min, names);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field "${expression}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard };
+}
+
+export function parseCron(expression: string): CronExpression {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+
+  if (fields.length === 5) {
+    fields.unshift('0');
+  }
+  if (fields.length !== 6) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 or 6 fields`);
+  }
+
+  const [seconds, minutes, hours, daysOfMonth, months, daysOfWeek] = fields as [
+    string, string, string, string, string, string,
+  ];
+
+  // Weekday accepts 0-7, where both 0 and 7 mean Sunday
+  const weekdays = parseField(daysOfWeek, 0, 7, DAY_NAMES);
+  const normalizedWeekdays = new Set(Array.from(weekdays.values, (day) => day % 7));
+
+  return {
+    source: expression,
+    seconds: parseField(seconds, 0, 59),
+    minutes: parseField(minutes, 0, 59),
+    hours: parseField(hours, 0, 23),
+    daysOfMonth: parseField(daysOfMonth, 1, 31),
+    months: parseField(months, 1, 12, MONTH_NAMES),
+    daysOfWeek: { values: normalizedWeekdays, wildcard: weekdays.wildcard },
+  };
+}
+
+// ============================================================================
+// Time zone helpers
+// ============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string | undefined): Intl.DateTimeFormat {
+  const key = timeZone ?? '';
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      ...(timeZone ? { timeZone } : {}),
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+export function assertTimeZone(timeZone: string): void {
+  try {
+    getFormatter(timeZone);
+  } catch {
+    throw new Error(`Invalid time zone "${timeZone}"`);
+  }
+}
+
+// Wall-clock time in the zone, encoded as if it were a UTC timestamp
+function toWallClock(instant: number, timeZone: string | undefined): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return Date.UTC(
+    parts['year'] ?? 1970,
+    (parts['month'] ?? 1) - 1,
+    parts['day'] ?? 1,
+    parts['hour'] ?? 0,
+    parts['minute'] ?? 0,
+    parts['second'] ?? 0
+  );
+}
+
+function fromWallClock(wallClock: number, timeZone: string | undefined): number {
+  const offsetAt = (instant: number): number => toWallClock(instant, timeZone) - instant;
+
+  const guess = wallClock - offsetAt(wallClock);
+  const corrected = wallClock - offsetAt(guess);
+  for (const instant of [corrected, guess]) {
+    if (toWallClock(instant, timeZone) === wallClock) {
+      return instant;
+    }
+  }
+  // Wall-clock time falls in a DST gap, shift it forward past the gap
+  return Math.max(guess, corrected);
+}
+
+// ============================================================================
+// Next run calculation
+// ============================================================================
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.values.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.values.has(date.getUTCDay());
+
+  // Standard cron: when both fields are restricted, either may match
+  if (!cron.daysOfMonth.wildcard && !cron.daysOfWeek.wildcard) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Returns the first time strictly after `after` that matches the expression.
+ * Wall-clock times skipped by a DST transition run at the shifted instant.
+ */
+export function nextCronRun(cron: CronExpression, after: Date, timeZone?: string): Date {
+  const start = Math.floor(after.getTime() / 1000) * 1000 + 1000;
+  const cursor = new Date(toWallClock(start, timeZone));
+  const limitYear = cursor.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (cursor.getUTCFullYear() <= limitYear) {
+    if (!cron.months.values.has(cursor.getUTCMonth() + 1)) {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1, 1);
+      cursor.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, cursor)) {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+      cursor.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.values.has(cursor.getUTCHours())) {
+      cursor.setUTCHours(cursor.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.values.has(cursor.getUTCMinutes())) {
+      cursor.setUTCMinutes(cursor.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    if (!cron.seconds.values.has(cursor.getUTCSeconds())) {
+      cursor.setUTCSeconds(cursor.getUTCSeconds() + 1, 0);
+      continue;
+    }
+
+    const instant = fromWallClock(cursor.getTime(), timeZone);
+    if (instant >= start) {
+      return new Date(instant);
+    }
+    // A repeated wall-clock hour (DST fall back) can map before the start
+    cursor.setUTCSeconds(cursor.getUTCSeconds() + 1, 0);
+  }
+
+  throw new Error(`Cron expression "${cron.source}" has no upcoming run`);
+}
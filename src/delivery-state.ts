@@ -0,0 +1,80 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import type { BackupResult } from './types.js';
+import { BackupError } from './utils.js';
+
+const STATE_VERSION = 1;
+
+export interface DeliveredPart {
+  readonly partNumber: number;
+  readonly messageId?: string;
+}
+
+// Progress of one destination, stored as JSON next to the retained backup
+export interface DeliveryState {
+  readonly version: typeof STATE_VERSION;
+  readonly platform: string;
+  // SHA-256 of the backup file, guards against resuming with a different file
+  readonly checksum: string;
+  readonly partSizeBytes: number;
+  readonly totalParts: number;
+  completed: boolean;
+  parts: DeliveredPart[];
+  readonly backup: Omit<BackupResult, 'createdAt'> & { readonly createdAt: string };
+}
+
+export function getDeliveryStatePath(filePath: string, index: number, platform: string): string {
+  return `${filePath}.delivery-${index + 1}-${platform}.json`;
+}
+
+export async function loadDeliveryState(statePath: string): Promise<DeliveryState | undefined> {
+  let raw: string;
+  try {
+    raw = await readFile(statePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  let state: DeliveryState;
+  try {
+    state = JSON.parse(raw) as DeliveryState;
+  } catch (error) {
+    throw new BackupError(`Corrupt delivery state file: ${statePath}`, 'delivery', error);
+  }
+  if (state.version !== STATE_VERSION) {
+    throw new BackupError(`Unsupported delivery state version ${state.version}: ${statePath}`, 'delivery');
+  }
+  return state;
+}
+
+// Write-then-rename so a crash never leaves a half-written state file
+export async function saveDeliveryState(statePath: string, state: DeliveryState): Promise<void> {
+  const tempPath = `${statePath}.tmp`;
+  await writeFile(tempPath, JSON.stringify(state, null, 2));
+  await rename(tempPath, statePath);
+}
+
+export function createDeliveryState(
+  platform: string,
+  backup: BackupResult,
+  checksum: string,
+  partSizeBytes: number,
+  totalParts: number
+): DeliveryState {
+  return {
+    version: STATE_VERSION,
+    platform,
+    checksum,
+    partSizeBytes,
+    totalParts,
+    completed: false,
+    parts: [],
+    backup: { ...backup, checksum, createdAt: backup.createdAt.toISOString() },
+  };
+}
+
+export function restoreBackupResult(state: DeliveryState, filePath: string): BackupResult {
+  return { ...state.backup, filePath, createdAt: new Date(state.backup.createdAt) };
+}
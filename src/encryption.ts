@@ -0,0 +1,553 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import { open } from 'node:fs/promises';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+  type KeyObject,
+  type ScryptOptions,
+} from 'node:crypto';
+import { Transform, type TransformCallback } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { z } from 'zod';
+import { removeFile } from './utils.js';
+
+/**
+ * Encrypted file layout, version 1. All integers are big-endian.
+ *
+ *   magic "WBKE" | version u8 | kdf u8 (0 raw key, 1 scrypt, 2 recipients) | scrypt logN u8, r u8, p u8
+ *   | chunk size u32 | salt (16) | nonce prefix (7) | key check (16)
+ *   with recipients: count u8, then per recipient
+ *     fingerprint (8) | ephemeral X25519 public key (32) | wrapped data key (32) | tag (16)
+ *   then one AES-256-GCM chunk after another: ciphertext | tag (16)
+ *
+ * Chunk nonces are the prefix, a u32 chunk counter and a final-chunk flag, and
+ * every chunk authenticates the whole header, so reordered, truncated or
+ * appended chunks and a modified header all fail to decrypt.
+ *
+ * Recipient files use a random data key, wrapped for each recipient with a key
+ * agreed between a fresh ephemeral key pair and the recipient's public key.
+ */
+const MAGIC = Buffer.from('WBKE');
+const FORMAT_VERSION = 1;
+const KDF_RAW = 0;
+const KDF_SCRYPT = 1;
+const KDF_RECIPIENTS = 2;
+const SALT_LENGTH = 16;
+const NONCE_PREFIX_LENGTH = 7;
+const KEY_CHECK_LENGTH = 16;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+const FIXED_HEADER_LENGTH = MAGIC.length + 1 + 1 + 3 + 4 + SALT_LENGTH + NONCE_PREFIX_LENGTH + KEY_CHECK_LENGTH;
+const FINGERPRINT_LENGTH = 8;
+const X25519_KEY_LENGTH = 32;
+const STANZA_LENGTH = FINGERPRINT_LENGTH + X25519_KEY_LENGTH + KEY_LENGTH + TAG_LENGTH;
+const MAX_RECIPIENTS = 32;
+const MAX_HEADER_LENGTH = FIXED_HEADER_LENGTH + 1 + MAX_RECIPIENTS * STANZA_LENGTH;
+const CHUNK_SIZE = 64 * 1024;
+// Bounds for values read from a header, so a crafted file cannot exhaust memory
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+const MAX_CHUNKS = 2 ** 32;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const MAX_SCRYPT_LOG_N = 20;
+
+export const ENCRYPTED_EXTENSION = '.enc';
+
+const PassphraseSchema = z.string().min(8, 'Passphrase must be at least 8 characters');
+// 32 random bytes, hex or base64 encoded
+const RawKeySchema = z.string().refine((key) => decodeRawKey(key) !== undefined, 'Key must be 32 bytes, hex or base64');
+
+const exactlyOne = (...values: unknown[]) => values.filter((value) => value !== undefined).length === 1;
+
+export const EncryptionOptionsSchema = z
+  .object({
+    passphrase: PassphraseSchema.optional(),
+    key: RawKeySchema.optional(),
+    // X25519 public keys in PEM format; only the matching private keys can decrypt
+    recipients: z
+      .array(z.string().refine((key) => parsePublicKey(key) !== undefined, 'Recipient must be an X25519 public key'))
+      .min(1)
+      .max(MAX_RECIPIENTS)
+      .optional(),
+    // scrypt cost as a power of two; 17 uses 128 MiB and takes a few hundred milliseconds
+    scryptLogN: z.number().int().min(14).max(MAX_SCRYPT_LOG_N).default(17),
+  })
+  .refine((options) => exactlyOne(options.passphrase, options.key, options.recipients), {
+    message: 'Provide one of passphrase, key or recipients',
+  });
+
+export type EncryptionOptions = z.input<typeof EncryptionOptionsSchema>;
+
+export const DecryptionOptionsSchema = z
+  .object({
+    passphrase: PassphraseSchema.optional(),
+    key: RawKeySchema.optional(),
+    // X25519 private key in PEM format, for files encrypted to recipients
+    privateKey: z
+      .string()
+      .refine((key) => parsePrivateKey(key) !== undefined, 'Private key must be an X25519 private key')
+      .optional(),
+  })
+  .refine((options) => exactlyOne(options.passphrase, options.key, options.privateKey), {
+    message: 'Provide one of passphrase, key or privateKey',
+  });
+
+export type DecryptionOptions = z.input<typeof DecryptionOptionsSchema>;
+
+export interface RecipientKeyPair {
+  // PEM; goes into the recipients option on backup hosts
+  readonly publicKey: string;
+  // PEM; keep it off backup hosts, it is only needed to decrypt
+  readonly privateKey: string;
+  readonly fingerprint: string;
+}
+
+export type DecryptionFailure = 'format' | 'key' | 'integrity';
+
+// Thrown by decryptFile(); reason tells a wrong key apart from a damaged or modified file
+export class DecryptionError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: DecryptionFailure,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+export interface EncryptFileOptions {
+  signal?: AbortSignal | undefined;
+  // Running count of plaintext bytes read
+  onBytes?: ((bytesRead: number) => void) | undefined;
+}
+
+interface Stanza {
+  readonly fingerprint: Buffer;
+  readonly ephemeralPublicKey: Buffer;
+  readonly wrappedKey: Buffer;
+}
+
+interface Header {
+  readonly bytes: Buffer;
+  readonly kdf: number;
+  readonly scryptLogN: number;
+  readonly scryptR: number;
+  readonly scryptP: number;
+  readonly chunkSize: number;
+  readonly salt: Buffer;
+  readonly noncePrefix: Buffer;
+  readonly keyCheck: Buffer;
+  readonly stanzas: Stanza[];
+}
+
+export function generateRecipientKeyPair(): RecipientKeyPair {
+  const { publicKey, privateKey } = generateKeyPairSync('x25519');
+  return {
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    fingerprint: fingerprint(publicKey).toString('hex'),
+  };
+}
+
+// Short hex ID of a recipient public key or private key, as shown in delivery captions
+export function recipientFingerprint(key: string): string {
+  const keyObject = parsePublicKey(key) ?? publicKeyOf(key);
+  if (!keyObject) {
+    throw new Error('Not an X25519 key');
+  }
+  return fingerprint(keyObject).toString('hex');
+}
+
+export async function encryptFile(
+  inputPath: string,
+  outputPath: string,
+  options: EncryptionOptions,
+  fileOptions: EncryptFileOptions = {}
+): Promise<void> {
+  const { passphrase, key, recipients, scryptLogN } = EncryptionOptionsSchema.parse(options);
+  const salt = randomBytes(SALT_LENGTH);
+  const kdf = recipients ? KDF_RECIPIENTS : passphrase === undefined ? KDF_RAW : KDF_SCRYPT;
+  const masterKey = recipients
+    ? randomBytes(KEY_LENGTH)
+    : passphrase === undefined
+      ? (decodeRawKey(key ?? '') as Buffer)
+      : await deriveScryptKey(passphrase, salt, scryptLogN, SCRYPT_R, SCRYPT_P);
+  const keys = deriveKeys(masterKey, salt);
+
+  const fixedHeader = Buffer.alloc(FIXED_HEADER_LENGTH);
+  let offset = MAGIC.copy(fixedHeader, 0);
+  offset = fixedHeader.writeUInt8(FORMAT_VERSION, offset);
+  offset = fixedHeader.writeUInt8(kdf, offset);
+  offset = fixedHeader.writeUInt8(kdf === KDF_SCRYPT ? scryptLogN : 0, offset);
+  offset = fixedHeader.writeUInt8(kdf === KDF_SCRYPT ? SCRYPT_R : 0, offset);
+  offset = fixedHeader.writeUInt8(kdf === KDF_SCRYPT ? SCRYPT_P : 0, offset);
+  offset = fixedHeader.writeUInt32BE(CHUNK_SIZE, offset);
+  offset += salt.copy(fixedHeader, offset);
+  offset += randomBytes(NONCE_PREFIX_LENGTH).copy(fixedHeader, offset);
+  keys.keyCheck.copy(fixedHeader, offset);
+  const header = recipients
+    ? Buffer.concat([
+      fixedHeader,
+      Buffer.from([recipients.length]),
+      ...recipients.map((recipient) => wrapDataKey(masterKey, parsePublicKey(recipient) as KeyObject, fixedHeader)),
+    ])
+    : fixedHeader;
+  const parsedHeader = parseHeader(header);
+
+  const source = createReadStream(inputPath);
+  if (fileOptions.onBytes) {
+    const { onBytes } = fileOptions;
+    let bytesRead = 0;
+    source.on('data', (chunk) => {
+      bytesRead += chunk.length;
+      onBytes(bytesRead);
+    });
+  }
+
+  try {
+    await pipeline(
+      source,
+      new ChunkTransform(CHUNK_SIZE, header, (data, final, counter) =>
+        sealChunk(keys.encryptionKey, parsedHeader, data, final, counter)
+      ),
+      createWriteStream(outputPath, { flags: 'wx' }),
+      fileOptions.signal ? { signal: fileOptions.signal } : {}
+    );
+  } catch (error) {
+    // 'wx' refuses to replace an existing file, which must then be left alone
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      await removeFile(outputPath);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Decrypts a file written by encryptFile(). Rejects with DecryptionError for a
+ * wrong key or a damaged or modified file, and never leaves partial output.
+ */
+export async function decryptFile(
+  inputPath: string,
+  outputPath: string,
+  options: DecryptionOptions,
+  signal?: AbortSignal
+): Promise<void> {
+  const { passphrase, key, privateKey } = DecryptionOptionsSchema.parse(options);
+  const header = parseHeader(await readHeader(inputPath));
+
+  const given = privateKey !== undefined ? KDF_RECIPIENTS : passphrase !== undefined ? KDF_SCRYPT : KDF_RAW;
+  if (header.kdf !== given) {
+    const expected = ['a raw key', 'a passphrase', 'recipient public keys'][header.kdf];
+    throw new DecryptionError(`Wrong key: this file was encrypted with ${expected}`, 'key');
+  }
+  const masterKey = privateKey !== undefined
+    ? unwrapDataKey(header, parsePrivateKey(privateKey) as KeyObject)
+    : passphrase === undefined
+      ? (decodeRawKey(key ?? '') as Buffer)
+      : await deriveScryptKey(passphrase, header.salt, header.scryptLogN, header.scryptR, header.scryptP);
+  const keys = deriveKeys(masterKey, header.salt);
+  if (!timingSafeEqual(keys.keyCheck, header.keyCheck)) {
+    throw new DecryptionError('Wrong key or passphrase', 'key');
+  }
+
+  try {
+    await pipeline(
+      createReadStream(inputPath, { start: header.bytes.length }),
+      new ChunkTransform(header.chunkSize + TAG_LENGTH, undefined, (data, final, counter) =>
+        openChunk(keys.encryptionKey, header, data, final, counter)
+      ),
+      createWriteStream(outputPath, { flags: 'wx' }),
+      signal ? { signal } : {}
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      await removeFile(outputPath);
+    }
+    throw error;
+  }
+}
+
+export function isEncryptedFile(header: Buffer): boolean {
+  return header.length >= MAGIC.length && header.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+/**
+ * Cuts a stream into fixed-size chunks and passes each to seal(). The last
+ * chunk is held back until the input has ended and then marked final, so an
+ * input that ends on a boundary gets a full-size final chunk; only an empty
+ * input gets an empty one.
+ */
+class ChunkTransform extends Transform {
+  private pending: Buffer = Buffer.alloc(0);
+  private counter = 0;
+
+  constructor(
+    private readonly chunkSize: number,
+    prefix: Buffer | undefined,
+    private readonly transformChunk: (data: Buffer, final: boolean, counter: number) => Buffer
+  ) {
+    super();
+    if (prefix) {
+      this.push(prefix);
+    }
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.pending = this.pending.length === 0 ? chunk : Buffer.concat([this.pending, chunk]);
+    try {
+      let offset = 0;
+      while (this.pending.length - offset > this.chunkSize) {
+        this.push(this.next(this.pending.subarray(offset, offset + this.chunkSize), false));
+        offset += this.chunkSize;
+      }
+      this.pending = this.pending.subarray(offset);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  override _flush(callback: TransformCallback): void {
+    try {
+      this.push(this.next(this.pending, true));
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private next(data: Buffer, final: boolean): Buffer {
+    if (this.counter >= MAX_CHUNKS) {
+      throw new Error('File is too large to encrypt');
+    }
+    return this.transformChunk(data, final, this.counter++);
+  }
+}
+
+function sealChunk(key: Buffer, header: Header, data: Buffer, final: boolean, counter: number): Buffer {
+  const cipher = createCipheriv('aes-256-gcm', key, chunkNonce(header, counter, final));
+  cipher.setAAD(header.bytes);
+  return Buffer.concat([cipher.update(data), cipher.final(), cipher.getAuthTag()]);
+}
+
+function openChunk(key: Buffer, header: Header, data: Buffer, final: boolean, counter: number): Buffer {
+  const integrityError = (cause?: unknown) =>
+    new DecryptionError('Encrypted file is corrupted, truncated or was modified', 'integrity', cause);
+  if (data.length < TAG_LENGTH) {
+    throw integrityError();
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', key, chunkNonce(header, counter, final));
+  decipher.setAAD(header.bytes);
+  decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+  try {
+    return Buffer.concat([decipher.update(data.subarray(0, data.length - TAG_LENGTH)), decipher.final()]);
+  } catch (error) {
+    throw integrityError(error);
+  }
+}
+
+function chunkNonce(header: Header, counter: number, final: boolean): Buffer {
+  const nonce = Buffer.alloc(NONCE_PREFIX_LENGTH + 5);
+  header.noncePrefix.copy(nonce);
+  nonce.writeUInt32BE(counter, NONCE_PREFIX_LENGTH);
+  nonce.writeUInt8(final ? 1 : 0, NONCE_PREFIX_LENGTH + 4);
+  return nonce;
+}
+
+async function readHeader(filePath: string): Promise<Buffer> {
+  const handle = await open(filePath, 'r');
+  try {
+    // Recipient headers vary in length; parseHeader() cuts off whatever follows
+    const header = Buffer.alloc(MAX_HEADER_LENGTH);
+    const { bytesRead } = await handle.read(header, 0, MAX_HEADER_LENGTH, 0);
+    return header.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function parseHeader(bytes: Buffer): Header {
+  if (!isEncryptedFile(bytes)) {
+    throw new DecryptionError('Not a wbackup encrypted file', 'format');
+  }
+  if (bytes.length < FIXED_HEADER_LENGTH) {
+    throw new DecryptionError('Encrypted file header is truncated', 'format');
+  }
+  const version = bytes.readUInt8(MAGIC.length);
+  if (version !== FORMAT_VERSION) {
+    throw new DecryptionError(`Unsupported encryption format version ${version}`, 'format');
+  }
+
+  let offset = MAGIC.length + 1;
+  const kdf = bytes.readUInt8(offset++);
+  const scryptLogN = bytes.readUInt8(offset++);
+  const scryptR = bytes.readUInt8(offset++);
+  const scryptP = bytes.readUInt8(offset++);
+  const chunkSize = bytes.readUInt32BE(offset);
+  offset += 4;
+  const field = (length: number) => bytes.subarray(offset, (offset += length));
+  const salt = field(SALT_LENGTH);
+  const noncePrefix = field(NONCE_PREFIX_LENGTH);
+  const keyCheck = field(KEY_CHECK_LENGTH);
+
+  const validKdf = kdf === KDF_RAW
+    || kdf === KDF_RECIPIENTS
+    || (kdf === KDF_SCRYPT && scryptLogN >= 1 && scryptLogN <= MAX_SCRYPT_LOG_N && scryptR >= 1 && scryptR <= 32
+      && scryptP >= 1 && scryptP <= 16);
+  if (!validKdf || chunkSize === 0 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new DecryptionError('Encrypted file header is invalid', 'format');
+  }
+
+  const stanzas: Stanza[] = [];
+  if (kdf === KDF_RECIPIENTS) {
+    const count = bytes[offset++] ?? 0;
+    if (count === 0 || count > MAX_RECIPIENTS) {
+      throw new DecryptionError('Encrypted file header is invalid', 'format');
+    }
+    if (bytes.length < offset + count * STANZA_LENGTH) {
+      throw new DecryptionError('Encrypted file header is truncated', 'format');
+    }
+    for (let i = 0; i < count; i++) {
+      stanzas.push({
+        fingerprint: field(FINGERPRINT_LENGTH),
+        ephemeralPublicKey: field(X25519_KEY_LENGTH),
+        wrappedKey: field(KEY_LENGTH + TAG_LENGTH),
+      });
+    }
+  }
+
+  return {
+    bytes: bytes.subarray(0, offset),
+    kdf,
+    scryptLogN,
+    scryptR,
+    scryptP,
+    chunkSize,
+    salt,
+    noncePrefix,
+    keyCheck,
+    stanzas,
+  };
+}
+
+// Encrypts the data key for one recipient; authenticating the fixed header ties the stanza to this file
+function wrapDataKey(dataKey: Buffer, recipient: KeyObject, fixedHeader: Buffer): Buffer {
+  const ephemeral = generateKeyPairSync('x25519');
+  const ephemeralPublicKey = rawPublicKey(ephemeral.publicKey);
+  const wrapKey = deriveWrapKey(
+    diffieHellman({ privateKey: ephemeral.privateKey, publicKey: recipient }),
+    ephemeralPublicKey,
+    rawPublicKey(recipient)
+  );
+
+  const cipher = createCipheriv('aes-256-gcm', wrapKey, Buffer.alloc(12));
+  cipher.setAAD(fixedHeader);
+  const wrappedKey = Buffer.concat([cipher.update(dataKey), cipher.final(), cipher.getAuthTag()]);
+  return Buffer.concat([fingerprint(recipient), ephemeralPublicKey, wrappedKey]);
+}
+
+function unwrapDataKey(header: Header, privateKey: KeyObject): Buffer {
+  const publicKey = createPublicKey(privateKey);
+  const ownFingerprint = fingerprint(publicKey);
+  const stanza = header.stanzas.find((candidate) => candidate.fingerprint.equals(ownFingerprint));
+  if (!stanza) {
+    const fingerprints = header.stanzas.map((candidate) => candidate.fingerprint.toString('hex')).join(', ');
+    throw new DecryptionError(`This file was not encrypted for this private key (recipients: ${fingerprints})`, 'key');
+  }
+
+  const ephemeralPublicKey = createPublicKey({
+    key: { kty: 'OKP', crv: 'X25519', x: stanza.ephemeralPublicKey.toString('base64url') },
+    format: 'jwk',
+  });
+  const wrapKey = deriveWrapKey(
+    diffieHellman({ privateKey, publicKey: ephemeralPublicKey }),
+    stanza.ephemeralPublicKey,
+    rawPublicKey(publicKey)
+  );
+  const decipher = createDecipheriv('aes-256-gcm', wrapKey, Buffer.alloc(12));
+  decipher.setAAD(header.bytes.subarray(0, FIXED_HEADER_LENGTH));
+  decipher.setAuthTag(stanza.wrappedKey.subarray(KEY_LENGTH));
+  try {
+    return Buffer.concat([decipher.update(stanza.wrappedKey.subarray(0, KEY_LENGTH)), decipher.final()]);
+  } catch (error) {
+    throw new DecryptionError('Encrypted file is corrupted, truncated or was modified', 'integrity', error);
+  }
+}
+
+// Each wrap key is used once, which is what makes the fixed all-zero nonce safe
+function deriveWrapKey(sharedSecret: Buffer, ephemeralPublicKey: Buffer, recipientPublicKey: Buffer): Buffer {
+  const salt = Buffer.concat([ephemeralPublicKey, recipientPublicKey]);
+  return Buffer.from(hkdfSync('sha256', sharedSecret, salt, 'wbackup x25519', KEY_LENGTH));
+}
+
+function rawPublicKey(key: KeyObject): Buffer {
+  return Buffer.from(key.export({ format: 'jwk' }).x ?? '', 'base64url');
+}
+
+function fingerprint(publicKey: KeyObject): Buffer {
+  return createHash('sha256').update(rawPublicKey(publicKey)).digest().subarray(0, FINGERPRINT_LENGTH);
+}
+
+function parsePublicKey(key: string): KeyObject | undefined {
+  // createPublicKey() also accepts private keys, which must never end up on a backup host
+  if (key.includes('PRIVATE KEY')) {
+    return undefined;
+  }
+  try {
+    const keyObject = createPublicKey(key);
+    return keyObject.asymmetricKeyType === 'x25519' ? keyObject : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function parsePrivateKey(key: string): KeyObject | undefined {
+  try {
+    const keyObject = createPrivateKey(key);
+    return keyObject.asymmetricKeyType === 'x25519' ? keyObject : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function publicKeyOf(privateKey: string): KeyObject | undefined {
+  const keyObject = parsePrivateKey(privateKey);
+  return keyObject && createPublicKey(keyObject);
+}
+
+function deriveScryptKey(passphrase: string, salt: Buffer, logN: number, r: number, p: number): Promise<Buffer> {
+  const N = 2 ** logN;
+  const options: ScryptOptions = { N, r, p, maxmem: 256 * N * r };
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+// Separate subkeys, so the key check stored in the header reveals nothing about the encryption key
+function deriveKeys(masterKey: Buffer, salt: Buffer): { encryptionKey: Buffer; keyCheck: Buffer } {
+  return {
+    encryptionKey: Buffer.from(hkdfSync('sha256', masterKey, salt, 'wbackup aes-256-gcm', KEY_LENGTH)),
+    keyCheck: Buffer.from(hkdfSync('sha256', masterKey, salt, 'wbackup key check', KEY_CHECK_LENGTH)),
+  };
+}
+
+function decodeRawKey(key: string): Buffer | undefined {
+  if (/^[0-9a-f]{64}$/i.test(key)) {
+    return Buffer.from(key, 'hex');
+  }
+  if (/^[A-Za-z0-9+/]{43}=$/.test(key)) {
+    return Buffer.from(key, 'base64');
+  }
+  return undefined;
+}
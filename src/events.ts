@@ -0,0 +1,49 @@
+import type { BackupEvent, BackupEventListener, BackupEventMap, BackupEventName } from './types.js';
+
+/**
+ * Minimal typed event emitter with any number of listeners per event.
+ *
+ * Listeners run in registration order and async listeners are awaited one
+ * after another; emit() rejects with the first listener error.
+ */
+export class BackupEventEmitter {
+  private readonly listeners = new Map<BackupEventName, Array<BackupEventListener<never>>>();
+
+  // Returns a function that removes the listener again
+  on<K extends BackupEventName>(event: K, listener: BackupEventListener<K>): () => void {
+    const listeners = this.listeners.get(event) ?? [];
+    listeners.push(listener as BackupEventListener<never>);
+    this.listeners.set(event, listeners);
+    return () => this.off(event, listener);
+  }
+
+  once<K extends BackupEventName>(event: K, listener: BackupEventListener<K>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      return listener(payload);
+    });
+    return off;
+  }
+
+  off<K extends BackupEventName>(event: K, listener: BackupEventListener<K>): void {
+    const listeners = this.listeners.get(event);
+    const index = listeners?.indexOf(listener as BackupEventListener<never>) ?? -1;
+    if (listeners && index >= 0) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  listenerCount(event: BackupEventName): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  async emit<K extends BackupEventName>(event: K, payload: BackupEventMap[K]): Promise<void> {
+    // Copy so listeners removed while emitting (once) do not shift the loop
+    const listeners = [...(this.listeners.get(event) ?? [])] as Array<BackupEventListener<K>>;
+    const typed = { type: event, ...payload } as BackupEvent<K>;
+
+    for (const listener of listeners) {
+      await listener(typed);
+    }
+  }
+}
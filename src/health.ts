@@ -0,0 +1,66 @@
+import { statfs } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import type { HealthCheckResult } from './types.js';
+import { createPhaseSignal, formatBytes } from './utils.js';
+
+export const DEFAULT_HEALTH_CHECK_TIMEOUT_MS = 10_000;
+
+/**
+ * Times one check and turns a rejection or timeout into an unhealthy result.
+ * Checks that ignore the signal are abandoned when it aborts.
+ */
+export async function measureHealth(
+  name: string,
+  kind: HealthCheckResult['kind'],
+  check: (signal: AbortSignal) => Promise<void>,
+  timeoutMs: number,
+  parentSignal?: AbortSignal
+): Promise<HealthCheckResult> {
+  const phaseSignal = createPhaseSignal(parentSignal, timeoutMs);
+  const { signal } = phaseSignal;
+  const startTime = Date.now();
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      Promise.resolve()
+        .then(() => check(signal))
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+    return { name, kind, status: 'healthy', latencyMs: Date.now() - startTime };
+  } catch (error) {
+    const message = phaseSignal.timedOut()
+      ? `Timed out after ${timeoutMs}ms`
+      : error instanceof Error
+        ? error.message
+        : String(error);
+    return { name, kind, status: 'unhealthy', latencyMs: Date.now() - startTime, message };
+  } finally {
+    phaseSignal.dispose();
+  }
+}
+
+// Free space in the temp directory, where backups are written before delivery
+export async function checkDiskSpace(minFreeBytes: number): Promise<HealthCheckResult> {
+  const directory = tmpdir();
+  const startTime = Date.now();
+
+  try {
+    const stats = await statfs(directory);
+    const freeBytes = stats.bavail * stats.bsize;
+    const message = `${formatBytes(freeBytes)} free in ${directory}`;
+    const status = freeBytes < minFreeBytes ? 'unhealthy' : 'healthy';
+    return {
+      name: 'temp directory',
+      kind: 'disk',
+      status,
+      latencyMs: Date.now() - startTime,
+      message: status === 'healthy' ? message : `${message}, ${formatBytes(minFreeBytes)} required`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { name: 'temp directory', kind: 'disk', status: 'unhealthy', latencyMs: Date.now() - startTime, message };
+  }
+}
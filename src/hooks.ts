@@ -0,0 +1,100 @@
+import type { BackupHook, BackupPhase, HookContext, HookName, HookOptions } from './types.js';
+import { BackupError, createPhaseSignal, runCommand } from './utils.js';
+
+export const DEFAULT_HOOK_TIMEOUT_MS = 60_000;
+
+// Phase a failing hook is reported under
+export const HOOK_PHASES: Record<HookName, BackupPhase> = {
+  beforeBackup: 'backup',
+  afterBackup: 'backup',
+  beforeDelivery: 'delivery',
+  afterDelivery: 'delivery',
+  finally: 'cleanup',
+};
+
+// Thrown when a hook registered with abortOnFailure fails
+export class HookError extends BackupError {
+  constructor(
+    message: string,
+    public readonly hook: HookName,
+    cause?: unknown
+  ) {
+    super(message, HOOK_PHASES[hook], cause);
+    this.name = 'HookError';
+  }
+}
+
+export interface RegisteredHook {
+  readonly name: HookName;
+  readonly hook: BackupHook;
+  readonly options: HookOptions;
+}
+
+function getHookEnv(context: Omit<HookContext, 'signal'>): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    WBACKUP_HOOK: context.hook,
+    WBACKUP_DATABASE: context.database,
+  };
+
+  if (context.result) {
+    env['WBACKUP_FILE_PATH'] = context.result.filePath;
+    env['WBACKUP_FILE_NAME'] = context.result.fileName;
+    env['WBACKUP_SIZE_BYTES'] = String(context.result.sizeBytes);
+  }
+  if (context.error) {
+    env['WBACKUP_ERROR'] = context.error.message;
+  }
+  return env;
+}
+
+function runShellCommand(script: string, env: NodeJS.ProcessEnv, signal: AbortSignal): Promise<void> {
+  const [command, args] =
+    process.platform === 'win32' ? ['cmd.exe', ['/d', '/s', '/c', script]] : ['/bin/sh', ['-c', script]];
+
+  return runCommand({
+    command,
+    args,
+    env,
+    notFoundMessage: `${command} not found. Hook commands need a shell.`,
+    signal,
+  });
+}
+
+// Settles with the task, or rejects as soon as the signal aborts
+function untilAborted(task: Promise<void>, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    task.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Runs one hook with its timeout. Functions that ignore the signal are
+ * abandoned when it aborts; shell commands are killed.
+ */
+export async function executeHook(
+  registered: RegisteredHook,
+  context: Omit<HookContext, 'signal'>,
+  parentSignal?: AbortSignal
+): Promise<void> {
+  const timeoutMs = registered.options.timeoutMs ?? DEFAULT_HOOK_TIMEOUT_MS;
+  const phaseSignal = createPhaseSignal(parentSignal, timeoutMs);
+  const { signal } = phaseSignal;
+  const { hook } = registered;
+
+  try {
+    signal.throwIfAborted();
+    const task =
+      typeof hook === 'string'
+        ? runShellCommand(hook, getHookEnv(context), signal)
+        : Promise.resolve().then(() => hook({ ...context, signal }));
+    await untilAborted(task, signal);
+  } catch (error) {
+    // Report the timeout rather than the "was cancelled" error of a killed command
+    throw phaseSignal.timedOut() ? signal.reason : error;
+  } finally {
+    phaseSignal.dispose();
+  }
+}
@@ -1,9 +1,14 @@
 // Register default strategies
-import { registerBackupStrategy, registerDeliveryStrategy } from './registry.js';
+import { registerBackupStrategy, registerDeliveryStrategy, registerRestoreStrategy } from './registry.js';
 import { createMongoBackupStrategy } from './strategies/backup/mongodb.js';
 import { createPostgresBackupStrategy } from './strategies/backup/postgresql.js';
 import { createMySQLBackupStrategy } from './strategies/backup/mysql.js';
 import { createDiscordDeliveryStrategy } from './strategies/delivery/discord.js';
+import { createFilesystemDeliveryStrategy } from './strategies/delivery/filesystem.js';
+import { createRepositoryDeliveryStrategy } from './strategies/delivery/repository.js';
+import { createMongoRestoreStrategy } from './strategies/restore/mongodb.js';
+import { createPostgresRestoreStrategy } from './strategies/restore/postgresql.js';
+import { createMySQLRestoreStrategy } from './strategies/restore/mysql.js';
 
 registerBackupStrategy('mongodb', createMongoBackupStrategy);
 registerBackupStrategy('postgresql', createPostgresBackupStrategy);
@@ -11,14 +16,111 @@ registerBackupStrategy('postgres', createPostgresBackupStrategy);
 registerBackupStrategy('mysql', createMySQLBackupStrategy);
 
 registerDeliveryStrategy('discord', createDiscordDeliveryStrategy);
+registerDeliveryStrategy('filesystem', createFilesystemDeliveryStrategy);
+registerDeliveryStrategy('repository', createRepositoryDeliveryStrategy);
+
+registerRestoreStrategy('mongodb', createMongoRestoreStrategy);
+registerRestoreStrategy('postgresql', createPostgresRestoreStrategy);
+registerRestoreStrategy('postgres', createPostgresRestoreStrategy);
+registerRestoreStrategy('mysql', createMySQLRestoreStrategy);
 
 // Core exports
 export { BackupManager, backup } from './manager.js';
 export type { SimpleBackupOptions } from './manager.js';
 
-export { registry, registerBackupStrategy, registerDeliveryStrategy } from './registry.js';
+export { RestoreManager, restore } from './restore.js';
+export type { SimpleRestoreOptions } from './restore.js';
+
+export { BackupPlan } from './plan.js';
+
+export { BackupScheduler } from './scheduler.js';
+export type { BackupSchedulerOptions } from './scheduler.js';
+
+export { parseCron, nextCronRun } from './cron.js';
+export type { CronExpression } from './cron.js';
+
+export { registry, registerBackupStrategy, registerDeliveryStrategy, registerRestoreStrategy } from './registry.js';
+
+export { BackupError, BackupCancelledError, IncompleteDeliveryError, RestoreError } from './utils.js';
+
+export { loadDeliveryState, getDeliveryStatePath } from './delivery-state.js';
+export type { DeliveryState, DeliveredPart } from './delivery-state.js';
+
+export { BackupEventEmitter } from './events.js';
+
+export { JsonLinesCatalog, SQLiteCatalog, createJsonLinesCatalog, createSQLiteCatalog } from './catalog.js';
+
+export { HookError } from './hooks.js';
+
+export { maskArgs, maskSecrets } from './preflight.js';
+
+export { BackupMetrics, METRICS_CONTENT_TYPE, createBackupMetrics } from './metrics.js';
+
+export {
+  COMPRESSION_CODECS,
+  CompressionOptionsSchema,
+  compressFile,
+  createCompressor,
+  decompressFile,
+  detectCodec,
+  hasNativeZstd,
+  maybeCompress,
+} from './compression.js';
+export type { CompressedOutput, CompressionOptions } from './compression.js';
+export { DEFAULT_GZIP_BLOCK_SIZE, createParallelGzip } from './parallel-gzip.js';
+export type { ParallelGzipOptions } from './parallel-gzip.js';
+
+export {
+  DecryptionError,
+  DecryptionOptionsSchema,
+  ENCRYPTED_EXTENSION,
+  EncryptionOptionsSchema,
+  decryptFile,
+  encryptFile,
+  generateRecipientKeyPair,
+  isEncryptedFile,
+  recipientFingerprint,
+} from './encryption.js';
+export type {
+  DecryptionFailure,
+  DecryptionOptions,
+  EncryptFileOptions,
+  EncryptionOptions,
+  RecipientKeyPair,
+} from './encryption.js';
+
+export { renderFileName, sanitizeFileName, validateNamingTemplate } from './naming.js';
+export type { NamingVariables } from './naming.js';
+
+export { DEFAULT_PROGRESS_INTERVAL_MS } from './progress.js';
 
-export { BackupError } from './utils.js';
+export { createStreamPipeline } from './streaming.js';
+export type { StreamPipeline, StreamPipelineOptions, StreamStats } from './streaming.js';
+
+export { Redactor, collectSecrets } from './redact.js';
+
+export {
+  RetentionPolicySchema,
+  archiveBackup,
+  listArchivedBackups,
+  planRetention,
+  pruneBackups,
+} from './retention.js';
+export type { RetentionPolicy } from './retention.js';
+
+export {
+  BackupRepository,
+  RepositoryError,
+  RepositoryPrunePolicySchema,
+  createBackupRepository,
+} from './repository.js';
+export type { BackupRepositoryOptions, RepositoryPrunePolicy } from './repository.js';
+
+export { ChunkingOptionsSchema, chunkStream } from './chunking.js';
+export type { ChunkingOptions } from './chunking.js';
+
+export { RetryableError, RetryConfigSchema, withRetry } from './retry.js';
+export type { RetryConfig, RetryOptions } from './retry.js';
 
 // Type exports
 export type {
@@ -26,12 +128,84 @@ export type {
   DeliveryResult,
   BackupMetadata,
   BackupStrategy,
+  BackupContext,
+  BackupStream,
+  BackupByteStage,
+  ByteProgress,
+  CompressionStats,
+  CompressionCodec,
+  Compressor,
+  CompressFileOptions,
   DeliveryStrategy,
+  DeliveryContext,
+  StreamedBackup,
+  RestoreStrategy,
+  RestoreContext,
+  RestoreResult,
+  RestoreManagerResult,
+  RestorePhase,
+  DeliveredPartInfo,
+  UploadProgress,
   BackupManagerConfig,
   BackupManagerResult,
+  DeliveryPolicy,
+  PhaseTimeouts,
+  RunOptions,
+  PreflightCheck,
+  PreflightReport,
+  BackupCatalog,
+  CatalogDelivery,
+  CatalogEntry,
+  CatalogQuery,
+  CatalogStatus,
+  ArchivedBackup,
+  PruneOptions,
+  PruneResult,
+  RepositorySnapshot,
+  SnapshotChunk,
+  SnapshotSource,
+  StoreOptions,
+  StoreResult,
+  RepositoryCheckOptions,
+  RepositoryCheckResult,
+  RepositoryPruneResult,
+  BackupManifest,
+  ManifestFile,
+  ManifestPart,
+  BackupMetricsOptions,
+  RunMetrics,
+  HealthStatus,
+  HealthCheckResult,
+  HealthReport,
+  HealthCheckOptions,
+  PreflightStatus,
+  BackupHook,
+  HookContext,
+  HookFunction,
+  HookName,
+  HookOptions,
+  BackupPhase,
+  BackupEvent,
+  BackupEventMap,
+  BackupEventName,
+  BackupEventListener,
+  BackupPlanOptions,
+  BackupPlanReport,
+  BackupJobResult,
+  ScheduleOverlap,
+  ScheduleOptions,
+  CronScheduleOptions,
+  ScheduledJobStatus,
+  SchedulerClock,
   OnSuccessCallback,
   OnErrorCallback,
   OnProgressCallback,
+  OnRestoreSuccessCallback,
+  OnRestoreErrorCallback,
+  OnRestoreProgressCallback,
+  OnJobErrorCallback,
+  OnJobProgressCallback,
+  OnJobSkipCallback,
 } from './types.js';
 
 // Backup strategy exports
@@ -56,15 +230,50 @@ export type {
   RedisConfig,
 } from './strategies/backup/index.js';
 
+// Restore strategy exports
+export {
+  MongoRestoreStrategy,
+  createMongoRestoreStrategy,
+  PostgresRestoreStrategy,
+  createPostgresRestoreStrategy,
+  MySQLRestoreStrategy,
+  createMySQLRestoreStrategy,
+  SQLiteRestoreStrategy,
+  createSQLiteRestoreStrategy,
+  RedisRestoreStrategy,
+  createRedisRestoreStrategy,
+  PRE_RESTORE_SUFFIX,
+} from './strategies/restore/index.js';
+
+export type {
+  MongoRestoreConfig,
+  PostgresRestoreConfig,
+  MySQLRestoreConfig,
+  SQLiteRestoreConfig,
+  RedisRestoreConfig,
+} from './strategies/restore/index.js';
+
 // Delivery strategy exports
 export {
   DiscordDeliveryStrategy,
   createDiscordDeliveryStrategy,
+  FilesystemDeliveryStrategy,
+  createFilesystemDeliveryStrategy,
+  RepositoryDeliveryStrategy,
+  createRepositoryDeliveryStrategy,
   TelegramDeliveryStrategy,
   createTelegramDeliveryStrategy,
+  deliverParts,
+  deliverStreamParts,
 } from './strategies/delivery/index.js';
 
 export type {
   DiscordConfig,
+  FilesystemConfig,
+  RepositoryConfig,
   TelegramConfig,
+  DeliveryPart,
+  DeliverPartsOptions,
+  StreamPart,
+  DeliverStreamPartsOptions,
 } from './strategies/delivery/index.js';
@@ -1,29 +1,143 @@
+import { randomUUID } from 'node:crypto';
+import { mkdtemp, rmdir, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, join } from 'node:path';
 import type {
+  BackupCatalog,
+  BackupContext,
+  BackupEventListener,
+  BackupEventMap,
+  BackupEventName,
+  BackupHook,
   BackupResult,
   BackupManagerResult,
+  BackupManifest,
+  BackupPhase,
+  BackupStrategy,
+  ByteProgress,
+  CatalogEntry,
+  CatalogStatus,
+  Compressor,
+  DeliveryContext,
+  DeliveryPolicy,
+  DeliveryResult,
+  DeliveryStrategy,
+  HealthCheckOptions,
+  HealthCheckResult,
+  HealthReport,
+  HookContext,
+  HookName,
+  HookOptions,
   OnSuccessCallback,
   OnErrorCallback,
   OnProgressCallback,
+  PhaseTimeouts,
+  PreflightCheck,
+  PreflightReport,
+  PruneOptions,
+  PruneResult,
+  RunOptions,
+  StreamedBackup,
 } from './types.js';
+import type { z } from 'zod';
 import { registry } from './registry.js';
-import { BackupError } from './utils.js';
+import { HOOK_PHASES, HookError, executeHook } from './hooks.js';
+import type { RegisteredHook } from './hooks.js';
+import { checkTempDir, createPreflightReport } from './preflight.js';
+import { DEFAULT_HEALTH_CHECK_TIMEOUT_MS, checkDiskSpace, measureHealth } from './health.js';
+import { BackupEventEmitter } from './events.js';
+import type { BackupMetrics } from './metrics.js';
+import { DEFAULT_PROGRESS_INTERVAL_MS, createProgressTracker } from './progress.js';
+import { createCompressor } from './compression.js';
+import type { CompressionOptions } from './compression.js';
+import { ENCRYPTED_EXTENSION, EncryptionOptionsSchema, encryptFile, recipientFingerprint } from './encryption.js';
+import type { EncryptionOptions } from './encryption.js';
+import { createManifest } from './manifest.js';
+import { createStreamPipeline } from './streaming.js';
+import { renderFileName, validateNamingTemplate } from './naming.js';
+import { Redactor, collectSecrets } from './redact.js';
+import { RetentionPolicySchema, archiveBackup, pruneBackups } from './retention.js';
+import type { RetentionPolicy } from './retention.js';
+import { getDeliveryStatePath, loadDeliveryState, restoreBackupResult } from './delivery-state.js';
+import {
+  BackupCancelledError,
+  BackupError,
+  IncompleteDeliveryError,
+  createPhaseSignal,
+  formatBytes,
+  formatDuration,
+  getFileSize,
+  hashFile,
+  removeFile,
+} from './utils.js';
+
+interface Destination {
+  strategy: DeliveryStrategy;
+  config: Record<string, unknown>;
+}
+
+// Everything one run() or resume() call needs, resolved up front
+interface ActiveRun {
+  // Shared by the {runId} placeholder and the catalog entry
+  readonly id: string;
+  readonly backupStrategy: BackupStrategy;
+  // Resolved before the dump, so a run that fails early is still recorded under its database
+  readonly database: string;
+  readonly destinations: Destination[];
+  readonly startTime: number;
+  readonly resumable: boolean;
+  readonly signal: AbortSignal | undefined;
+  deliveries?: DeliveryResult[];
+  // Upload retries by destination, for metrics
+  readonly retries: Record<string, number>;
+  // Temp directory holding a dump named by the naming template
+  outputDirectory?: string | undefined;
+  // Set once the finally hooks ran, so a failing one is not repeated by handleFailure()
+  finalized: boolean;
+}
+
+type HookResults = Pick<HookContext, 'result' | 'deliveries' | 'error'>;
 
 export class BackupManager {
   private databaseConfig?: { type: string; config: Record<string, unknown> };
-  private deliveryConfig?: { type: string; config: Record<string, unknown> };
+  private deliveryConfigs: Array<{ type: string; config: Record<string, unknown> }> = [];
+  private policy: DeliveryPolicy = 'all';
   private shouldCompress = true;
+  private compressor?: Compressor;
   private shouldRetainBackup = false;
-  private onSuccessCallback?: OnSuccessCallback;
-  private onErrorCallback?: OnErrorCallback;
-  private onProgressCallback?: OnProgressCallback;
+  private shouldResume = false;
+  private shouldDeliverManifest = true;
+  private shouldStream = false;
+  private phaseTimeouts: PhaseTimeouts = {};
+  private progressIntervalMs = DEFAULT_PROGRESS_INTERVAL_MS;
+  private hooks: RegisteredHook[] = [];
+  private incompleteFilePath?: string;
+  private backupCatalog?: BackupCatalog;
+  private retentionPolicy?: RetentionPolicy;
+  private backupMetrics?: BackupMetrics;
+  private namingTemplate?: { template: string; variables: Record<string, string> };
+  private encryptionOptions?: EncryptionOptions;
+  private readonly events = new BackupEventEmitter();
+  // Knows every configured secret; scrubs errors, progress messages and metadata
+  private readonly redactor = new Redactor();
+  // Listeners registered through onSuccess/onError/onProgress, removed when replaced
+  private readonly callbackListeners = new Map<string, () => void>();
 
   database(type: string, config: Record<string, unknown>): this {
     this.databaseConfig = { type, config };
+    this.redactor.add(collectSecrets(config));
     return this;
   }
 
+  // Each call adds a destination; the same backup is sent to all of them
   delivery(type: string, config: Record<string, unknown>): this {
-    this.deliveryConfig = { type, config };
+    this.deliveryConfigs.push({ type, config });
+    this.redactor.add(collectSecrets(config));
+    return this;
+  }
+
+  deliveryPolicy(policy: DeliveryPolicy): this {
+    this.policy = policy;
     return this;
   }
 
@@ -32,99 +146,1068 @@ export class BackupManager {
     return this;
   }
 
+  // Codec and level used when compression is on (default: gzip level 6)
+  compression(options: CompressionOptions): this {
+    this.compressor = createCompressor(options);
+    return this;
+  }
+
   retainBackup(enabled: boolean): this {
     this.shouldRetainBackup = enabled;
     return this;
   }
 
-  onSuccess(callback: OnSuccessCallback): this {
-    this.onSuccessCallback = callback;
+  // Send a JSON manifest with SHA-256 checksums of the file and every part after each backup (default: on)
+  manifest(enabled: boolean): this {
+    this.shouldDeliverManifest = enabled;
     return this;
   }
 
-  onError(callback: OnErrorCallback): this {
-    this.onErrorCallback = callback;
+  // Encrypts every backup with AES-256-GCM before delivery; decrypt downloads with decryptFile().
+  // With recipients, backup hosts only need public keys
+  encrypt(options: EncryptionOptions): this {
+    this.encryptionOptions = EncryptionOptionsSchema.parse(options);
+    this.redactor.add([options.passphrase, options.key].filter((secret) => secret !== undefined));
     return this;
   }
 
-  onProgress(callback: OnProgressCallback): this {
-    this.onProgressCallback = callback;
+  /**
+   * Pipes the dump tool's output through compression straight into the
+   * destination, without writing the backup to disk. Needs exactly one
+   * destination that supports streaming and sends no manifest.
+   */
+  streaming(enabled: boolean): this {
+    this.shouldStream = enabled;
+    return this;
+  }
+
+  // Keep delivery state and the backup after a failed delivery so resume() can finish it
+  resumable(enabled: boolean): this {
+    this.shouldResume = enabled;
+    return this;
+  }
+
+  // Per-phase limits in milliseconds; a timed-out phase cancels the run
+  timeouts(timeouts: PhaseTimeouts): this {
+    this.phaseTimeouts = { ...timeouts };
+    return this;
+  }
+
+  // Minimum time between byte progress reports for the dump, compression and each upload
+  progressInterval(ms: number): this {
+    this.progressIntervalMs = ms;
+    return this;
+  }
+
+  // Moves each delivered backup into policy.directory and prunes it; takes precedence over retainBackup
+  retention(policy: RetentionPolicy): this {
+    this.retentionPolicy = RetentionPolicySchema.parse(policy);
+    return this;
+  }
+
+  /**
+   * Names backup files from a template such as "{env}-{database}-{date:YYYYMMDD}".
+   * Variables add placeholders of their own or override {host} and {env}.
+   */
+  naming(template: string, variables: Record<string, string> = {}): this {
+    validateNamingTemplate(template, Object.keys(variables));
+    this.namingTemplate = { template, variables: { ...variables } };
+    return this;
+  }
+
+  // Records every run and failure; see JsonLinesCatalog and SQLiteCatalog
+  catalog(catalog: BackupCatalog): this {
+    this.backupCatalog = catalog;
+    return this;
+  }
+
+  // Updates run, duration, size and retry metrics after every run; see BackupMetrics
+  metrics(metrics: BackupMetrics): this {
+    this.backupMetrics = metrics;
+    return this;
+  }
+
+  // Hooks run in registration order; a failing hook is reported unless abortOnFailure is set
+  beforeBackup(hook: BackupHook, options: HookOptions = {}): this {
+    return this.addHook('beforeBackup', hook, options);
+  }
+
+  afterBackup(hook: BackupHook, options: HookOptions = {}): this {
+    return this.addHook('afterBackup', hook, options);
+  }
+
+  beforeDelivery(hook: BackupHook, options: HookOptions = {}): this {
+    return this.addHook('beforeDelivery', hook, options);
+  }
+
+  afterDelivery(hook: BackupHook, options: HookOptions = {}): this {
+    return this.addHook('afterDelivery', hook, options);
+  }
+
+  // Runs after cleanup whether the run succeeded, failed or was cancelled
+  finally(hook: BackupHook, options: HookOptions = {}): this {
+    return this.addHook('finally', hook, options);
+  }
+
+  /**
+   * Adds an event listener; any number of listeners can watch the same event.
+   * run:end and run:error listeners are awaited before run() settles and their
+   * errors fail the run. Other events do not wait for listeners and ignore their errors.
+   */
+  on<K extends BackupEventName>(event: K, listener: BackupEventListener<K>): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  once<K extends BackupEventName>(event: K, listener: BackupEventListener<K>): this {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  off<K extends BackupEventName>(event: K, listener: BackupEventListener<K>): this {
+    this.events.off(event, listener);
     return this;
   }
 
-  async run(): Promise<BackupManagerResult> {
+  // Single-callback API kept for compatibility; each call replaces the previous callback
+  onSuccess(callback: OnSuccessCallback): this {
+    return this.setCallback('onSuccess', 'run:end', ({ result }) => callback(result));
+  }
+
+  onError(callback: OnErrorCallback): this {
+    return this.setCallback('onError', 'run:error', ({ error, phase }) => callback(error, phase));
+  }
+
+  onProgress(callback: OnProgressCallback): this {
+    return this.setCallback('onProgress', 'progress', ({ phase, message }) => callback(phase, message));
+  }
+
+  async run(options: RunOptions = {}): Promise<BackupManagerResult> {
+    const run = this.startRun(options, this.shouldResume);
+    if (this.shouldStream) {
+      return this.runStreaming(run);
+    }
+    let backupResult: BackupResult | undefined;
+
+    try {
+      await this.runHooks(run, 'beforeBackup', {});
+
+      // Phase 1: Backup
+      backupResult = await this.runPhase(run, 'backup', async (signal) => {
+        this.progress('backup', `Starting ${run.backupStrategy.name} backup...`);
+
+        const backupConfig = { ...this.databaseConfig?.config, compress: this.shouldCompress };
+        const validatedBackupConfig = run.backupStrategy.configSchema.parse(backupConfig);
+        const database = run.database;
+        const backupStart = Date.now();
+        const outputPath = await this.namedOutputPath(run);
+        this.notify('backup:start', { database });
+        const dump = await run.backupStrategy.backup(validatedBackupConfig, {
+          signal,
+          outputPath,
+          compressor: this.compressor,
+          onCompressed: (stats) => this.notify('compress:end', { database, ...stats }),
+          onCompressionSkipped: (reason) => this.progress('backup', `Compression skipped: ${reason}`),
+          onByteProgress: (stage, progress) => {
+            if (stage === 'dump') {
+              this.notify('backup:progress', { database, ...progress });
+              this.progress('backup', formatProgress('Dumped', progress));
+            } else {
+              this.notify('compress:progress', { database, ...progress });
+              this.progress('backup', formatProgress('Compressed', progress));
+            }
+          },
+          progressIntervalMs: this.progressIntervalMs,
+        });
+        const file = this.encryptionOptions
+          ? await this.encryptDump(run, dump, this.encryptionOptions, signal)
+          : dump;
+        // Directory dumps cannot be hashed and get no checksum
+        const checksum = await hashFile(file.filePath).catch(() => undefined);
+        const result: BackupResult = {
+          ...file,
+          metadata: this.redactor.redactValue(file.metadata),
+          ...(checksum !== undefined && { checksum }),
+        };
+        this.notify('backup:end', { result, durationMs: Date.now() - backupStart });
+
+        this.progress('backup', `Backup completed: ${result.fileName}`);
+        return result;
+      });
+
+      await this.runHooks(run, 'afterBackup', { result: backupResult });
+      return await this.deliverAndCleanup(run, backupResult);
+    } catch (error) {
+      await this.handleFailure(error, run, backupResult);
+      throw error;
+    }
+  }
+
+  /**
+   * Validates the configuration and checks binaries, optional dependencies and
+   * the temp directory without dumping anything. Never throws for config problems.
+   */
+  async preflight(): Promise<PreflightReport> {
+    const checks: PreflightCheck[] = [];
+
+    if (this.databaseConfig) {
+      checks.push(...(await this.preflightDatabase(this.databaseConfig.type, this.databaseConfig.config)));
+    } else {
+      const message = 'Database configuration is required. Call .database() first.';
+      checks.push({ name: 'database', status: 'fail', message });
+    }
+
+    if (this.deliveryConfigs.length === 0) {
+      const message = 'Delivery configuration is required. Call .delivery() first.';
+      checks.push({ name: 'delivery', status: 'fail', message });
+    }
+    this.deliveryConfigs.forEach(({ type, config }, i) => {
+      checks.push(this.preflightDelivery(type, config, i));
+    });
+
+    if (this.shouldCompress && this.compressor?.preflight) {
+      checks.push(await this.compressor.preflight());
+    }
+    checks.push(...this.preflightMove());
+    if (this.shouldStream) {
+      checks.push(...this.preflightStreaming());
+    }
+    checks.push(await checkTempDir());
+    const redacted = checks.map((check) => ({ ...check, message: this.redactor.redact(check.message) }));
+    return createPreflightReport(redacted);
+  }
+
+  // Applies the retention policy on its own; dryRun only lists what would be deleted
+  async prune(options: PruneOptions = {}): Promise<PruneResult> {
+    if (!this.retentionPolicy) {
+      throw new Error('Retention policy is required. Call .retention() first.');
+    }
+    return pruneBackups(this.retentionPolicy, options);
+  }
+
+  /**
+   * Tests connectivity to the database and every destination in parallel,
+   * and checks free space in the temp directory.
+   */
+  async checkHealth(options: HealthCheckOptions = {}): Promise<HealthReport> {
+    const run = this.startRun({ signal: options.signal }, false);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_HEALTH_CHECK_TIMEOUT_MS;
+    const databaseConfig = { ...this.databaseConfig?.config, compress: this.shouldCompress };
+
+    const checks = await Promise.all([
+      this.checkStrategyHealth(run.backupStrategy, 'database', databaseConfig, timeoutMs, options.signal),
+      ...run.destinations.map(({ strategy, config }) =>
+        this.checkStrategyHealth(strategy, 'delivery', config, timeoutMs, options.signal)
+      ),
+      checkDiskSpace(options.minFreeBytes ?? 0),
+    ]);
+
+    return {
+      healthy: checks.every((check) => check.status !== 'unhealthy'),
+      checks: checks.map((check) => (check.message === undefined
+        ? check
+        : { ...check, message: this.redactor.redact(check.message) })),
+    };
+  }
+
+  /**
+   * Re-sends only the parts that are missing after a failed resumable run.
+   * Without a path, resumes the last incomplete run of this manager.
+   */
+  async resume(filePath?: string, options: RunOptions = {}): Promise<BackupManagerResult> {
+    const run = this.startRun(options, true);
+    const backupPath = filePath ?? this.incompleteFilePath;
+    if (!backupPath) {
+      throw new Error('No incomplete delivery to resume. Pass the retained backup path.');
+    }
+
+    const states = await Promise.all(
+      run.destinations.map(({ strategy }, i) => loadDeliveryState(getDeliveryStatePath(backupPath, i, strategy.name)))
+    );
+    const state = states.find((s) => s !== undefined);
+    if (!state) {
+      throw new Error(`No delivery state found for ${backupPath}`);
+    }
+
+    const backupResult = restoreBackupResult(state, backupPath);
+
+    try {
+      this.progress('delivery', `Resuming delivery of ${backupResult.fileName}`);
+      return await this.deliverAndCleanup(run, backupResult);
+    } catch (error) {
+      await this.handleFailure(error, run, backupResult);
+      throw error;
+    }
+  }
+
+  private startRun(options: RunOptions, resumable: boolean): ActiveRun {
     if (!this.databaseConfig) {
       throw new Error('Database configuration is required. Call .database() first.');
     }
-    if (!this.deliveryConfig) {
+    if (this.deliveryConfigs.length === 0) {
       throw new Error('Delivery configuration is required. Call .delivery() first.');
     }
 
-    const startTime = Date.now();
     const backupStrategy = registry.getBackupStrategy(this.databaseConfig.type);
-    const deliveryStrategy = registry.getDeliveryStrategy(this.deliveryConfig.type);
+    const destinations = this.resolveDestinations();
+    const issues = this.moveIssues(destinations, resumable);
+    if (issues.length > 0) {
+      throw new Error(issues.join(' '));
+    }
 
-    let backupResult: BackupResult | undefined;
+    return {
+      id: randomUUID(),
+      backupStrategy,
+      database: this.resolveDatabaseName(backupStrategy, this.databaseConfig.config),
+      destinations,
+      startTime: Date.now(),
+      retries: {},
+      resumable,
+      signal: options.signal,
+      finalized: false,
+    };
+  }
 
+  // Falls back to the strategy name when it cannot tell; an invalid config fails later in the backup phase
+  private resolveDatabaseName(strategy: BackupStrategy, config: Record<string, unknown>): string {
+    const parsed = strategy.configSchema.safeParse({ ...config, compress: this.shouldCompress });
+    if (!parsed.success || !strategy.databaseName) {
+      return strategy.name;
+    }
+    return strategy.databaseName(parsed.data);
+  }
+
+  private async preflightDatabase(type: string, config: Record<string, unknown>): Promise<PreflightCheck[]> {
+    const name = `database (${type})`;
+    let strategy: BackupStrategy;
     try {
-      // Phase 1: Backup
-      this.progress('backup', `Starting ${backupStrategy.name} backup...`);
+      strategy = registry.getBackupStrategy(type);
+    } catch (error) {
+      return [{ name, status: 'fail', message: errorMessage(error) }];
+    }
+
+    const parsed = strategy.configSchema.safeParse({ ...config, compress: this.shouldCompress });
+    if (!parsed.success) {
+      return [{ name, status: 'fail', message: `Invalid config: ${formatIssues(parsed.error)}` }];
+    }
+
+    const checks: PreflightCheck[] = [{ name, status: 'pass', message: 'Config is valid' }];
+    if (strategy.preflight) {
+      try {
+        checks.push(...(await strategy.preflight(parsed.data)));
+      } catch (error) {
+        checks.push({ name, status: 'fail', message: errorMessage(error) });
+      }
+    }
+    return checks;
+  }
+
+  private async checkStrategyHealth(
+    strategy: BackupStrategy | DeliveryStrategy,
+    kind: 'database' | 'delivery',
+    config: Record<string, unknown>,
+    timeoutMs: number,
+    signal: AbortSignal | undefined
+  ): Promise<HealthCheckResult> {
+    if (!strategy.healthCheck) {
+      return { name: strategy.name, kind, status: 'unsupported', latencyMs: 0 };
+    }
+
+    const parsed = strategy.configSchema.safeParse(config);
+    if (!parsed.success) {
+      const message = `Invalid config: ${formatIssues(parsed.error)}`;
+      return { name: strategy.name, kind, status: 'unhealthy', latencyMs: 0, message };
+    }
+
+    const healthCheck = strategy.healthCheck.bind(strategy);
+    const check = (checkSignal: AbortSignal) => healthCheck(parsed.data, checkSignal);
+    return measureHealth(strategy.name, kind, check, timeoutMs, signal);
+  }
+
+  private preflightDelivery(type: string, config: Record<string, unknown>, index: number): PreflightCheck {
+    const name = `delivery #${index + 1} (${type})`;
+    try {
+      const strategy = registry.getDeliveryStrategy(type);
+      const parsed = strategy.configSchema.safeParse(config);
+      return parsed.success
+        ? { name, status: 'pass', message: 'Config is valid' }
+        : { name, status: 'fail', message: `Invalid config: ${formatIssues(parsed.error)}` };
+    } catch (error) {
+      return { name, status: 'fail', message: errorMessage(error) };
+    }
+  }
+
+  private preflightStreaming(): PreflightCheck[] {
+    let run: ActiveRun;
+    try {
+      run = this.startRun({}, false);
+    } catch {
+      // Missing or unknown strategies are reported by the database and delivery checks
+      return [];
+    }
+    const issues = this.streamingIssues(run);
+    if (issues.length > 0) {
+      return issues.map((message) => ({ name: 'streaming', status: 'fail', message }));
+    }
+    const destination = run.destinations[0]?.strategy.name;
+    return [{ name: 'streaming', status: 'pass', message: `Backups are streamed to ${destination}` }];
+  }
+
+  private resolveDestinations(): Destination[] {
+    return this.deliveryConfigs.map(({ type, config }) => ({ strategy: registry.getDeliveryStrategy(type), config }));
+  }
+
+  private preflightMove(): PreflightCheck[] {
+    let destinations: Destination[];
+    try {
+      destinations = this.resolveDestinations();
+    } catch {
+      // Unknown strategies are reported by the delivery checks
+      return [];
+    }
+    return this.moveIssues(destinations, this.shouldResume).map((message) => ({
+      name: 'delivery mode',
+      status: 'fail',
+      message,
+    }));
+  }
 
-      const backupConfig = { ...this.databaseConfig.config, compress: this.shouldCompress };
-      const validatedBackupConfig = backupStrategy.configSchema.parse(backupConfig);
-      backupResult = await backupStrategy.backup(validatedBackupConfig);
+  // A destination that moves the backup away must be the last thing that needs the file
+  private moveIssues(destinations: Destination[], resumable: boolean): string[] {
+    const moving = destinations.filter(({ strategy, config }) => {
+      const parsed = strategy.configSchema.safeParse(config);
+      return parsed.success && strategy.takesBackup?.(parsed.data) === true;
+    });
+    if (moving.length === 0) {
+      return [];
+    }
+
+    const issues: string[] = [];
+    const names = moving.map(({ strategy }) => strategy.name).join(', ');
+    if (destinations.length > 1) {
+      issues.push(`${names} moves the backup away, so it must be the only destination.`);
+    }
+    const conflicts = [
+      resumable && 'resumable()',
+      this.retentionPolicy && 'retention()',
+      this.shouldRetainBackup && 'retainBackup()',
+    ].filter((conflict) => typeof conflict === 'string');
+    if (conflicts.length > 0) {
+      issues.push(`${names} moves the backup away, so it cannot be combined with ${conflicts.join(', ')}.`);
+    }
+    return issues;
+  }
+
+  // Everything that rules out a streaming run; empty when it can go ahead
+  private streamingIssues(run: ActiveRun): string[] {
+    const issues: string[] = [];
+    if (!run.backupStrategy.backupStream) {
+      issues.push(`${run.backupStrategy.name} backups cannot be streamed`);
+    }
+    if (run.destinations.length !== 1) {
+      issues.push('Streaming needs exactly one destination');
+    }
+    for (const { strategy } of run.destinations) {
+      if (!strategy.deliverStream) {
+        issues.push(`${strategy.name} cannot receive streamed backups`);
+      }
+    }
+
+    const compressor = this.compressor ?? createCompressor();
+    if (this.shouldCompress && !compressor.createStream) {
+      issues.push(`${compressor.codec} compression cannot be streamed on this Node.js version`);
+    }
+    const conflicts = [
+      this.encryptionOptions && 'encrypt()',
+      this.shouldResume && 'resumable()',
+      this.retentionPolicy && 'retention()',
+      this.shouldRetainBackup && 'retainBackup()',
+    ].filter((conflict) => typeof conflict === 'string');
+    if (conflicts.length > 0) {
+      issues.push(`Streaming cannot be combined with ${conflicts.join(', ')}`);
+    }
+    return issues;
+  }
+
+  private addHook(name: HookName, hook: BackupHook, options: HookOptions): this {
+    this.hooks.push({ name, hook, options: { ...options } });
+    return this;
+  }
 
-      this.progress('backup', `Backup completed: ${backupResult.fileName}`);
+  private async runHooks(run: ActiveRun, name: HookName, results: HookResults): Promise<void> {
+    const phase = HOOK_PHASES[name];
+    // finally hooks must still run after a cancellation, so only their own timeout applies
+    const signal = name === 'finally' ? undefined : run.signal;
 
-      // Phase 2: Delivery
-      this.progress('delivery', `Sending to ${deliveryStrategy.name}...`);
+    for (const registered of this.hooks.filter((h) => h.name === name)) {
+      this.progress(phase, `Running ${name} hook...`);
+      try {
+        await executeHook(registered, { hook: name, database: run.database, ...results }, signal);
+      } catch (error) {
+        if (signal?.aborted) {
+          const message = `Backup run was cancelled during the ${name} hook`;
+          this.progress('cancelled', message);
+          throw new BackupCancelledError(message, phase === 'backup' ? 'backup' : 'delivery', false, error);
+        }
 
-      const validatedDeliveryConfig = deliveryStrategy.configSchema.parse(this.deliveryConfig.config);
-      const deliveryResult = await deliveryStrategy.deliver(validatedDeliveryConfig, backupResult);
+        const message = `${name} hook failed: ${error instanceof Error ? error.message : String(error)}`;
+        this.progress(phase, message);
+        // A failing run is already failing; finally hooks cannot abort it twice
+        if (registered.options.abortOnFailure && results.error === undefined) {
+          throw new HookError(message, name, error);
+        }
+      }
+    }
+  }
 
-      if (!deliveryResult.success) {
-        throw new BackupError(deliveryResult.error ?? 'Delivery failed', 'delivery');
+  // Runs one cancellable phase and turns an abort or timeout into BackupCancelledError
+  private async runPhase<T>(
+    run: ActiveRun,
+    phase: 'backup' | 'delivery',
+    task: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const timeoutMs = this.phaseTimeouts[phase];
+    const phaseSignal = createPhaseSignal(run.signal, timeoutMs);
+
+    try {
+      phaseSignal.signal.throwIfAborted();
+      const result = await task(phaseSignal.signal);
+      phaseSignal.signal.throwIfAborted();
+      return result;
+    } catch (error) {
+      if (!phaseSignal.signal.aborted) {
+        throw error;
       }
+      const message = phaseSignal.timedOut()
+        ? `The ${phase} phase timed out after ${timeoutMs}ms`
+        : `Backup run was cancelled during the ${phase} phase`;
+      this.progress('cancelled', message);
+      throw new BackupCancelledError(message, phase, phaseSignal.timedOut(), error);
+    } finally {
+      phaseSignal.dispose();
+    }
+  }
 
-      this.progress('delivery', 'Delivery completed successfully');
+  private async deliverAndCleanup(run: ActiveRun, backupResult: BackupResult): Promise<BackupManagerResult> {
+    // Phase 2: Delivery (all destinations settle before cleanup)
+    await this.runHooks(run, 'beforeDelivery', { result: backupResult });
 
-      // Phase 3: Cleanup
-      if (!this.shouldRetainBackup) {
-        this.progress('cleanup', 'Cleaning up temporary files...');
-        await backupStrategy.cleanup(backupResult.filePath);
-        this.progress('cleanup', 'Cleanup completed');
+    const manifest = await this.createRunManifest(run, backupResult);
+    const statePaths = this.getStatePaths(run.destinations, backupResult.filePath);
+    const deliveryResults = await this.runPhase(run, 'delivery', (signal) =>
+      Promise.all(
+        run.destinations.map(({ strategy, config }, i) =>
+          this.deliverTo(strategy, config, backupResult, i, {
+            signal,
+            manifest,
+            onRetry: () => {
+              run.retries[strategy.name] = (run.retries[strategy.name] ?? 0) + 1;
+            },
+            ...(run.resumable && statePaths[i] !== undefined ? { statePath: statePaths[i] } : {}),
+          })
+        )
+      )
+    );
+    run.deliveries = deliveryResults;
+
+    const failure = this.getPolicyFailure(deliveryResults);
+    if (failure !== undefined) {
+      if (run.resumable) {
+        this.incompleteFilePath = backupResult.filePath;
+        this.progress('delivery', `Backup kept for resume: ${backupResult.filePath}`);
+        throw new IncompleteDeliveryError(failure, backupResult.filePath, deliveryResults);
       }
+      throw new BackupError(failure, 'delivery');
+    }
+
+    if (this.incompleteFilePath === backupResult.filePath) {
+      delete this.incompleteFilePath;
+    }
+
+    const succeeded = deliveryResults.filter((r) => r.success).length;
+    this.progress('delivery', `Delivery completed (${succeeded}/${deliveryResults.length} destinations)`);
+    await this.runHooks(run, 'afterDelivery', { result: backupResult, deliveries: deliveryResults });
+
+    // Phase 3: Cleanup
+    let retention: Pick<BackupManagerResult, 'archivedPath' | 'pruned'> = {};
+    if (this.retentionPolicy) {
+      retention = await this.archiveAndPrune(backupResult.filePath, this.retentionPolicy);
+    } else if (!this.shouldRetainBackup) {
+      this.progress('cleanup', 'Cleaning up temporary files...');
+      await this.cleanupBackup(run, backupResult.filePath);
+      this.progress('cleanup', 'Cleanup completed');
+    }
+    if (run.resumable) {
+      await Promise.all(statePaths.map((statePath) => removeFile(statePath)));
+    }
+    await removeOutputDirectory(run);
+
+    run.finalized = true;
+    await this.runHooks(run, 'finally', { result: backupResult, deliveries: deliveryResults });
+
+    const result: BackupManagerResult = {
+      backup: backupResult,
+      delivery: deliveryResults[0] as DeliveryResult,
+      deliveries: deliveryResults,
+      totalDuration: Date.now() - run.startTime,
+      ...retention,
+    };
+
+    await this.events.emit('run:end', { result });
+    await this.recordRun(run, backupResult);
+    await this.recordMetrics(run, backupResult, 'success');
+    return result;
+  }
+
+  // Streaming counterpart of run(): the dump and its delivery share the backup phase and its timeout
+  private async runStreaming(run: ActiveRun): Promise<BackupManagerResult> {
+    const issues = this.streamingIssues(run);
+    if (issues.length > 0) {
+      throw new Error(issues.join('; '));
+    }
+    let backupResult: BackupResult | undefined;
+
+    try {
+      await this.runHooks(run, 'beforeBackup', {});
+      await this.runHooks(run, 'beforeDelivery', {});
+      backupResult = await this.runPhase(run, 'backup', (signal) => this.streamBackup(run, signal));
+      const deliveries = run.deliveries ?? [];
+      await this.runHooks(run, 'afterBackup', { result: backupResult });
+      await this.runHooks(run, 'afterDelivery', { result: backupResult, deliveries });
+      await removeOutputDirectory(run);
+
+      run.finalized = true;
+      await this.runHooks(run, 'finally', { result: backupResult, deliveries });
 
       const result: BackupManagerResult = {
         backup: backupResult,
-        delivery: deliveryResult,
-        totalDuration: Date.now() - startTime,
+        delivery: deliveries[0] as DeliveryResult,
+        deliveries,
+        totalDuration: Date.now() - run.startTime,
       };
 
-      await this.onSuccessCallback?.(result);
+      await this.events.emit('run:end', { result });
+      await this.recordRun(run, backupResult);
+      await this.recordMetrics(run, backupResult, 'success');
       return result;
     } catch (error) {
-      const phase = error instanceof BackupError ? error.phase : 'backup';
+      await this.handleFailure(error, run, backupResult);
+      throw error;
+    }
+  }
+
+  // Resolves once the dump tool has exited and the destination has received everything it wrote
+  private async streamBackup(run: ActiveRun, signal: AbortSignal): Promise<BackupResult> {
+    const destination = run.destinations[0] as Destination;
+    this.progress('backup', `Starting ${run.backupStrategy.name} backup...`);
+
+    const backupConfig = { ...this.databaseConfig?.config, compress: this.shouldCompress };
+    const validatedBackupConfig = run.backupStrategy.configSchema.parse(backupConfig);
+    const database = run.database;
+    const backupStart = Date.now();
+    const outputPath = await this.namedOutputPath(run);
+    if (!run.backupStrategy.backupStream) {
+      throw new BackupError(`${run.backupStrategy.name} backups cannot be streamed`, 'backup');
+    }
+    this.notify('backup:start', { database });
+    const source = await run.backupStrategy.backupStream(validatedBackupConfig, { signal, outputPath });
+
+    const skipReason = source.compressionSkipReason;
+    if (this.shouldCompress && skipReason !== undefined) {
+      this.progress('backup', `Compression skipped: ${skipReason}`);
+    }
+    const compressor = this.shouldCompress && skipReason === undefined
+      ? (this.compressor ?? createCompressor())
+      : undefined;
+    const tracker = createProgressTracker(this.progressIntervalMs, (progress) => {
+      this.notify('backup:progress', { database, ...progress });
+      this.progress('backup', formatProgress('Dumped', progress));
+    });
+    const pipeline = createStreamPipeline(source, { compressor, onDumpBytes: (bytes) => tracker.report(bytes) });
+    const streamed: StreamedBackup = {
+      stream: pipeline.stream,
+      fileName: compressor ? `${source.fileName}${compressor.extension}` : source.fileName,
+      database: source.database,
+      createdAt: new Date(),
+      compressed: compressor !== undefined,
+      codec: compressor?.codec,
+      metadata: this.redactor.redactValue(source.metadata),
+    };
 
-      // Attempt cleanup on failure
-      if (backupResult && !this.shouldRetainBackup) {
-        await backupStrategy.cleanup(backupResult.filePath).catch(() => {});
+    // A failed dump fails the upload too; the dump error is the one worth reporting
+    let dumpError: unknown;
+    source.done.catch((error: unknown) => {
+      dumpError = error;
+    });
+    const delivery = await this.deliverTo(destination.strategy, destination.config, streamed, 0, {
+      signal,
+      onRetry: () => {
+        run.retries[destination.strategy.name] = (run.retries[destination.strategy.name] ?? 0) + 1;
+      },
+    });
+    run.deliveries = [delivery];
+    if (dumpError !== undefined) {
+      throw dumpError;
+    }
+    const failure = this.getPolicyFailure(run.deliveries);
+    if (failure !== undefined) {
+      // Stops the dump tool if the destination gave up before reading everything
+      pipeline.stream.destroy();
+      throw new BackupError(failure, 'delivery');
+    }
+    await source.done;
+    tracker.finish();
+
+    const { inputBytes, sizeBytes, checksum } = pipeline.stats();
+    const durationMs = Date.now() - backupStart;
+    if (compressor) {
+      this.notify('compress:end', {
+        database,
+        codec: compressor.codec,
+        inputBytes,
+        outputBytes: sizeBytes,
+        durationMs,
+      });
+    }
+    const result: BackupResult = {
+      filePath: '',
+      fileName: streamed.fileName,
+      sizeBytes,
+      database: streamed.database,
+      createdAt: streamed.createdAt,
+      compressed: streamed.compressed,
+      codec: streamed.codec,
+      metadata: { ...streamed.metadata, duration: durationMs },
+      checksum,
+      streamed: true,
+    };
+    this.notify('backup:end', { result, durationMs });
+    this.progress('backup', `Backup streamed: ${result.fileName} (${formatBytes(sizeBytes)})`);
+    return result;
+  }
+
+  private async handleFailure(error: unknown, run: ActiveRun, backupResult: BackupResult | undefined): Promise<void> {
+    const phase = error instanceof BackupError ? error.phase : 'backup';
+
+    // Attempt cleanup on failure, unless the backup was kept for resume() or never written to disk
+    const kept = this.shouldRetainBackup || error instanceof IncompleteDeliveryError;
+    if (backupResult && !backupResult.streamed && !kept) {
+      await this.cleanupBackup(run, backupResult.filePath).catch(() => {});
+      const statePaths = this.getStatePaths(run.destinations, backupResult.filePath);
+      await Promise.all(statePaths.map((statePath) => removeFile(statePath)));
+    }
+    await removeOutputDirectory(run);
+
+    const err = this.redactor.redactError(error instanceof Error ? error : new Error(String(error)));
+    if (!run.finalized) {
+      run.finalized = true;
+      await this.runHooks(run, 'finally', { result: backupResult, deliveries: run.deliveries, error: err });
+    }
+
+    await this.recordRun(run, backupResult, { error: err, phase });
+    await this.recordMetrics(run, backupResult, 'failed');
+    await this.events.emit('run:error', { error: err, phase, durationMs: Date.now() - run.startTime });
+  }
+
+  // The backup was delivered, so archiving or pruning problems are reported instead of failing the run
+  private async archiveAndPrune(
+    filePath: string,
+    policy: RetentionPolicy
+  ): Promise<Pick<BackupManagerResult, 'archivedPath' | 'pruned'>> {
+    try {
+      const archivedPath = await archiveBackup(filePath, policy.directory);
+      this.progress('cleanup', `Backup archived: ${archivedPath}`);
+
+      const pruned = await pruneBackups(policy);
+      if (pruned.deleted.length > 0) {
+        this.progress('cleanup', `Pruned ${pruned.deleted.length} old backup(s) from ${policy.directory}`);
       }
+      return { archivedPath, pruned };
+    } catch (error) {
+      this.progress('cleanup', `Retention failed: ${errorMessage(error)}`);
+      return {};
+    }
+  }
+
+  // A catalog that cannot be written is reported, but never fails the run
+  private async recordRun(
+    run: ActiveRun,
+    backupResult: BackupResult | undefined,
+    failure?: { error: Error; phase: BackupPhase }
+  ): Promise<void> {
+    if (!this.backupCatalog) {
+      return;
+    }
+
+    const finishedAt = new Date();
+    const entry: CatalogEntry = {
+      id: run.id,
+      status: failure ? 'failed' : 'success',
+      database: backupResult?.database ?? run.database,
+      strategy: run.backupStrategy.name,
+      startedAt: new Date(run.startTime),
+      finishedAt,
+      durationMs: finishedAt.getTime() - run.startTime,
+      fileName: backupResult?.fileName,
+      sizeBytes: backupResult?.sizeBytes,
+      compressed: backupResult?.compressed,
+      checksum: backupResult?.checksum,
+      deliveries: (run.deliveries ?? []).map((result) => ({
+        platform: result.platform,
+        success: result.success,
+        messageId: result.messageId,
+        error: result.error,
+        partsDelivered: result.partsDelivered,
+        totalParts: result.totalParts,
+      })),
+      error: failure?.error.message,
+      errorPhase: failure?.phase,
+    };
+
+    try {
+      await this.backupCatalog.record(entry);
+    } catch (error) {
+      this.progress('cleanup', `Failed to record run in catalog: ${errorMessage(error)}`);
+    }
+  }
+
+  private async createRunManifest(run: ActiveRun, backupResult: BackupResult): Promise<BackupManifest | undefined> {
+    const { checksum } = backupResult;
+    if (!this.shouldDeliverManifest || checksum === undefined) {
+      return undefined;
+    }
+    const tools = (await run.backupStrategy.toolVersions?.().catch(() => undefined)) ?? {};
+    return createManifest({ ...backupResult, checksum }, tools);
+  }
+
+  // Like the catalog, metrics that cannot be written are reported but never fail the run
+  private async recordMetrics(
+    run: ActiveRun,
+    backupResult: BackupResult | undefined,
+    status: CatalogStatus
+  ): Promise<void> {
+    if (!this.backupMetrics) {
+      return;
+    }
+
+    try {
+      await this.backupMetrics.record({
+        database: backupResult?.database ?? run.database,
+        status,
+        finishedAt: new Date(),
+        durationMs: Date.now() - run.startTime,
+        sizeBytes: backupResult?.sizeBytes,
+        retries: run.retries,
+      });
+    } catch (error) {
+      this.progress('cleanup', `Failed to write metrics: ${errorMessage(error)}`);
+    }
+  }
 
-      if (this.onErrorCallback) {
-        const err = error instanceof Error ? error : new Error(String(error));
-        await this.onErrorCallback(err, phase);
+  // Replaces the dump with an encrypted copy; the plaintext is removed whether or not encryption succeeds
+  private async encryptDump(
+    run: ActiveRun,
+    dump: BackupResult,
+    options: EncryptionOptions,
+    signal: AbortSignal
+  ): Promise<BackupResult> {
+    const filePath = `${dump.filePath}${ENCRYPTED_EXTENSION}`;
+    try {
+      if ((await stat(dump.filePath)).isDirectory()) {
+        throw new BackupError('Encryption needs a single-file dump; directory dumps cannot be encrypted', 'backup');
+      }
+      this.progress('backup', 'Encrypting backup...');
+      const totalBytes = await getFileSize(dump.filePath);
+      const tracker = createProgressTracker(this.progressIntervalMs, (progress) =>
+        this.progress('backup', formatProgress('Encrypted', progress))
+      );
+      await encryptFile(dump.filePath, filePath, options, {
+        signal,
+        onBytes: (bytes) => tracker.report(bytes, totalBytes),
+      });
+      tracker.finish();
+    } catch (error) {
+      if (error instanceof BackupError || signal.aborted) {
+        throw error;
       }
+      throw new BackupError(`Encryption failed: ${errorMessage(error)}`, 'backup', error);
+    } finally {
+      await run.backupStrategy.cleanup(dump.filePath).catch(() => {});
+    }
 
-      throw error;
+    const sizeBytes = await getFileSize(filePath);
+    return {
+      ...dump,
+      filePath,
+      fileName: basename(filePath),
+      sizeBytes,
+      encrypted: true,
+      ...(options.recipients && { recipients: options.recipients.map(recipientFingerprint) }),
+    };
+  }
+
+  // Each named dump gets a directory of its own, so runs rendering the same name never collide
+  private async namedOutputPath(run: ActiveRun): Promise<BackupContext['outputPath']> {
+    if (!this.namingTemplate) {
+      return undefined;
     }
+    const { template, variables } = this.namingTemplate;
+    const directory = await mkdtemp(join(tmpdir(), 'wbackup-'));
+    run.outputDirectory = directory;
+
+    return (database, extension) => {
+      const fileName = renderFileName(template, {
+        database,
+        type: run.backupStrategy.name,
+        runId: run.id,
+        date: new Date(run.startTime),
+        custom: variables,
+      });
+      return join(directory, `${fileName}${extension}`);
+    };
+  }
+
+  private async cleanupBackup(run: ActiveRun, filePath: string): Promise<void> {
+    const startTime = Date.now();
+    await run.backupStrategy.cleanup(filePath);
+    this.notify('cleanup:end', { filePath, durationMs: Date.now() - startTime });
+  }
+
+  private getStatePaths(destinations: Destination[], filePath: string): string[] {
+    return destinations.map(({ strategy }, i) => getDeliveryStatePath(filePath, i, strategy.name));
+  }
+
+  private async deliverTo(
+    strategy: DeliveryStrategy,
+    config: Record<string, unknown>,
+    backup: BackupResult | StreamedBackup,
+    index: number,
+    options: Omit<DeliveryContext, 'onProgress' | 'onPart' | 'onByteProgress' | 'progressIntervalMs'>
+  ): Promise<DeliveryResult> {
+    const destination = strategy.name;
+    const startTime = Date.now();
+    this.progress('delivery', `Sending to ${strategy.name}...`);
+    const sizeBytes = 'sizeBytes' in backup ? backup.sizeBytes : undefined;
+    this.notify('delivery:start', { destination, index, sizeBytes });
+
+    const result = await this.attemptDelivery(strategy, config, backup, {
+      ...options,
+      onProgress: (message) => this.progress('delivery', message),
+      onPart: (part) => this.notify('delivery:part', { destination, index, ...part }),
+      onByteProgress: (progress) => {
+        this.notify('delivery:progress', { destination, index, ...progress });
+        // Streamed parts only know the part count once the last one is cut
+        const total = progress.totalParts > 0 ? `/${progress.totalParts}` : '';
+        const label = progress.totalParts === 1
+          ? `Uploaded to ${destination}`
+          : `Uploaded part ${progress.partNumber}${total} to ${destination}`;
+        this.progress('delivery', formatProgress(label, progress));
+      },
+      progressIntervalMs: this.progressIntervalMs,
+    });
+
+    this.notify('delivery:end', { destination, index, result, durationMs: Date.now() - startTime });
+    return result;
+  }
+
+  private async attemptDelivery(
+    strategy: DeliveryStrategy,
+    config: Record<string, unknown>,
+    backup: BackupResult | StreamedBackup,
+    context: DeliveryContext
+  ): Promise<DeliveryResult> {
+    try {
+      const validatedConfig = strategy.configSchema.parse(config);
+      let result: DeliveryResult;
+      if (!('stream' in backup)) {
+        result = await strategy.deliver(validatedConfig, backup, context);
+      } else if (strategy.deliverStream) {
+        result = await strategy.deliverStream(validatedConfig, backup, context);
+      } else {
+        throw new Error(`${strategy.name} cannot receive streamed backups`);
+      }
+
+      if (result.success) {
+        this.progress('delivery', `Delivered to ${strategy.name}`);
+        return result;
+      }
+      this.progress('delivery', `Delivery to ${strategy.name} failed: ${result.error ?? 'unknown error'}`);
+      return result.error === undefined ? result : { ...result, error: this.redactor.redact(result.error) };
+    } catch (error) {
+      const message = error instanceof Error ? this.redactor.redact(error.message) : 'Unknown error';
+      this.progress('delivery', `Delivery to ${strategy.name} failed: ${message}`);
+      return {
+        success: false,
+        platform: strategy.name,
+        error: message,
+        deliveredAt: new Date(),
+      };
+    }
+  }
+
+  // Returns the failure message when the results violate the delivery policy
+  private getPolicyFailure(results: DeliveryResult[]): string | undefined {
+    const failed = results.filter((r) => !r.success);
+    if (failed.length === 0 || this.policy === 'best-effort') {
+      return undefined;
+    }
+    if (this.policy === 'any' && failed.length < results.length) {
+      return undefined;
+    }
+
+    return results.length === 1
+      ? (failed[0]?.error ?? 'Delivery failed')
+      : failed.map((r) => `${r.platform}: ${r.error ?? 'Delivery failed'}`).join('; ');
+  }
+
+  private setCallback<K extends BackupEventName>(
+    name: string,
+    event: K,
+    listener: BackupEventListener<K>
+  ): this {
+    this.callbackListeners.get(name)?.();
+    this.callbackListeners.set(name, this.events.on(event, listener));
+    return this;
+  }
+
+  // Emits an informational event without waiting for its listeners
+  private notify<K extends BackupEventName>(event: K, payload: BackupEventMap[K]): void {
+    this.events.emit(event, payload).catch(() => {});
   }
 
   private progress(phase: string, message: string): void {
-    this.onProgressCallback?.(phase, message);
+    this.notify('progress', { phase, message: this.redactor.redact(message) });
   }
 }
 
+// Only removes an empty directory, so retained and resumable backups stay where they are
+async function removeOutputDirectory(run: ActiveRun): Promise<void> {
+  if (run.outputDirectory) {
+    await rmdir(run.outputDirectory).catch(() => {});
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// e.g. "Compressed: 60.00 MB of 120.00 MB (50%, 10.00 MB/s, ETA 6.00s)"
+function formatProgress(label: string, progress: ByteProgress): string {
+  const rate = `${formatBytes(Math.round(progress.bytesPerSecond))}/s`;
+  if (progress.totalBytes === undefined) {
+    return `${label}: ${formatBytes(progress.bytes)} (${rate})`;
+  }
+
+  const { bytes, totalBytes, etaMs } = progress;
+  const percent = totalBytes > 0 ? Math.floor((bytes / totalBytes) * 100) : 100;
+  const eta = etaMs === undefined ? '' : `, ETA ${formatDuration(etaMs)}`;
+  return `${label}: ${formatBytes(bytes)} of ${formatBytes(totalBytes)} (${percent}%, ${rate}${eta})`;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join('.') || 'config'}: ${issue.message}`).join('; ');
+}
+
 // Simple functional API
 export interface SimpleBackupOptions {
   database: string;
@@ -136,6 +1219,7 @@ export interface SimpleBackupOptions {
     username?: string;
   };
   compress?: boolean;
+  compression?: CompressionOptions;
   retainBackup?: boolean;
 }
 
@@ -154,6 +1238,10 @@ export function backup(options: SimpleBackupOptions): Promise<BackupManagerResul
     manager.compress(options.compress);
   }
 
+  if (options.compression !== undefined) {
+    manager.compression(options.compression);
+  }
+
   if (options.retainBackup !== undefined) {
     manager.retainBackup(options.retainBackup);
   }
@@ -0,0 +1,60 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { BackupManifest, BackupResult, ManifestPart } from './types.js';
+
+const MANIFEST_VERSION = 1;
+export const MANIFEST_SUFFIX = '.manifest.json';
+
+let packageVersion: Promise<string> | undefined;
+
+// Read at runtime, since package.json sits outside rootDir; the path is the same from src/ and dist/
+export function getWbackupVersion(): Promise<string> {
+  packageVersion ??= readFile(new URL('../package.json', import.meta.url), 'utf-8')
+    .then((content) => (JSON.parse(content) as { version?: string }).version ?? 'unknown')
+    .catch(() => 'unknown');
+  return packageVersion;
+}
+
+// Describes the whole file; delivery strategies add the parts they upload
+export async function createManifest(
+  backup: BackupResult & { checksum: string },
+  tools: Record<string, string>
+): Promise<BackupManifest> {
+  return {
+    version: MANIFEST_VERSION,
+    wbackupVersion: await getWbackupVersion(),
+    createdAt: backup.createdAt.toISOString(),
+    database: backup.database,
+    compressed: backup.compressed,
+    encrypted: backup.encrypted ?? false,
+    file: { fileName: backup.fileName, sizeBytes: backup.sizeBytes, sha256: backup.checksum },
+    parts: [],
+    tools,
+    metadata: backup.metadata,
+  };
+}
+
+export function serializeManifest(manifest: BackupManifest, parts: ManifestPart[]): string {
+  return `${JSON.stringify({ ...manifest, parts }, null, 2)}\n`;
+}
+
+/**
+ * Writes the manifest as "<backup file name>.manifest.json" into a directory
+ * of its own, hands the path to send() and removes it again. Destinations
+ * delivering in parallel each get their own copy.
+ */
+export async function withManifestFile<T>(
+  manifest: BackupManifest,
+  parts: ManifestPart[],
+  send: (filePath: string) => Promise<T>
+): Promise<T> {
+  const directory = await mkdtemp(join(tmpdir(), 'wbackup-manifest-'));
+  try {
+    const filePath = join(directory, `${manifest.file.fileName}${MANIFEST_SUFFIX}`);
+    await writeFile(filePath, serializeManifest(manifest, parts));
+    return await send(filePath);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,148 @@
+import { randomBytes } from 'node:crypto';
+import { rename, writeFile } from 'node:fs/promises';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { dirname } from 'node:path';
+import type { BackupMetricsOptions, CatalogStatus, RunMetrics } from './types.js';
+import { ensureDir, removeFile } from './utils.js';
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+interface DatabaseMetrics {
+  lastSuccessSeconds?: number;
+  lastDurationSeconds?: number;
+  lastSizeBytes?: number;
+  runs: Record<CatalogStatus, number>;
+  retries: Map<string, number>;
+}
+
+type Sample = [labels: Record<string, string>, value: number];
+
+/**
+ * Per-database backup metrics in the Prometheus text format.
+ *
+ * Attach it with BackupManager.metrics(); several managers can share one
+ * instance. Expose it through a textfile collector file, handler() or listen().
+ */
+export class BackupMetrics {
+  private readonly databases = new Map<string, DatabaseMetrics>();
+  // Serialises textfile writes so an older snapshot never replaces a newer one
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: BackupMetricsOptions = {}) {}
+
+  // Rejects only when the textfile cannot be written; the run is counted either way
+  record(run: RunMetrics): Promise<void> {
+    const metrics = this.databaseMetrics(run.database);
+    metrics.runs[run.status] += 1;
+    metrics.lastDurationSeconds = run.durationMs / 1000;
+    if (run.status === 'success') {
+      metrics.lastSuccessSeconds = run.finishedAt.getTime() / 1000;
+      if (run.sizeBytes !== undefined) {
+        metrics.lastSizeBytes = run.sizeBytes;
+      }
+    }
+    for (const [destination, count] of Object.entries(run.retries)) {
+      metrics.retries.set(destination, (metrics.retries.get(destination) ?? 0) + count);
+    }
+
+    const { textfilePath } = this.options;
+    if (!textfilePath) {
+      return Promise.resolve();
+    }
+    const write = this.writing.then(() => this.writeTextfile(textfilePath));
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  render(): string {
+    const entries = [...this.databases.entries()].sort(([a], [b]) => a.localeCompare(b));
+    const gauge = (select: (metrics: DatabaseMetrics) => number | undefined): Sample[] =>
+      entries.flatMap(([database, metrics]) => {
+        const value = select(metrics);
+        return value === undefined ? [] : [[{ database }, value]];
+      });
+
+    return [
+      family('wbackup_last_success_timestamp_seconds', 'gauge', 'Unix time of the last successful backup.',
+        gauge((m) => m.lastSuccessSeconds)),
+      family('wbackup_last_duration_seconds', 'gauge', 'Duration of the last backup run.',
+        gauge((m) => m.lastDurationSeconds)),
+      family('wbackup_last_size_bytes', 'gauge', 'Size of the last successful backup.',
+        gauge((m) => m.lastSizeBytes)),
+      family('wbackup_runs_total', 'counter', 'Backup runs by status.',
+        entries.flatMap(([database, metrics]) =>
+          Object.entries(metrics.runs).map(([status, count]): Sample => [{ database, status }, count]))),
+      family('wbackup_delivery_retries_total', 'counter', 'Upload retries by destination.',
+        entries.flatMap(([database, metrics]) =>
+          [...metrics.retries].map(([destination, count]): Sample => [{ database, destination }, count]))),
+    ].join('');
+  }
+
+  // Writes to a temporary name and renames it, so the collector never reads a partial file
+  async writeTextfile(path: string): Promise<void> {
+    const tempPath = `${path}.tmp-${randomBytes(4).toString('hex')}`;
+    await ensureDir(dirname(path));
+    try {
+      await writeFile(tempPath, this.render());
+      await rename(tempPath, path);
+    } catch (error) {
+      await removeFile(tempPath);
+      throw error;
+    }
+  }
+
+  // Request listener for node:http serving GET /metrics
+  handler(): (request: IncomingMessage, response: ServerResponse) => void {
+    return (request, response) => {
+      const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+      if (path !== '/metrics') {
+        response.writeHead(404).end();
+      } else if (request.method !== 'GET' && request.method !== 'HEAD') {
+        response.writeHead(405, { allow: 'GET, HEAD' }).end();
+      } else {
+        response.writeHead(200, { 'content-type': METRICS_CONTENT_TYPE });
+        response.end(request.method === 'HEAD' ? undefined : this.render());
+      }
+    };
+  }
+
+  // Binds to localhost by default; pass '0.0.0.0' to expose the metrics to other hosts
+  listen(port: number, host = '127.0.0.1'): Promise<Server> {
+    const server = createServer(this.handler());
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve(server);
+      });
+    });
+  }
+
+  private databaseMetrics(database: string): DatabaseMetrics {
+    let metrics = this.databases.get(database);
+    if (!metrics) {
+      metrics = { runs: { success: 0, failed: 0 }, retries: new Map() };
+      this.databases.set(database, metrics);
+    }
+    return metrics;
+  }
+}
+
+export function createBackupMetrics(options: BackupMetricsOptions = {}): BackupMetrics {
+  return new BackupMetrics(options);
+}
+
+function family(name: string, type: 'gauge' | 'counter', help: string, samples: Sample[]): string {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+  for (const [labels, value] of samples) {
+    const labelText = Object.entries(labels)
+      .map(([key, labelValue]) => `${key}="${escapeLabel(labelValue)}"`)
+      .join(',');
+    lines.push(`${name}{${labelText}} ${value}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,81 @@
+import { hostname } from 'node:os';
+
+// Longest name most filesystems accept, leaving room for extensions and part suffixes
+const MAX_NAME_LENGTH = 200;
+const PLACEHOLDER_PATTERN = /\{(\w+)(?::([^}]*))?\}/g;
+const BUILT_IN_PLACEHOLDERS = new Set(['database', 'type', 'host', 'env', 'date', 'time', 'runId']);
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const TIME_FORMAT = 'HH-mm-ss';
+
+export interface NamingVariables {
+  readonly database: string;
+  readonly type: string;
+  readonly runId: string;
+  readonly date: Date;
+  // Extra placeholders such as { region: 'eu' } for {region}; also overrides {host} and {env}
+  readonly custom?: Record<string, string> | undefined;
+}
+
+/**
+ * Throws for placeholders the template cannot fill, so a typo fails when the
+ * manager is configured instead of producing a literal "{databse}" in a name.
+ */
+export function validateNamingTemplate(template: string, customNames: string[] = []): void {
+  if (!template.trim()) {
+    throw new Error('Naming template must not be empty');
+  }
+  const known = new Set([...BUILT_IN_PLACEHOLDERS, ...customNames]);
+  for (const [placeholder, name = ''] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!known.has(name)) {
+      throw new Error(`Unknown placeholder ${placeholder} in naming template`);
+    }
+  }
+}
+
+/**
+ * Renders a template such as "{env}-{database}-{date:YYYYMMDD}" into a file
+ * name without extension. Dates are UTC; the result is safe on any filesystem.
+ */
+export function renderFileName(template: string, variables: NamingVariables): string {
+  const values: Record<string, string> = {
+    database: variables.database,
+    type: variables.type,
+    host: hostname(),
+    env: process.env['NODE_ENV'] ?? '',
+    runId: variables.runId,
+    time: formatDate(variables.date, TIME_FORMAT),
+    ...variables.custom,
+  };
+
+  const rendered = template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string, format?: string) => {
+    if (name === 'date') {
+      return formatDate(variables.date, format || DEFAULT_DATE_FORMAT);
+    }
+    return values[name] ?? placeholder;
+  });
+  return sanitizeFileName(rendered);
+}
+
+// Keeps letters, digits, dots, dashes and underscores; never returns an empty or hidden name
+export function sanitizeFileName(name: string): string {
+  const sanitized = name
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .slice(0, MAX_NAME_LENGTH)
+    .replace(/^[.-]+|[.-]+$/g, '');
+  return sanitized || 'backup';
+}
+
+// Supports YYYY, MM, DD, HH, mm and ss
+function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token] ?? token);
+}
@@ -0,0 +1,161 @@
+import { Transform, type TransformCallback } from 'node:stream';
+import { Worker } from 'node:worker_threads';
+
+export const DEFAULT_GZIP_BLOCK_SIZE = 1024 * 1024; // 1MB
+export const MIN_GZIP_BLOCK_SIZE = 64 * 1024; // 64KB
+
+// Evaluated in each worker; every block becomes a complete gzip member
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const { gzipSync } = require('node:zlib');
+parentPort.on('message', (block) => parentPort.postMessage(gzipSync(block, { level: workerData.level })));
+`;
+
+export interface ParallelGzipOptions {
+  level: number;
+  threads: number;
+  // Uncompressed bytes per gzip member (default: 1MB)
+  blockSize?: number | undefined;
+}
+
+/**
+ * Gzip transform that compresses fixed-size blocks on worker threads, like
+ * pigz. Each block is written as its own gzip member, in input order, and
+ * gunzip and node:zlib read the concatenated members back as one stream.
+ * At most two blocks per thread are held in memory.
+ */
+export function createParallelGzip(options: ParallelGzipOptions): Transform {
+  return new ParallelGzipStream(options);
+}
+
+class ParallelGzipStream extends Transform {
+  private readonly pool: GzipWorkerPool;
+  private readonly blockSize: number;
+  private readonly maxPending: number;
+  // Compressed members in input order, pushed as the oldest one finishes
+  private readonly pending: Array<Promise<Buffer>> = [];
+  private block: Buffer<ArrayBuffer> | undefined;
+  private filled = 0;
+  private submitted = false;
+
+  constructor(options: ParallelGzipOptions) {
+    super();
+    this.pool = new GzipWorkerPool(options.threads, options.level);
+    this.blockSize = options.blockSize ?? DEFAULT_GZIP_BLOCK_SIZE;
+    this.maxPending = options.threads * 2;
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.append(chunk).then(() => callback(), callback);
+  }
+
+  override _flush(callback: TransformCallback): void {
+    this.finish().then(() => callback(), callback);
+  }
+
+  override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.pool.close().then(() => callback(error), () => callback(error));
+  }
+
+  private async append(chunk: Buffer): Promise<void> {
+    let offset = 0;
+    while (offset < chunk.length) {
+      // Unpooled, so the block's memory can be handed to the worker
+      this.block ??= Buffer.allocUnsafeSlow(this.blockSize);
+      const copied = chunk.copy(this.block, this.filled, offset);
+      this.filled += copied;
+      offset += copied;
+      if (this.filled === this.blockSize) {
+        await this.submit();
+      }
+    }
+  }
+
+  private async finish(): Promise<void> {
+    // Empty input still becomes one valid, empty gzip member
+    if (this.filled > 0 || !this.submitted) {
+      await this.submit();
+    }
+    while (this.pending.length > 0) {
+      await this.pushOldest();
+    }
+    await this.pool.close();
+  }
+
+  private async submit(): Promise<void> {
+    const block = (this.block ?? Buffer.allocUnsafeSlow(0)).subarray(0, this.filled);
+    this.block = undefined;
+    this.filled = 0;
+    this.submitted = true;
+
+    const member = this.pool.compress(block);
+    // Failures surface when the member is awaited in order
+    member.catch(() => {});
+    this.pending.push(member);
+    if (this.pending.length >= this.maxPending) {
+      await this.pushOldest();
+    }
+  }
+
+  private async pushOldest(): Promise<void> {
+    const member = this.pending.shift();
+    if (member) {
+      this.push(await member);
+    }
+  }
+}
+
+class GzipWorkerPool {
+  private readonly workers: Worker[];
+  private readonly idle: Worker[];
+  private readonly waiting: Array<(worker: Worker) => void> = [];
+  private closing: Promise<void> | undefined;
+
+  constructor(threads: number, level: number) {
+    this.workers = Array.from(
+      { length: threads },
+      () => new Worker(WORKER_SOURCE, { eval: true, workerData: { level } })
+    );
+    this.idle = [...this.workers];
+  }
+
+  async compress(block: Buffer<ArrayBuffer>): Promise<Buffer> {
+    const worker = this.idle.pop() ?? (await new Promise<Worker>((resolve) => this.waiting.push(resolve)));
+
+    return new Promise((resolve, reject) => {
+      const settle = (): void => {
+        worker.off('message', onMessage).off('error', onError).off('exit', onExit);
+      };
+      const onMessage = (member: Uint8Array): void => {
+        settle();
+        this.release(worker);
+        resolve(Buffer.from(member.buffer, member.byteOffset, member.byteLength));
+      };
+      const onError = (error: Error): void => {
+        settle();
+        reject(error);
+      };
+      const onExit = (): void => {
+        settle();
+        reject(new Error('Gzip worker exited before compressing its block'));
+      };
+
+      worker.on('message', onMessage).on('error', onError).on('exit', onExit);
+      worker.postMessage(block, [block.buffer]);
+    });
+  }
+
+  close(): Promise<void> {
+    this.closing ??= Promise.all(this.workers.map((worker) => worker.terminate())).then(() => {});
+    return this.closing;
+  }
+
+  private release(worker: Worker): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next(worker);
+    } else {
+      this.idle.push(worker);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import type {
+  BackupJobResult,
+  BackupPlanOptions,
+  BackupPlanReport,
+  OnJobErrorCallback,
+  OnJobProgressCallback,
+} from './types.js';
+import { BackupManager } from './manager.js';
+import { BackupError } from './utils.js';
+
+type ConfigureJob = (manager: BackupManager) => BackupManager;
+
+interface PlannedJob {
+  id: string;
+  configure: ConfigureJob;
+}
+
+export class BackupPlan {
+  private readonly jobs: PlannedJob[] = [];
+  private onJobProgressCallback?: OnJobProgressCallback;
+  private onJobErrorCallback?: OnJobErrorCallback;
+
+  // The configure function receives a fresh BackupManager for this job
+  add(id: string, configure: ConfigureJob): this {
+    if (this.jobs.some((job) => job.id === id)) {
+      throw new Error(`Backup job "${id}" is already added`);
+    }
+    this.jobs.push({ id, configure });
+    return this;
+  }
+
+  onProgress(callback: OnJobProgressCallback): this {
+    this.onJobProgressCallback = callback;
+    return this;
+  }
+
+  onError(callback: OnJobErrorCallback): this {
+    this.onJobErrorCallback = callback;
+    return this;
+  }
+
+  async runAll(options: BackupPlanOptions = {}): Promise<BackupPlanReport> {
+    const concurrency = options.concurrency ?? 1;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+    }
+
+    const startTime = Date.now();
+    const results: BackupJobResult[] = new Array(this.jobs.length);
+    let nextIndex = 0;
+
+    // Each worker pulls the next pending job until none are left
+    const worker = async (): Promise<void> => {
+      while (nextIndex < this.jobs.length) {
+        const index = nextIndex++;
+        const job = this.jobs[index];
+        if (!job) continue;
+        results[index] = await this.runJob(job, options.signal);
+      }
+    };
+
+    const workerCount = Math.min(concurrency, this.jobs.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    const succeeded = results.filter((r) => r.success).length;
+    return {
+      jobs: results,
+      succeeded,
+      failed: results.length - succeeded,
+      totalDuration: Date.now() - startTime,
+    };
+  }
+
+  private async runJob(job: PlannedJob, signal: AbortSignal | undefined): Promise<BackupJobResult> {
+    const startTime = Date.now();
+
+    try {
+      const manager = job.configure(new BackupManager());
+      if (this.onJobProgressCallback) {
+        const callback = this.onJobProgressCallback;
+        manager.on('progress', ({ phase, message }) => callback(job.id, phase, message));
+      }
+
+      const result = await manager.run({ signal });
+      return { id: job.id, success: true, result, duration: Date.now() - startTime };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const phase = error instanceof BackupError ? error.phase : 'backup';
+
+      // A failing error callback, even one that throws synchronously, must not take down the other jobs
+      await Promise.resolve()
+        .then(() => this.onJobErrorCallback?.(job.id, err, phase))
+        .catch(() => {});
+
+      return { id: job.id, success: false, error: err, phase, duration: Date.now() - startTime };
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { access, constants, writeFile } from 'node:fs/promises';
+import { delimiter, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { PreflightCheck, PreflightReport, PreflightStatus } from './types.js';
+import { REDACTED, isSecretKey, maskCredentials } from './redact.js';
+import { generateTempPath, removeFile } from './utils.js';
+
+// Hides the password of user:password@host URLs and password=value pairs
+export function maskSecrets(value: string): string {
+  return maskCredentials(value);
+}
+
+export function maskArgs(args: string[]): string[] {
+  return args.map((arg) => {
+    const match = /^(--[\w-]+=)(.*)$/.exec(arg);
+    if (!match) {
+      return maskSecrets(arg);
+    }
+    const [, flag = '', value = ''] = match;
+    return isSecretKey(flag) ? `${flag}${REDACTED}` : `${flag}${maskSecrets(value)}`;
+  });
+}
+
+export async function findExecutable(command: string): Promise<string | undefined> {
+  const extensions = process.platform === 'win32' ? (process.env['PATHEXT'] ?? '.EXE;.CMD').split(';') : [''];
+  const directories = (process.env['PATH'] ?? '').split(delimiter).filter(Boolean);
+
+  for (const directory of directories) {
+    for (const extension of extensions) {
+      const candidate = join(directory, command + extension);
+      try {
+        await access(candidate, constants.X_OK);
+        return candidate;
+      } catch {
+        // Not in this directory
+      }
+    }
+  }
+  return undefined;
+}
+
+export async function checkExecutable(command: string, notFoundMessage: string): Promise<PreflightCheck> {
+  const path = await findExecutable(command);
+  return path
+    ? { name: command, status: 'pass', message: `Found at ${path}` }
+    : { name: command, status: 'fail', message: notFoundMessage };
+}
+
+export async function checkModule(specifier: string, notFoundMessage: string): Promise<PreflightCheck> {
+  try {
+    await import(specifier);
+    return { name: specifier, status: 'pass', message: 'Installed' };
+  } catch {
+    return { name: specifier, status: 'fail', message: notFoundMessage };
+  }
+}
+
+// Reports the exact command line a strategy would run, with secrets masked
+export function describeCommand(command: string, args: string[]): PreflightCheck {
+  return { name: `${command} arguments`, status: 'pass', message: [command, ...maskArgs(args)].join(' ') };
+}
+
+// Backups are dumped to the OS temp directory before delivery
+export async function checkTempDir(): Promise<PreflightCheck> {
+  const directory = tmpdir();
+  const probePath = generateTempPath('wbackup-preflight', '.tmp');
+  try {
+    await writeFile(probePath, '');
+    return { name: 'temp directory', status: 'pass', message: `${directory} is writable` };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { name: 'temp directory', status: 'fail', message: `${directory} is not writable: ${reason}` };
+  } finally {
+    await removeFile(probePath);
+  }
+}
+
+const SEVERITY: Record<PreflightStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export function createPreflightReport(checks: PreflightCheck[]): PreflightReport {
+  const status = checks.reduce<PreflightStatus>(
+    (worst, check) => (SEVERITY[check.status] > SEVERITY[worst] ? check.status : worst),
+    'pass'
+  );
+  return { status, ok: status !== 'fail', checks };
+}
@@ -0,0 +1,130 @@
+import { stat } from 'node:fs/promises';
+import type { BackupContext, ByteProgress } from './types.js';
+
+export const DEFAULT_PROGRESS_INTERVAL_MS = 5000;
+
+export interface ProgressTracker {
+  // Records the absolute byte count; reports at most once per interval
+  report(bytes: number, totalBytes?: number): void;
+  // Reports the last state if it has not been reported yet
+  finish(): void;
+}
+
+export function createProgressTracker(
+  intervalMs: number,
+  onProgress: (progress: ByteProgress) => void
+): ProgressTracker {
+  let startTime = Date.now();
+  let lastReportAt = startTime;
+  let bytes = 0;
+  let totalBytes: number | undefined;
+  let reported = true;
+
+  const emit = () => {
+    const now = Date.now();
+    const elapsedMs = now - startTime;
+    const bytesPerSecond = elapsedMs > 0 ? (bytes / elapsedMs) * 1000 : 0;
+    const progress: ByteProgress = { bytes, bytesPerSecond, elapsedMs };
+
+    lastReportAt = now;
+    reported = true;
+    if (totalBytes === undefined) {
+      onProgress(progress);
+      return;
+    }
+    const remaining = Math.max(0, totalBytes - bytes);
+    onProgress(bytesPerSecond > 0
+      ? { ...progress, totalBytes, etaMs: Math.round((remaining / bytesPerSecond) * 1000) }
+      : { ...progress, totalBytes });
+  };
+
+  return {
+    report(nextBytes, nextTotal) {
+      // A retried upload starts counting from zero again
+      if (nextBytes < bytes) {
+        startTime = Date.now();
+      }
+      bytes = nextBytes;
+      totalBytes = nextTotal ?? totalBytes;
+      reported = false;
+
+      if (Date.now() - lastReportAt >= intervalMs) {
+        emit();
+      }
+    },
+    finish() {
+      if (!reported) {
+        emit();
+      }
+    },
+  };
+}
+
+/**
+ * Runs a dump while polling the size of the file it writes, so long dumps
+ * report progress before they finish. Pass totalBytes when the final size is
+ * known up front (file copies).
+ */
+export async function trackDumpProgress<T>(
+  filePath: string,
+  context: BackupContext,
+  dump: () => Promise<T>,
+  totalBytes?: number
+): Promise<T> {
+  const { onByteProgress } = context;
+  if (!onByteProgress) {
+    return dump();
+  }
+
+  const intervalMs = context.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS;
+  const tracker = createProgressTracker(intervalMs, (progress) => onByteProgress('dump', progress));
+  const poll = async () => {
+    try {
+      tracker.report((await stat(filePath)).size, totalBytes);
+    } catch {
+      // Not created yet
+    }
+  };
+
+  const timer = setInterval(() => void poll(), intervalMs);
+  timer.unref();
+  try {
+    const result = await dump();
+    await poll();
+    tracker.finish();
+    return result;
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+/**
+ * Request body for a multipart upload. With onBytes, the form is serialised
+ * up front and streamed through a counter, so bytes are reported as fetch
+ * reads them rather than once the request completes.
+ */
+export async function createUploadBody(
+  formData: FormData,
+  onBytes?: (bytesSent: number, totalBytes: number) => void
+): Promise<Pick<RequestInit, 'body' | 'headers' | 'duplex'>> {
+  if (!onBytes) {
+    return { body: formData };
+  }
+
+  const blob = await new Response(formData).blob();
+  let bytesSent = 0;
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytesSent += chunk.byteLength;
+      onBytes(bytesSent, blob.size);
+      controller.enqueue(chunk);
+    },
+  });
+
+  return {
+    body: blob.stream().pipeThrough(counter),
+    // Keep the boundary and a fixed length instead of chunked encoding
+    headers: { 'content-type': blob.type, 'content-length': String(blob.size) },
+    duplex: 'half',
+  };
+}
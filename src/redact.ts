@@ -0,0 +1,144 @@
+export const REDACTED = '****';
+
+// Config keys whose string values are secrets in full
+const SECRET_KEY_PATTERN = /pass|pwd|secret|token|api_?key|webhook_?url/i;
+// Shorter values would mask unrelated text
+const MIN_SECRET_LENGTH = 4;
+const URL_CREDENTIALS_PATTERN = /\b([a-z][a-z0-9+.-]*:\/\/[^:/@\s]*):([^@\s]*)@/gi;
+const PASSWORD_PAIR_PATTERN = /\b(password=)([^\s&;'"]+)/gi;
+
+// Config keys and command-line flags whose values are secrets in full
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key);
+}
+
+// Masks the credentials that can be spotted without knowing them: URL passwords and password=value pairs
+export function maskCredentials(text: string): string {
+  return text
+    .replace(URL_CREDENTIALS_PATTERN, `$1:${REDACTED}@`)
+    .replace(PASSWORD_PAIR_PATTERN, `$1${REDACTED}`);
+}
+
+/**
+ * Collects the secrets of a database or delivery config: values of
+ * password/token/webhook keys, URL passwords and password=value pairs.
+ */
+export function collectSecrets(config: unknown): string[] {
+  const secrets: string[] = [];
+
+  const visit = (value: unknown, key: string) => {
+    if (typeof value === 'string') {
+      if (isSecretKey(key)) {
+        secrets.push(value, ...webhookTokens(value));
+      }
+      secrets.push(...embeddedSecrets(value));
+    } else if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, key));
+    } else if (value && typeof value === 'object') {
+      for (const [childKey, child] of Object.entries(value)) {
+        visit(child, childKey);
+      }
+    }
+  };
+
+  visit(config, '');
+  return secrets;
+}
+
+/**
+ * Replaces every known secret, plus any URL credentials, with a mask.
+ *
+ * The manager feeds it the configured secrets and runs errors, progress
+ * messages and backup metadata through it before they leave a run.
+ */
+export class Redactor {
+  private secrets: string[] = [];
+
+  add(secrets: string[]): this {
+    const variants = secrets.flatMap((secret) => [secret, encodeURIComponent(secret)]);
+    const unique = new Set([...this.secrets, ...variants.filter((s) => s.length >= MIN_SECRET_LENGTH)]);
+    // Longest first, so a secret containing another is masked whole
+    this.secrets = [...unique].sort((a, b) => b.length - a.length);
+    return this;
+  }
+
+  redact(text: string): string {
+    let result = text;
+    for (const secret of this.secrets) {
+      result = result.split(secret).join(REDACTED);
+    }
+    return maskCredentials(result);
+  }
+
+  // Scrubs the message and stack in place so instanceof checks and phases survive
+  redactError<T>(error: T): T {
+    let current: unknown = error;
+    const seen = new Set<unknown>();
+    while (current instanceof Error && !seen.has(current)) {
+      seen.add(current);
+      replaceProperty(current, 'message', this.redact(current.message));
+      if (current.stack) {
+        replaceProperty(current, 'stack', this.redact(current.stack));
+      }
+      current = current.cause;
+    }
+    return error;
+  }
+
+  redactValue<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.redact(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item: unknown) => this.redactValue(item)) as T;
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [key, this.redactValue(child)])
+      ) as T;
+    }
+    return value;
+  }
+}
+
+function embeddedSecrets(value: string): string[] {
+  const secrets: string[] = [];
+  for (const match of value.matchAll(URL_CREDENTIALS_PATTERN)) {
+    const password = match[2];
+    if (password) {
+      secrets.push(password, safeDecode(password));
+    }
+  }
+  for (const match of value.matchAll(PASSWORD_PAIR_PATTERN)) {
+    if (match[2]) {
+      secrets.push(match[2]);
+    }
+  }
+  return secrets;
+}
+
+// Webhook URLs carry their token in the last path segment, which errors may show on its own
+function webhookTokens(value: string): string[] {
+  try {
+    const segments = new URL(value).pathname.split('/').filter(Boolean);
+    const last = segments.at(-1);
+    return last && segments.length > 1 ? [last] : [];
+  } catch {
+    return [];
+  }
+}
+
+// DOMException and friends expose message as a getter, so shadow it with an own property
+function replaceProperty(error: Error, key: 'message' | 'stack', value: string): void {
+  if (error[key] !== value) {
+    Object.defineProperty(error, key, { value, writable: true, configurable: true });
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
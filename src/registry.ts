@@ -3,11 +3,14 @@ import type {
   DeliveryStrategy,
   BackupStrategyFactory,
   DeliveryStrategyFactory,
+  RestoreStrategy,
+  RestoreStrategyFactory,
 } from './types.js';
 
 class Registry {
   private readonly backupStrategies = new Map<string, BackupStrategyFactory>();
   private readonly deliveryStrategies = new Map<string, DeliveryStrategyFactory>();
+  private readonly restoreStrategies = new Map<string, RestoreStrategyFactory>();
 
   registerBackup<TConfig>(name: string, factory: () => BackupStrategy<TConfig>): void {
     if (this.backupStrategies.has(name)) {
@@ -23,6 +26,13 @@ class Registry {
     this.deliveryStrategies.set(name, factory as DeliveryStrategyFactory);
   }
 
+  registerRestore<TConfig>(name: string, factory: () => RestoreStrategy<TConfig>): void {
+    if (this.restoreStrategies.has(name)) {
+      throw new Error(`Restore strategy "${name}" is already registered`);
+    }
+    this.restoreStrategies.set(name, factory as RestoreStrategyFactory);
+  }
+
   getBackupStrategy(name: string): BackupStrategy {
     const factory = this.backupStrategies.get(name);
     if (!factory) {
@@ -41,6 +51,15 @@ class Registry {
     return factory();
   }
 
+  getRestoreStrategy(name: string): RestoreStrategy {
+    const factory = this.restoreStrategies.get(name);
+    if (!factory) {
+      const available = Array.from(this.restoreStrategies.keys()).join(', ');
+      throw new Error(`Unknown restore strategy "${name}". Available: ${available || 'none'}`);
+    }
+    return factory();
+  }
+
   listBackupStrategies(): string[] {
     return Array.from(this.backupStrategies.keys());
   }
@@ -48,6 +67,10 @@ class Registry {
   listDeliveryStrategies(): string[] {
     return Array.from(this.deliveryStrategies.keys());
   }
+
+  listRestoreStrategies(): string[] {
+    return Array.from(this.restoreStrategies.keys());
+  }
 }
 
 export const registry = new Registry();
@@ -55,3 +78,4 @@ export const registry = new Registry();
 // Convenience functions that delegate to the singleton registry
 export const registerBackupStrategy = registry.registerBackup.bind(registry);
 export const registerDeliveryStrategy = registry.registerDelivery.bind(registry);
+export const registerRestoreStrategy = registry.registerRestore.bind(registry);
@@ -0,0 +1,534 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { link, open, readdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import * as zlib from 'node:zlib';
+import type { z } from 'zod';
+import type {
+  ArchivedBackup,
+  PruneOptions,
+  RepositoryCheckOptions,
+  RepositoryCheckResult,
+  RepositoryPruneResult,
+  RepositorySnapshot,
+  SnapshotSource,
+  StoreOptions,
+  StoreResult,
+} from './types.js';
+import { ChunkingOptionsSchema, chunkStream, type ChunkingOptions } from './chunking.js';
+import { RetentionPolicySchema, planRetention } from './retention.js';
+import { ensureDir, removeFile, syncDirectory } from './utils.js';
+
+const REPOSITORY_VERSION = 1;
+const CONFIG_FILE = 'repository.json';
+const LOCK_FILE = 'lock';
+const CHUNK_ID_PATTERN = /^[0-9a-f]{64}$/;
+const SNAPSHOT_ID_PATTERN = /^[0-9A-Za-z-]+$/;
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+// Last queued store() or prune() per repository directory in this process
+const queues = new Map<string, Promise<unknown>>();
+
+// The same keep rules as BackupManager.retention(), applied to snapshots
+export const RepositoryPrunePolicySchema = RetentionPolicySchema.omit({ directory: true });
+
+export type RepositoryPrunePolicy = z.input<typeof RepositoryPrunePolicySchema>;
+
+export interface BackupRepositoryOptions {
+  // Only used when the repository is created; an existing one keeps its chunk sizes
+  chunking?: ChunkingOptions | undefined;
+}
+
+interface RepositoryMetadata {
+  readonly version: typeof REPOSITORY_VERSION;
+  readonly chunking: Required<ChunkingOptions>;
+}
+
+type SnapshotFile = Omit<RepositorySnapshot, 'createdAt'> & {
+  readonly version: typeof REPOSITORY_VERSION;
+  readonly createdAt: string;
+};
+
+// Thrown for a missing, locked or damaged repository
+export class RepositoryError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'RepositoryError';
+  }
+}
+
+/**
+ * Deduplicating backup store in a local directory.
+ *
+ * Backups are cut into content-defined chunks, and each chunk is stored once,
+ * gzipped, under its SHA-256 in chunks/. Every stored backup gets a snapshot
+ * index in snapshots/ listing its chunks in order. Chunks are written before
+ * the index, so an interrupted backup leaves only unreferenced chunks, which
+ * prune() removes. store() and prune() take a lock file so they never run at
+ * the same time; callers in the same process wait for each other instead of
+ * failing. A stored chunk that no longer matches its ID is written again by the
+ * next backup that contains it.
+ */
+export class BackupRepository {
+  constructor(
+    readonly directory: string,
+    private readonly options: BackupRepositoryOptions = {}
+  ) {}
+
+  async store(source: AsyncIterable<Buffer>, info: SnapshotSource, options: StoreOptions = {}): Promise<StoreResult> {
+    return this.withLock(async () => {
+      const { chunking } = await this.loadConfig(true);
+      const hash = createHash('sha256');
+      const chunks: RepositorySnapshot['chunks'] = [];
+      const seen = new Set<string>();
+      const touchedDirectories = new Set<string>();
+      let sizeBytes = 0;
+      let newBytes = 0;
+      let storedBytes = 0;
+      let newChunks = 0;
+
+      for await (const data of chunkStream(source, chunking)) {
+        options.signal?.throwIfAborted();
+        hash.update(data);
+        sizeBytes += data.length;
+        options.onBytes?.(sizeBytes);
+
+        const id = createHash('sha256').update(data).digest('hex');
+        chunks.push({ id, sizeBytes: data.length });
+        if (seen.has(id)) continue;
+        seen.add(id);
+        if (await this.hasChunk(id)) continue;
+
+        storedBytes += await this.writeChunk(id, data);
+        newBytes += data.length;
+        newChunks++;
+        touchedDirectories.add(dirname(this.chunkPath(id)));
+      }
+      options.signal?.throwIfAborted();
+      // The chunks must be durable before a snapshot refers to them
+      await Promise.all([...touchedDirectories].map((directory) => syncDirectory(directory)));
+
+      const snapshot: RepositorySnapshot = {
+        id: createSnapshotId(info.createdAt),
+        fileName: info.fileName,
+        database: info.database,
+        createdAt: info.createdAt,
+        sizeBytes,
+        sha256: hash.digest('hex'),
+        compressed: info.compressed,
+        codec: info.codec,
+        chunks,
+      };
+      await this.writeSnapshot(snapshot);
+
+      return {
+        snapshot,
+        newBytes,
+        storedBytes,
+        newChunks,
+        dedupRatio: sizeBytes === 0 ? 0 : 1 - newBytes / sizeBytes,
+      };
+    });
+  }
+
+  // Newest first
+  async snapshots(): Promise<RepositorySnapshot[]> {
+    await this.loadConfig(false);
+    const snapshots = await Promise.all((await this.listSnapshotIds()).map((id) => this.snapshot(id)));
+    return snapshots.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async snapshot(snapshotId: string): Promise<RepositorySnapshot> {
+    if (!SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+      throw new RepositoryError(`Invalid snapshot ID: ${snapshotId}`);
+    }
+
+    const path = this.snapshotPath(snapshotId);
+    let raw: string;
+    try {
+      raw = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new RepositoryError(`Unknown snapshot: ${snapshotId}`);
+      }
+      throw error;
+    }
+
+    let file: SnapshotFile;
+    try {
+      file = JSON.parse(raw) as SnapshotFile;
+    } catch (error) {
+      throw new RepositoryError(`Corrupt snapshot file: ${path}`, error);
+    }
+    if (file.version !== REPOSITORY_VERSION) {
+      throw new RepositoryError(`Unsupported snapshot version ${file.version}: ${path}`);
+    }
+    const { version: _version, ...snapshot } = file;
+    return { ...snapshot, createdAt: new Date(file.createdAt) };
+  }
+
+  /**
+   * Rebuilds a snapshot's file at targetPath, by default its original file
+   * name in the working directory. Every chunk and the whole file are checked
+   * against their SHA-256, and an existing file is never overwritten.
+   */
+  async restore(snapshotId: string, targetPath?: string): Promise<string> {
+    const snapshot = await this.snapshot(snapshotId);
+    const target = targetPath ?? snapshot.fileName;
+    if (await exists(target)) {
+      throw new RepositoryError(`Restore target already exists: ${target}`);
+    }
+
+    const tempPath = `${target}.tmp-${randomBytes(4).toString('hex')}`;
+    const hash = createHash('sha256');
+    try {
+      const handle = await open(tempPath, 'wx');
+      try {
+        for (const chunk of snapshot.chunks) {
+          const data = await this.readChunk(chunk.id);
+          hash.update(data);
+          await handle.write(data);
+        }
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+
+      if (hash.digest('hex') !== snapshot.sha256) {
+        throw new RepositoryError(`Restored file does not match the SHA-256 of snapshot ${snapshotId}`);
+      }
+      // Unlike rename, link fails when the target appeared in the meantime
+      await link(tempPath, target);
+    } finally {
+      await removeFile(tempPath);
+    }
+    return target;
+  }
+
+  // Lists problems instead of throwing, so one damaged snapshot does not hide the others
+  async check(options: RepositoryCheckOptions = {}): Promise<RepositoryCheckResult> {
+    await this.loadConfig(false);
+    const chunkIds = new Set(await this.listChunkIds());
+    const snapshotIds = await this.listSnapshotIds();
+    const referenced = new Set<string>();
+    const errors: string[] = [];
+
+    for (const snapshotId of snapshotIds) {
+      let snapshot: RepositorySnapshot;
+      try {
+        snapshot = await this.snapshot(snapshotId);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      for (const chunk of snapshot.chunks) {
+        if (!chunkIds.has(chunk.id)) {
+          errors.push(`Snapshot ${snapshotId} references missing chunk ${chunk.id}`);
+        }
+        referenced.add(chunk.id);
+      }
+    }
+
+    if (options.readData) {
+      for (const id of referenced) {
+        if (!chunkIds.has(id)) continue;
+        try {
+          await this.readChunk(id);
+        } catch (error) {
+          errors.push(error instanceof Error ? error.message : String(error));
+        }
+      }
+    }
+
+    return {
+      ok: errors.length === 0,
+      snapshots: snapshotIds.length,
+      chunks: chunkIds.size,
+      errors,
+      unreferencedChunks: [...chunkIds].filter((id) => !referenced.has(id)).length,
+    };
+  }
+
+  /**
+   * Deletes the snapshots the policy does not keep, then every chunk that no
+   * remaining snapshot uses. maxTotalBytes counts full backup sizes, not the
+   * deduplicated space on disk.
+   */
+  async prune(policy: RepositoryPrunePolicy, options: PruneOptions = {}): Promise<RepositoryPruneResult> {
+    const validatedPolicy = RepositoryPrunePolicySchema.parse(policy);
+    const dryRun = options.dryRun ?? false;
+
+    return this.withLock(async () => {
+      const snapshots = await this.snapshots();
+      const byEntry = new Map<ArchivedBackup, RepositorySnapshot>(
+        snapshots.map((snapshot) => [
+          {
+            path: this.snapshotPath(snapshot.id),
+            fileName: snapshot.fileName,
+            sizeBytes: snapshot.sizeBytes,
+            createdAt: snapshot.createdAt,
+          },
+          snapshot,
+        ])
+      );
+      const plan = planRetention([...byEntry.keys()], { ...validatedPolicy, directory: this.directory });
+      const kept = plan.kept.flatMap((entry) => byEntry.get(entry) ?? []);
+      const deleted = plan.deleted.flatMap((entry) => byEntry.get(entry) ?? []);
+
+      const referenced = new Set(kept.flatMap((snapshot) => snapshot.chunks.map((chunk) => chunk.id)));
+      const unused = (await this.listChunkIds()).filter((id) => !referenced.has(id));
+      const sizes = await Promise.all(unused.map(async (id) => (await stat(this.chunkPath(id))).size));
+
+      if (!dryRun) {
+        // Snapshots go first, so an interrupted prune never leaves one with missing chunks
+        await Promise.all(deleted.map((snapshot) => removeFile(this.snapshotPath(snapshot.id))));
+        await Promise.all(unused.map((id) => removeFile(this.chunkPath(id))));
+      }
+
+      return {
+        kept,
+        deleted,
+        chunksDeleted: unused.length,
+        bytesFreed: sizes.reduce((sum, size) => sum + size, 0),
+        dryRun,
+      };
+    });
+  }
+
+  // Creates the repository on first use when create is set
+  private async loadConfig(create: boolean): Promise<RepositoryMetadata> {
+    const path = join(this.directory, CONFIG_FILE);
+    let raw: string | undefined;
+    try {
+      raw = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    if (raw !== undefined) {
+      let existing: RepositoryMetadata;
+      try {
+        existing = JSON.parse(raw) as RepositoryMetadata;
+      } catch (error) {
+        throw new RepositoryError(`Corrupt repository config: ${path}`, error);
+      }
+      if (existing.version !== REPOSITORY_VERSION) {
+        throw new RepositoryError(`Unsupported repository version ${existing.version}: ${this.directory}`);
+      }
+      return existing;
+    }
+    if (!create) {
+      throw new RepositoryError(`No backup repository in ${this.directory}`);
+    }
+
+    const config: RepositoryMetadata = {
+      version: REPOSITORY_VERSION,
+      chunking: ChunkingOptionsSchema.parse(this.options.chunking ?? {}),
+    };
+    await ensureDir(this.directory);
+    await writeFileAtomically(path, JSON.stringify(config, null, 2));
+    return config;
+  }
+
+  // The lock file keeps other processes out; callers in this process queue up before taking it
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return enqueue(resolve(this.directory), async () => {
+      await ensureDir(this.directory);
+      const lockPath = join(this.directory, LOCK_FILE);
+      await acquireLock(lockPath);
+      try {
+        return await fn();
+      } finally {
+        await removeFile(lockPath);
+      }
+    });
+  }
+
+  // Reads the chunk back, so a missing or corrupt one is stored again
+  private async hasChunk(id: string): Promise<boolean> {
+    try {
+      await this.readChunk(id);
+      return true;
+    } catch (error) {
+      if (error instanceof RepositoryError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Returns the compressed size
+  private async writeChunk(id: string, data: Buffer): Promise<number> {
+    const path = this.chunkPath(id);
+    await ensureDir(dirname(path));
+    const compressed = await gzip(data);
+    await writeFileAtomically(path, compressed);
+    return compressed.length;
+  }
+
+  private async readChunk(id: string): Promise<Buffer> {
+    let compressed: Buffer;
+    try {
+      compressed = await readFile(this.chunkPath(id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new RepositoryError(`Chunk ${id} is missing`);
+      }
+      throw error;
+    }
+
+    let data: Buffer;
+    try {
+      data = await gunzip(compressed);
+    } catch (error) {
+      throw new RepositoryError(`Chunk ${id} is corrupt`, error);
+    }
+    if (createHash('sha256').update(data).digest('hex') !== id) {
+      throw new RepositoryError(`Chunk ${id} is corrupt`);
+    }
+    return data;
+  }
+
+  private async writeSnapshot(snapshot: RepositorySnapshot): Promise<void> {
+    const directory = join(this.directory, 'snapshots');
+    await ensureDir(directory);
+    const file: SnapshotFile = {
+      version: REPOSITORY_VERSION,
+      ...snapshot,
+      createdAt: snapshot.createdAt.toISOString(),
+    };
+    await writeFileAtomically(this.snapshotPath(snapshot.id), JSON.stringify(file, null, 2));
+    await syncDirectory(directory);
+  }
+
+  private async listSnapshotIds(): Promise<string[]> {
+    const fileNames = await listDirectory(join(this.directory, 'snapshots'));
+    return fileNames
+      .filter((fileName) => fileName.endsWith('.json'))
+      .map((fileName) => fileName.slice(0, -'.json'.length))
+      .filter((id) => SNAPSHOT_ID_PATTERN.test(id));
+  }
+
+  // Skips the temporary files of interrupted writes
+  private async listChunkIds(): Promise<string[]> {
+    const root = join(this.directory, 'chunks');
+    const prefixes = await listDirectory(root);
+    const ids = await Promise.all(prefixes.map((prefix) => listDirectory(join(root, prefix))));
+    return ids.flat().filter((id) => CHUNK_ID_PATTERN.test(id));
+  }
+
+  // chunks/ab/abcdef..., so no directory holds more than a few hundred thousand files
+  private chunkPath(id: string): string {
+    return join(this.directory, 'chunks', id.slice(0, 2), id);
+  }
+
+  private snapshotPath(id: string): string {
+    return join(this.directory, 'snapshots', `${id}.json`);
+  }
+}
+
+export function createBackupRepository(directory: string, options?: BackupRepositoryOptions): BackupRepository {
+  return new BackupRepository(directory, options);
+}
+
+// e.g. "20240115T020000Z-1a2b3c4d"; the suffix keeps runs in the same second apart
+function createSnapshotId(createdAt: Date): string {
+  const timestamp = createdAt.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  return `${timestamp}-${randomBytes(4).toString('hex')}`;
+}
+
+// Write-then-rename so a crash never leaves a half-written file under the final name
+async function writeFileAtomically(path: string, data: string | Buffer): Promise<void> {
+  const tempPath = `${path}.tmp-${randomBytes(4).toString('hex')}`;
+  try {
+    const handle = await open(tempPath, 'wx');
+    try {
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(tempPath, path);
+  } catch (error) {
+    await removeFile(tempPath);
+    throw error;
+  }
+}
+
+// Runs fn once every earlier caller for the same key has settled, whether it failed or not
+function enqueue<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const result = (queues.get(key) ?? Promise.resolve()).then(fn);
+  const tail = result.catch(() => {});
+  queues.set(key, tail);
+  void tail.then(() => {
+    if (queues.get(key) === tail) {
+      queues.delete(key);
+    }
+  });
+  return result;
+}
+
+// The lock holds the owner's PID; a lock left by a process that no longer runs is taken over
+async function acquireLock(lockPath: string): Promise<void> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      await writeFile(lockPath, String(process.pid), { flag: 'wx' });
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const pid = Number(await readFile(lockPath, 'utf8').catch(() => ''));
+    if (isRunning(pid)) {
+      throw new RepositoryError(`Repository is locked by process ${pid}: ${lockPath}`);
+    }
+    await removeFile(lockPath);
+  }
+  throw new RepositoryError(`Could not lock the repository: ${lockPath}`);
+}
+
+function isRunning(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return false;
+  }
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function listDirectory(directory: string): Promise<string[]> {
+  try {
+    return await readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
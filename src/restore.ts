@@ -0,0 +1,301 @@
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, join } from 'node:path';
+import type {
+  OnRestoreErrorCallback,
+  OnRestoreProgressCallback,
+  OnRestoreSuccessCallback,
+  PreflightCheck,
+  PreflightReport,
+  RestoreManagerResult,
+  RestorePhase,
+  RestoreStrategy,
+  RunOptions,
+} from './types.js';
+import { createCompressor, decompressFile, detectCodec } from './compression.js';
+import {
+  DecryptionOptionsSchema,
+  ENCRYPTED_EXTENSION,
+  decryptFile,
+  isEncryptedFile,
+  type DecryptionOptions,
+} from './encryption.js';
+import { checkTempDir, createPreflightReport } from './preflight.js';
+import { Redactor, collectSecrets } from './redact.js';
+import { registry } from './registry.js';
+import { RestoreError, createPhaseSignal, formatDuration, readFileHeader, removeFile } from './utils.js';
+
+// Enough for the encryption magic
+const HEADER_LENGTH = 16;
+
+/**
+ * Restores a backup into a database with the restore strategy registered for
+ * its type. Encrypted and compressed backups are decrypted and decompressed
+ * into a temp directory first, so the file can be used as it was delivered.
+ */
+export class RestoreManager {
+  private databaseConfig?: { type: string; config: Record<string, unknown> };
+  private sourcePath?: string;
+  private targetName?: string;
+  private decryptionOptions?: DecryptionOptions;
+  private timeoutMs?: number;
+  private successCallback?: OnRestoreSuccessCallback;
+  private errorCallback?: OnRestoreErrorCallback;
+  private progressCallback?: OnRestoreProgressCallback;
+  // Knows every configured secret; scrubs errors, progress messages and metadata
+  private readonly redactor = new Redactor();
+
+  // The same config as the backup works; options only used for dumping are ignored
+  database(type: string, config: Record<string, unknown>): this {
+    this.databaseConfig = { type, config };
+    this.redactor.add(collectSecrets(config));
+    return this;
+  }
+
+  // The backup file as delivered, or a PostgreSQL directory dump; split parts are concatenated first
+  from(filePath: string): this {
+    this.sourcePath = filePath;
+    return this;
+  }
+
+  // Restore into another database than the configured one; for SQLite, another database file
+  target(database: string): this {
+    this.targetName = database;
+    return this;
+  }
+
+  // Key for encrypted backups, as given to BackupManager.encrypt()
+  decrypt(options: DecryptionOptions): this {
+    this.decryptionOptions = DecryptionOptionsSchema.parse(options);
+    const { passphrase, key, privateKey } = options;
+    this.redactor.add([passphrase, key, privateKey].filter((secret) => secret !== undefined));
+    return this;
+  }
+
+  // Limit in milliseconds for the whole restore; a timeout cancels it
+  timeout(ms: number): this {
+    this.timeoutMs = ms;
+    return this;
+  }
+
+  onSuccess(callback: OnRestoreSuccessCallback): this {
+    this.successCallback = callback;
+    return this;
+  }
+
+  onError(callback: OnRestoreErrorCallback): this {
+    this.errorCallback = callback;
+    return this;
+  }
+
+  onProgress(callback: OnRestoreProgressCallback): this {
+    this.progressCallback = callback;
+    return this;
+  }
+
+  async run(options: RunOptions = {}): Promise<RestoreManagerResult> {
+    if (!this.databaseConfig) {
+      throw new Error('Database configuration is required. Call .database() first.');
+    }
+    if (!this.sourcePath) {
+      throw new Error('Backup file is required. Call .from() first.');
+    }
+
+    const sourcePath = this.sourcePath;
+    const startTime = Date.now();
+    const phaseSignal = createPhaseSignal(options.signal, this.timeoutMs);
+    const { signal } = phaseSignal;
+    let phase: RestorePhase = 'restore';
+    let workDirectory: string | undefined;
+
+    try {
+      const strategy: RestoreStrategy = registry.getRestoreStrategy(this.databaseConfig.type);
+      const config = strategy.configSchema.parse(this.databaseConfig.config);
+      let filePath = sourcePath;
+
+      const isDirectory = (await stat(sourcePath)).isDirectory();
+      const decrypted = !isDirectory && isEncryptedFile(await readFileHeader(sourcePath, HEADER_LENGTH));
+      if (decrypted) {
+        phase = 'decrypt';
+        if (!this.decryptionOptions) {
+          throw new RestoreError('The backup is encrypted. Call .decrypt() with its key.', 'decrypt');
+        }
+        workDirectory ??= await mkdtemp(join(tmpdir(), 'wbackup-restore-'));
+        const outputPath = join(workDirectory, basename(filePath, ENCRYPTED_EXTENSION));
+        this.progress(phase, `Decrypting ${basename(filePath)}`);
+        await decryptFile(filePath, outputPath, this.decryptionOptions, signal);
+        filePath = outputPath;
+      }
+
+      const codec = await detectCodec(filePath);
+      if (codec) {
+        phase = 'decompress';
+        workDirectory ??= await mkdtemp(join(tmpdir(), 'wbackup-restore-'));
+        const outputPath = join(workDirectory, basename(filePath, createCompressor({ codec }).extension));
+        this.progress(phase, `Decompressing ${basename(filePath)} (${codec})`);
+        await decompressFile(filePath, outputPath, codec, signal);
+        if (decrypted) {
+          // Only the decompressed dump is needed from here on
+          await removeFile(filePath);
+        }
+        filePath = outputPath;
+      }
+
+      phase = 'restore';
+      const sizeBytes = isDirectory ? undefined : (await stat(filePath)).size;
+      this.progress(phase, `Restoring ${basename(sourcePath)} with ${strategy.name}`);
+      const result = await strategy.restore(config, filePath, {
+        signal,
+        target: this.targetName,
+        onProgress: (message) => this.progress('restore', message),
+      });
+      signal.throwIfAborted();
+
+      const restoreResult: RestoreManagerResult = {
+        database: result.database,
+        metadata: this.redactor.redactValue(result.metadata),
+        sourcePath,
+        sizeBytes,
+        decrypted,
+        codec,
+        durationMs: Date.now() - startTime,
+      };
+      this.progress('restore', `Restored ${restoreResult.database} in ${formatDuration(restoreResult.durationMs)}`);
+      await this.successCallback?.(restoreResult);
+      return restoreResult;
+    } catch (error) {
+      const restoreError = this.toRestoreError(error, phase, signal.aborted, phaseSignal.timedOut());
+      await this.errorCallback?.(restoreError, restoreError.phase);
+      throw restoreError;
+    } finally {
+      phaseSignal.dispose();
+      if (workDirectory) {
+        await rm(workDirectory, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Validates the configuration and checks the backup file, restore tools and
+   * the temp directory without restoring anything. Never throws for config problems.
+   */
+  async preflight(): Promise<PreflightReport> {
+    const checks: PreflightCheck[] = [];
+
+    if (this.databaseConfig) {
+      checks.push(...(await this.preflightDatabase(this.databaseConfig.type, this.databaseConfig.config)));
+    } else {
+      const message = 'Database configuration is required. Call .database() first.';
+      checks.push({ name: 'database', status: 'fail', message });
+    }
+
+    if (this.sourcePath) {
+      checks.push(...(await this.preflightSource(this.sourcePath)));
+    } else {
+      checks.push({ name: 'backup file', status: 'fail', message: 'Backup file is required. Call .from() first.' });
+    }
+
+    checks.push(await checkTempDir());
+    const redacted = checks.map((check) => ({ ...check, message: this.redactor.redact(check.message) }));
+    return createPreflightReport(redacted);
+  }
+
+  private async preflightDatabase(type: string, config: Record<string, unknown>): Promise<PreflightCheck[]> {
+    const name = `database (${type})`;
+    let strategy: RestoreStrategy;
+    try {
+      strategy = registry.getRestoreStrategy(type);
+    } catch (error) {
+      return [{ name, status: 'fail', message: errorMessage(error) }];
+    }
+
+    const parsed = strategy.configSchema.safeParse(config);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'config'}: ${issue.message}`);
+      return [{ name, status: 'fail', message: `Invalid config: ${issues.join('; ')}` }];
+    }
+
+    const checks: PreflightCheck[] = [{ name, status: 'pass', message: 'Config is valid' }];
+    if (strategy.preflight) {
+      try {
+        checks.push(...(await strategy.preflight(parsed.data, this.targetName)));
+      } catch (error) {
+        checks.push({ name, status: 'fail', message: errorMessage(error) });
+      }
+    }
+    return checks;
+  }
+
+  private async preflightSource(sourcePath: string): Promise<PreflightCheck[]> {
+    const name = 'backup file';
+    try {
+      if ((await stat(sourcePath)).isDirectory()) {
+        return [{ name, status: 'pass', message: `${sourcePath} is a directory dump` }];
+      }
+      const encrypted = isEncryptedFile(await readFileHeader(sourcePath, HEADER_LENGTH));
+      if (encrypted && !this.decryptionOptions) {
+        return [{ name, status: 'fail', message: 'The backup is encrypted. Call .decrypt() with its key.' }];
+      }
+
+      const checks: PreflightCheck[] = [{ name, status: 'pass', message: `${sourcePath} is readable` }];
+      // The codec of an encrypted backup is only known once it is decrypted
+      const codec = encrypted ? undefined : await detectCodec(sourcePath);
+      const compressorCheck = codec && (await createCompressor({ codec }).preflight?.());
+      if (compressorCheck) {
+        checks.push(compressorCheck);
+      }
+      return checks;
+    } catch (error) {
+      return [{ name, status: 'fail', message: `Backup file is not readable: ${errorMessage(error)}` }];
+    }
+  }
+
+  private toRestoreError(error: unknown, phase: RestorePhase, aborted: boolean, timedOut: boolean): RestoreError {
+    if (aborted) {
+      const message = timedOut ? `The restore timed out after ${this.timeoutMs}ms` : 'The restore was cancelled';
+      this.progress('cancelled', message);
+      return new RestoreError(message, 'cancelled', error);
+    }
+    const restorePhase = error instanceof RestoreError ? error.phase : phase;
+    return new RestoreError(this.redactor.redact(errorMessage(error)), restorePhase, error);
+  }
+
+  private progress(phase: RestorePhase, message: string): void {
+    this.progressCallback?.(phase, this.redactor.redact(message));
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Simple functional API
+export interface SimpleRestoreOptions {
+  database: string;
+  connectionString: string;
+  // Database the backup was taken from; needed by MongoDB to restore into another one
+  databaseName?: string;
+  filePath: string;
+  // Restore into this database instead
+  target?: string;
+  decryption?: DecryptionOptions;
+}
+
+export function restore(options: SimpleRestoreOptions): Promise<RestoreManagerResult> {
+  const manager = new RestoreManager()
+    .database(options.database, {
+      connectionString: options.connectionString,
+      database: options.databaseName,
+    })
+    .from(options.filePath);
+
+  if (options.target !== undefined) {
+    manager.target(options.target);
+  }
+
+  if (options.decryption !== undefined) {
+    manager.decrypt(options.decryption);
+  }
+
+  return manager.run();
+}
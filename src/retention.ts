@@ -0,0 +1,173 @@
+import { access, constants, copyFile, readdir, rename, stat } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { z } from 'zod';
+import type { ArchivedBackup, PruneOptions, PruneResult } from './types.js';
+import { ensureDir, removeFile } from './utils.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const keepCount = z.number().int().min(0).optional();
+
+export const RetentionPolicySchema = z.object({
+  // Dedicated directory retained backups are moved into; every file in it is subject to pruning
+  directory: z.string().min(1, 'Archive directory is required'),
+  keepLast: keepCount,
+  // Newest backup of each of the last N UTC days, ISO weeks and months that have one
+  keepDaily: keepCount,
+  keepWeekly: keepCount,
+  keepMonthly: keepCount,
+  // Hard limits applied after the keep rules; they never delete the newest backup
+  maxAgeDays: z.number().positive().optional(),
+  maxTotalBytes: z.number().int().positive().optional(),
+});
+
+export type RetentionPolicy = z.infer<typeof RetentionPolicySchema>;
+
+/**
+ * Decides which backups a policy keeps. Without any keep rule every backup is
+ * kept, so a policy with only maxAgeDays or maxTotalBytes acts as a plain cap.
+ */
+export function planRetention(
+  backups: ArchivedBackup[],
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): Omit<PruneResult, 'dryRun'> {
+  const sorted = [...backups].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const buckets: Array<[number | undefined, (date: Date) => string]> = [
+    [policy.keepDaily, dayKey],
+    [policy.keepWeekly, weekKey],
+    [policy.keepMonthly, monthKey],
+  ];
+  const hasKeepRules = policy.keepLast !== undefined || buckets.some(([count]) => count !== undefined);
+  const kept = new Set<ArchivedBackup>(hasKeepRules ? sorted.slice(0, policy.keepLast ?? 0) : sorted);
+
+  for (const [count, key] of buckets) {
+    if (!count) continue;
+    const seen = new Set<string>();
+    for (const backup of sorted) {
+      const bucket = key(backup.createdAt);
+      if (!seen.has(bucket)) {
+        if (seen.size === count) break;
+        seen.add(bucket);
+        kept.add(backup);
+      }
+    }
+  }
+
+  const [newest] = sorted;
+  if (policy.maxAgeDays !== undefined) {
+    const cutoff = now - policy.maxAgeDays * DAY_MS;
+    for (const backup of sorted) {
+      if (backup !== newest && backup.createdAt.getTime() < cutoff) {
+        kept.delete(backup);
+      }
+    }
+  }
+  if (policy.maxTotalBytes !== undefined) {
+    let totalBytes = sorted.filter((backup) => kept.has(backup)).reduce((sum, b) => sum + b.sizeBytes, 0);
+    // Drop the oldest kept backups until the rest fit
+    for (const backup of [...sorted].reverse()) {
+      if (totalBytes <= policy.maxTotalBytes) break;
+      if (backup !== newest && kept.has(backup)) {
+        kept.delete(backup);
+        totalBytes -= backup.sizeBytes;
+      }
+    }
+  }
+
+  return {
+    kept: sorted.filter((backup) => kept.has(backup)),
+    deleted: sorted.filter((backup) => !kept.has(backup)),
+  };
+}
+
+// Regular files in the archive directory; hidden files and subdirectories are left alone
+export async function listArchivedBackups(directory: string): Promise<ArchivedBackup[]> {
+  let fileNames: string[];
+  try {
+    const entries = await readdir(directory, { withFileTypes: true });
+    fileNames = entries.filter((entry) => entry.isFile() && !entry.name.startsWith('.')).map((entry) => entry.name);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  return Promise.all(
+    fileNames.map(async (fileName) => {
+      const path = join(directory, fileName);
+      const stats = await stat(path);
+      return { path, fileName, sizeBytes: stats.size, createdAt: stats.mtime };
+    })
+  );
+}
+
+export async function pruneBackups(policy: RetentionPolicy, options: PruneOptions = {}): Promise<PruneResult> {
+  const validatedPolicy = RetentionPolicySchema.parse(policy);
+  const dryRun = options.dryRun ?? false;
+  const plan = planRetention(await listArchivedBackups(validatedPolicy.directory), validatedPolicy);
+
+  if (!dryRun) {
+    await Promise.all(plan.deleted.map((backup) => removeFile(backup.path)));
+  }
+  return { ...plan, dryRun };
+}
+
+// Moves a finished backup into the archive directory and returns its new path. An archived
+// backup with the same name is kept: the new one gets a numbered suffix, e.g. "orders-1.sql.gz"
+export async function archiveBackup(filePath: string, directory: string): Promise<string> {
+  await ensureDir(directory);
+  const archivedPath = await freePath(directory, basename(filePath));
+
+  try {
+    await rename(filePath, archivedPath);
+  } catch (error) {
+    // The temp directory is often on another filesystem than the archive
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await copyFile(filePath, archivedPath, constants.COPYFILE_EXCL);
+    await removeFile(filePath);
+  }
+  return archivedPath;
+}
+
+async function freePath(directory: string, fileName: string): Promise<string> {
+  // The suffix goes before every extension, so ".sql.gz" still tells the format
+  const dot = fileName.indexOf('.', 1);
+  const stem = dot === -1 ? fileName : fileName.slice(0, dot);
+  const extension = dot === -1 ? '' : fileName.slice(dot);
+
+  let path = join(directory, fileName);
+  for (let copy = 1; await exists(path); copy++) {
+    path = join(directory, `${stem}-${copy}${extension}`);
+  }
+  return path;
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+// ISO 8601 week, e.g. "2024-W01"; the week belongs to the year of its Thursday
+function weekKey(date: Date): string {
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - yearStart) / (7 * DAY_MS)) + 1;
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
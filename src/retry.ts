@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { BackupError, sleep } from './utils.js';
+
+export const RetryConfigSchema = z.object({
+  maxAttempts: z.number().int().min(1).default(5),
+  initialDelayMs: z.number().min(0).default(1000),
+  maxDelayMs: z.number().min(0).default(60000),
+  multiplier: z.number().min(1).default(2),
+  jitter: z.boolean().default(true),
+});
+
+export type RetryConfig = z.infer<typeof RetryConfigSchema>;
+
+// Thrown by delivery strategies for failures worth another attempt (429, 5xx)
+export class RetryableError extends BackupError {
+  constructor(
+    message: string,
+    public readonly retryAfterMs?: number,
+    cause?: unknown
+  ) {
+    super(message, 'delivery', cause);
+    this.name = 'RetryableError';
+  }
+}
+
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof RetryableError) {
+    return true;
+  }
+  // undici's fetch rejects with TypeError('fetch failed') on network failures (DNS, reset, timeout);
+  // any other TypeError is a programming error
+  return error instanceof TypeError && error.message === 'fetch failed' && error.cause !== undefined;
+}
+
+export function computeBackoff(attempt: number, config: RetryConfig): number {
+  const exponential = config.initialDelayMs * Math.pow(config.multiplier, attempt - 1);
+  const delay = Math.min(config.maxDelayMs, exponential);
+
+  // Equal jitter: keep half the delay, randomize the other half
+  return config.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+export interface RetryOptions {
+  config: RetryConfig;
+  // Describes the operation in progress messages, e.g. "Uploading part 2/8"
+  label: string;
+  onProgress?: ((message: string) => void) | undefined;
+  // Called before each backoff wait with the attempt that failed
+  onRetry?: ((attempt: number, delayMs: number) => void) | undefined;
+  // Stops retrying and interrupts the backoff wait
+  signal?: AbortSignal | undefined;
+}
+
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const { config, label, onProgress, onRetry, signal } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    onProgress?.(`${label} (attempt ${attempt}/${config.maxAttempts})`);
+
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= config.maxAttempts || signal?.aborted || !isRetryable(error)) {
+        throw error;
+      }
+
+      const hint = error instanceof RetryableError ? error.retryAfterMs : undefined;
+      // A server hint is honoured up to maxDelayMs, so a huge Retry-After cannot stall the run
+      const backoff = hint === undefined ? computeBackoff(attempt, config) : Math.min(hint, config.maxDelayMs);
+      const delay = Math.round(backoff);
+      const message = error instanceof Error ? error.message : String(error);
+      onProgress?.(`${label} failed: ${message}. Retrying in ${delay}ms`);
+      onRetry?.(attempt, delay);
+
+      await sleep(delay, signal);
+    }
+  }
+}
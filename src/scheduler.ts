@@ -0,0 +1,213 @@
+import type {
+  CronScheduleOptions,
+  OnJobErrorCallback,
+  OnJobSkipCallback,
+  ScheduledJobStatus,
+  ScheduleOptions,
+  ScheduleOverlap,
+  SchedulerClock,
+} from './types.js';
+import type { BackupManager } from './manager.js';
+import { assertTimeZone, nextCronRun, parseCron } from './cron.js';
+import { BackupError } from './utils.js';
+
+// setTimeout overflows above ~24.8 days, longer waits are re-armed in steps
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+};
+
+interface ScheduledJob {
+  readonly id: string;
+  readonly manager: BackupManager;
+  readonly overlap: ScheduleOverlap;
+  readonly next: (after: number) => number;
+  timer?: unknown;
+  nextRunAt?: number;
+  running?: Promise<void>;
+  queued: boolean;
+}
+
+export interface BackupSchedulerOptions {
+  clock?: SchedulerClock;
+}
+
+export class BackupScheduler {
+  private readonly jobs = new Map<string, ScheduledJob>();
+  private readonly clock: SchedulerClock;
+  private started = false;
+  private controller = new AbortController();
+  private onJobErrorCallback?: OnJobErrorCallback;
+  private onJobSkipCallback?: OnJobSkipCallback;
+
+  constructor(options: BackupSchedulerOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+  }
+
+  cron(id: string, expression: string, manager: BackupManager, options: CronScheduleOptions = {}): this {
+    const cron = parseCron(expression);
+    const timeZone = options.timeZone;
+    if (timeZone !== undefined) {
+      assertTimeZone(timeZone);
+    }
+
+    return this.addJob(id, manager, options, (after) => nextCronRun(cron, new Date(after), timeZone).getTime());
+  }
+
+  every(id: string, intervalMs: number, manager: BackupManager, options: ScheduleOptions = {}): this {
+    if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+      throw new Error(`Interval must be a positive number of milliseconds, got ${intervalMs}`);
+    }
+
+    return this.addJob(id, manager, options, (after) => after + intervalMs);
+  }
+
+  onError(callback: OnJobErrorCallback): this {
+    this.onJobErrorCallback = callback;
+    return this;
+  }
+
+  onSkip(callback: OnJobSkipCallback): this {
+    this.onJobSkipCallback = callback;
+    return this;
+  }
+
+  start(): this {
+    if (!this.started) {
+      this.started = true;
+      this.controller = new AbortController();
+      for (const job of this.jobs.values()) {
+        this.arm(job);
+      }
+    }
+    return this;
+  }
+
+  // Stops scheduling and waits for in-flight runs, which clean up their own files.
+  // With cancel, in-flight runs are aborted instead of allowed to finish.
+  async stop(options: { cancel?: boolean } = {}): Promise<void> {
+    this.started = false;
+    if (options.cancel) {
+      this.controller.abort();
+    }
+
+    const running: Promise<void>[] = [];
+    for (const job of this.jobs.values()) {
+      if (job.timer !== undefined) {
+        this.clock.clearTimeout(job.timer);
+        delete job.timer;
+      }
+      delete job.nextRunAt;
+      job.queued = false;
+      if (job.running) {
+        running.push(job.running);
+      }
+    }
+
+    await Promise.all(running);
+  }
+
+  status(): ScheduledJobStatus[] {
+    return Array.from(this.jobs.values(), (job) => {
+      const status = { id: job.id, running: job.running !== undefined };
+      return job.nextRunAt === undefined ? status : { ...status, nextRunAt: new Date(job.nextRunAt) };
+    });
+  }
+
+  nextRun(id: string): Date | undefined {
+    const nextRunAt = this.getJob(id).nextRunAt;
+    return nextRunAt === undefined ? undefined : new Date(nextRunAt);
+  }
+
+  private addJob(
+    id: string,
+    manager: BackupManager,
+    options: ScheduleOptions,
+    next: (after: number) => number
+  ): this {
+    if (this.jobs.has(id)) {
+      throw new Error(`Scheduled job "${id}" is already added`);
+    }
+
+    const job: ScheduledJob = { id, manager, overlap: options.overlap ?? 'skip', next, queued: false };
+    this.jobs.set(id, job);
+
+    if (this.started) {
+      this.arm(job);
+    }
+    return this;
+  }
+
+  private getJob(id: string): ScheduledJob {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Unknown scheduled job "${id}"`);
+    }
+    return job;
+  }
+
+  private arm(job: ScheduledJob): void {
+    job.nextRunAt = job.next(this.clock.now());
+    this.setTimer(job);
+  }
+
+  private setTimer(job: ScheduledJob): void {
+    const delay = Math.max(0, (job.nextRunAt ?? 0) - this.clock.now());
+    job.timer = this.clock.setTimeout(() => this.tick(job), Math.min(delay, MAX_TIMER_DELAY));
+  }
+
+  private tick(job: ScheduledJob): void {
+    delete job.timer;
+    if (!this.started || job.nextRunAt === undefined) {
+      return;
+    }
+
+    if (this.clock.now() < job.nextRunAt) {
+      this.setTimer(job);
+      return;
+    }
+
+    // Armed first, so the job stays scheduled whatever the callbacks do
+    this.arm(job);
+    this.trigger(job);
+  }
+
+  private trigger(job: ScheduledJob): void {
+    if (job.running) {
+      if (job.overlap === 'queue') {
+        job.queued = true;
+      } else {
+        try {
+          this.onJobSkipCallback?.(job.id);
+        } catch {
+          // A failing skip callback must not escape the timer
+        }
+      }
+      return;
+    }
+
+    job.running = this.execute(job);
+  }
+
+  private async execute(job: ScheduledJob): Promise<void> {
+    try {
+      await job.manager.run({ signal: this.controller.signal });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const phase = error instanceof BackupError ? error.phase : 'backup';
+      // Called inside the chain, so a callback that throws synchronously is caught as well
+      await Promise.resolve()
+        .then(() => this.onJobErrorCallback?.(job.id, err, phase))
+        .catch(() => {});
+    } finally {
+      delete job.running;
+      if (job.queued && this.started) {
+        job.queued = false;
+        job.running = this.execute(job);
+      }
+    }
+  }
+}
@@ -1,11 +1,15 @@
 import { basename } from 'node:path';
 import { z } from 'zod';
-import type { BackupResult, BackupStrategy } from '../../types.js';
+import type { BackupContext, BackupResult, BackupStream, BackupStrategy, PreflightCheck } from '../../types.js';
+import { checkExecutable, describeCommand } from '../../preflight.js';
+import { trackDumpProgress } from '../../progress.js';
+import { type CompressedOutput, maybeCompress } from '../../compression.js';
 import {
   generateTempPath,
-  maybeCompress,
+  getToolVersions,
   removeFile,
   runCommand,
+  spawnCommandStream,
 } from '../../utils.js';
 
 const MongoConfigSchema = z.object({
@@ -19,35 +23,61 @@ const MongoConfigSchema = z.object({
 
 export type MongoConfig = z.infer<typeof MongoConfigSchema>;
 
+const NOT_FOUND_MESSAGE = 'mongodump not found. Please install MongoDB Database Tools.';
+const MONGOSH_NOT_FOUND_MESSAGE = 'mongosh not found. Please install the MongoDB Shell to run health checks.';
+
 export class MongoBackupStrategy implements BackupStrategy<MongoConfig> {
   readonly name = 'mongodb';
   readonly configSchema = MongoConfigSchema;
 
-  async backup(config: MongoConfig): Promise<BackupResult> {
+  databaseName(config: MongoConfig): string {
+    if (config.database) {
+      return config.database;
+    }
+
+    try {
+      const url = new URL(config.connectionString);
+      const dbFromPath = url.pathname.slice(1).split('?')[0];
+      return dbFromPath || 'all-databases';
+    } catch {
+      return 'mongodb';
+    }
+  }
+
+  async backup(config: MongoConfig, context: BackupContext = {}): Promise<BackupResult> {
     const validatedConfig = this.configSchema.parse(config);
     const startTime = Date.now();
 
-    const archivePath = generateTempPath('mongodb-backup', '.archive');
+    const database = this.databaseName(validatedConfig);
+    const archivePath = context.outputPath?.(database, '.archive') ?? generateTempPath('mongodb-backup', '.archive');
     const args = this.buildArgs(validatedConfig, archivePath);
 
-    await runCommand({
-      command: 'mongodump',
-      args,
-      notFoundMessage: 'mongodump not found. Please install MongoDB Database Tools.',
-    });
+    let output: CompressedOutput;
+    try {
+      await trackDumpProgress(archivePath, context, () =>
+        runCommand({
+          command: 'mongodump',
+          args,
+          notFoundMessage: NOT_FOUND_MESSAGE,
+          signal: context.signal,
+        })
+      );
 
-    const { finalPath, compressed, sizeBytes } = await maybeCompress(
-      archivePath,
-      validatedConfig.compress
-    );
+      output = await maybeCompress(archivePath, validatedConfig.compress, context);
+    } catch (error) {
+      await removeFile(archivePath);
+      throw error;
+    }
+    const { finalPath, compressed, codec, sizeBytes } = output;
 
     return {
       filePath: finalPath,
       fileName: basename(finalPath),
       sizeBytes,
-      database: this.extractDatabaseName(validatedConfig),
+      database,
       createdAt: new Date(),
       compressed,
+      codec,
       metadata: {
         type: 'mongodb',
         duration: Date.now() - startTime,
@@ -56,12 +86,57 @@ export class MongoBackupStrategy implements BackupStrategy<MongoConfig> {
     };
   }
 
+  async backupStream(config: MongoConfig, context: BackupContext = {}): Promise<BackupStream> {
+    const validatedConfig = this.configSchema.parse(config);
+    const database = this.databaseName(validatedConfig);
+    const archivePath = context.outputPath?.(database, '.archive') ?? generateTempPath('mongodb-backup', '.archive');
+    const { stream, done } = spawnCommandStream({
+      command: 'mongodump',
+      args: this.buildArgs(validatedConfig),
+      notFoundMessage: NOT_FOUND_MESSAGE,
+      signal: context.signal,
+    });
+
+    return {
+      stream,
+      done,
+      fileName: basename(archivePath),
+      database,
+      metadata: { type: 'mongodb', collection: validatedConfig.collection },
+    };
+  }
+
   async cleanup(filePath: string): Promise<void> {
     await removeFile(filePath);
   }
 
-  private buildArgs(config: MongoConfig, archivePath: string): string[] {
-    const args: string[] = [`--uri=${config.connectionString}`, `--archive=${archivePath}`];
+  async healthCheck(config: MongoConfig, signal?: AbortSignal): Promise<void> {
+    const validatedConfig = this.configSchema.parse(config);
+    const args = ['--quiet', '--eval=db.adminCommand({ ping: 1 })'];
+    if (validatedConfig.authenticationDatabase) {
+      args.push(`--authenticationDatabase=${validatedConfig.authenticationDatabase}`);
+    }
+    args.push(validatedConfig.connectionString);
+
+    // mongodump has no connection-only mode, so ping through the shell
+    await runCommand({ command: 'mongosh', args, notFoundMessage: MONGOSH_NOT_FOUND_MESSAGE, signal });
+  }
+
+  async toolVersions(): Promise<Record<string, string>> {
+    return getToolVersions(['mongodump']);
+  }
+
+  async preflight(config: MongoConfig): Promise<PreflightCheck[]> {
+    const validatedConfig = this.configSchema.parse(config);
+    const args = this.buildArgs(validatedConfig, generateTempPath('mongodb-backup', '.archive'));
+
+    return [await checkExecutable('mongodump', NOT_FOUND_MESSAGE), describeCommand('mongodump', args)];
+  }
+
+  // A bare --archive writes the archive to stdout
+  private buildArgs(config: MongoConfig, archivePath?: string): string[] {
+    const archive = archivePath === undefined ? '--archive' : `--archive=${archivePath}`;
+    const args: string[] = [`--uri=${config.connectionString}`, archive];
 
     if (config.database) {
       args.push(`--db=${config.database}`);
@@ -76,20 +151,6 @@ export class MongoBackupStrategy implements BackupStrategy<MongoConfig> {
     args.push(...config.additionalArgs);
     return args;
   }
-
-  private extractDatabaseName(config: MongoConfig): string {
-    if (config.database) {
-      return config.database;
-    }
-
-    try {
-      const url = new URL(config.connectionString);
-      const dbFromPath = url.pathname.slice(1).split('?')[0];
-      return dbFromPath || 'all-databases';
-    } catch {
-      return 'mongodb';
-    }
-  }
 }
 
 export function createMongoBackupStrategy(): BackupStrategy<MongoConfig> {
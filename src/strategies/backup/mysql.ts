@@ -22,12 +22,16 @@
 
 import { basename } from 'node:path';
 import { z } from 'zod';
-import type { BackupResult, BackupStrategy } from '../../types.js';
+import type { BackupContext, BackupResult, BackupStream, BackupStrategy, PreflightCheck } from '../../types.js';
+import { checkExecutable, describeCommand } from '../../preflight.js';
+import { trackDumpProgress } from '../../progress.js';
+import { type CompressedOutput, maybeCompress } from '../../compression.js';
 import {
   generateTempPath,
-  maybeCompress,
+  getToolVersions,
   removeFile,
   runCommand,
+  spawnCommandStream,
 } from '../../utils.js';
 
 const MySQLConfigSchema = z.object({
@@ -43,28 +47,44 @@ const MySQLConfigSchema = z.object({
 
 export type MySQLConfig = z.infer<typeof MySQLConfigSchema>;
 
+const NOT_FOUND_MESSAGE = 'mysqldump not found. Please install MySQL client tools.';
+const MYSQL_NOT_FOUND_MESSAGE = 'mysql not found. Please install MySQL client tools.';
+const HEALTH_CHECK_CONNECT_TIMEOUT_SECONDS = 10;
+
 export class MySQLBackupStrategy implements BackupStrategy<MySQLConfig> {
   readonly name = 'mysql';
   readonly configSchema = MySQLConfigSchema;
 
-  async backup(config: MySQLConfig): Promise<BackupResult> {
+  databaseName(config: MySQLConfig): string {
+    return config.database;
+  }
+
+  async backup(config: MySQLConfig, context: BackupContext = {}): Promise<BackupResult> {
     const validatedConfig = this.configSchema.parse(config);
     const startTime = Date.now();
 
-    const outputPath = generateTempPath('mysql-backup', '.sql');
+    const outputPath =
+      context.outputPath?.(validatedConfig.database, '.sql') ?? generateTempPath('mysql-backup', '.sql');
     const args = this.buildArgs(validatedConfig, outputPath);
 
-    await runCommand({
-      command: 'mysqldump',
-      args,
-      env: { ...process.env, MYSQL_PWD: validatedConfig.password },
-      notFoundMessage: 'mysqldump not found. Please install MySQL client tools.',
-    });
+    let output: CompressedOutput;
+    try {
+      await trackDumpProgress(outputPath, context, () =>
+        runCommand({
+          command: 'mysqldump',
+          args,
+          env: { ...process.env, MYSQL_PWD: validatedConfig.password },
+          notFoundMessage: NOT_FOUND_MESSAGE,
+          signal: context.signal,
+        })
+      );
 
-    const { finalPath, compressed, sizeBytes } = await maybeCompress(
-      outputPath,
-      validatedConfig.compress
-    );
+      output = await maybeCompress(outputPath, validatedConfig.compress, context);
+    } catch (error) {
+      await removeFile(outputPath);
+      throw error;
+    }
+    const { finalPath, compressed, codec, sizeBytes } = output;
 
     return {
       filePath: finalPath,
@@ -73,6 +93,7 @@ export class MySQLBackupStrategy implements BackupStrategy<MySQLConfig> {
       database: validatedConfig.database,
       createdAt: new Date(),
       compressed,
+      codec,
       metadata: {
         type: 'mysql',
         duration: Date.now() - startTime,
@@ -82,21 +103,73 @@ export class MySQLBackupStrategy implements BackupStrategy<MySQLConfig> {
     };
   }
 
+  async backupStream(config: MySQLConfig, context: BackupContext = {}): Promise<BackupStream> {
+    const validatedConfig = this.configSchema.parse(config);
+    const outputPath =
+      context.outputPath?.(validatedConfig.database, '.sql') ?? generateTempPath('mysql-backup', '.sql');
+    const { stream, done } = spawnCommandStream({
+      command: 'mysqldump',
+      args: this.buildArgs(validatedConfig),
+      env: { ...process.env, MYSQL_PWD: validatedConfig.password },
+      notFoundMessage: NOT_FOUND_MESSAGE,
+      signal: context.signal,
+    });
+
+    return {
+      stream,
+      done,
+      fileName: basename(outputPath),
+      database: validatedConfig.database,
+      metadata: { type: 'mysql', host: validatedConfig.host, port: validatedConfig.port },
+    };
+  }
+
   async cleanup(filePath: string): Promise<void> {
     await removeFile(filePath);
   }
 
-  private buildArgs(config: MySQLConfig, outputPath: string): string[] {
-    const args: string[] = [
-      `--host=${config.host}`,
-      `--port=${config.port}`,
-      `--user=${config.user}`,
-      `--result-file=${outputPath}`,
-      '--single-transaction',
-      '--quick',
-      '--routines',
-      '--triggers',
+  async healthCheck(config: MySQLConfig, signal?: AbortSignal): Promise<void> {
+    const validatedConfig = this.configSchema.parse(config);
+    const args = [
+      `--host=${validatedConfig.host}`,
+      `--port=${validatedConfig.port}`,
+      `--user=${validatedConfig.user}`,
+      `--connect-timeout=${HEALTH_CHECK_CONNECT_TIMEOUT_SECONDS}`,
+      '--execute=SELECT 1',
     ];
+    if (validatedConfig.ssl) {
+      args.push('--ssl-mode=REQUIRED');
+    }
+    args.push(validatedConfig.database);
+
+    await runCommand({
+      command: 'mysql',
+      args,
+      env: { ...process.env, MYSQL_PWD: validatedConfig.password },
+      notFoundMessage: MYSQL_NOT_FOUND_MESSAGE,
+      signal,
+    });
+  }
+
+  async toolVersions(): Promise<Record<string, string>> {
+    return getToolVersions(['mysqldump']);
+  }
+
+  async preflight(config: MySQLConfig): Promise<PreflightCheck[]> {
+    const validatedConfig = this.configSchema.parse(config);
+    const args = this.buildArgs(validatedConfig, generateTempPath('mysql-backup', '.sql'));
+
+    // The password is passed through MYSQL_PWD, never on the command line
+    return [await checkExecutable('mysqldump', NOT_FOUND_MESSAGE), describeCommand('mysqldump', args)];
+  }
+
+  // Without an output path mysqldump writes to stdout
+  private buildArgs(config: MySQLConfig, outputPath?: string): string[] {
+    const args: string[] = [`--host=${config.host}`, `--port=${config.port}`, `--user=${config.user}`];
+    if (outputPath !== undefined) {
+      args.push(`--result-file=${outputPath}`);
+    }
+    args.push('--single-transaction', '--quick', '--routines', '--triggers');
 
     if (config.ssl) {
       args.push('--ssl-mode=REQUIRED');
@@ -1,11 +1,16 @@
 import { basename } from 'node:path';
 import { z } from 'zod';
-import type { BackupResult, BackupStrategy } from '../../types.js';
+import type { BackupContext, BackupResult, BackupStream, BackupStrategy, PreflightCheck } from '../../types.js';
+import { checkExecutable, describeCommand } from '../../preflight.js';
+import { trackDumpProgress } from '../../progress.js';
+import { type CompressedOutput, maybeCompress } from '../../compression.js';
 import {
+  BackupError,
   generateTempPath,
-  maybeCompress,
+  getToolVersions,
   removeFile,
   runCommand,
+  spawnCommandStream,
 } from '../../utils.js';
 
 const PostgresConfigSchema = z.object({
@@ -22,6 +27,10 @@ const PostgresConfigSchema = z.object({
 
 export type PostgresConfig = z.infer<typeof PostgresConfigSchema>;
 
+const NOT_FOUND_MESSAGE = 'pg_dump not found. Please install PostgreSQL client tools.';
+const PSQL_NOT_FOUND_MESSAGE = 'psql not found. Please install PostgreSQL client tools.';
+const HEALTH_CHECK_CONNECT_TIMEOUT_SECONDS = '10';
+
 const FORMAT_EXTENSIONS: Record<string, string> = {
   plain: '.sql',
   custom: '.dump',
@@ -33,33 +42,52 @@ export class PostgresBackupStrategy implements BackupStrategy<PostgresConfig> {
   readonly name = 'postgresql';
   readonly configSchema = PostgresConfigSchema;
 
-  async backup(config: PostgresConfig): Promise<BackupResult> {
+  databaseName(config: PostgresConfig): string {
+    return this.extractDatabaseName(config.connectionString);
+  }
+
+  async backup(config: PostgresConfig, context: BackupContext = {}): Promise<BackupResult> {
     const validatedConfig = this.configSchema.parse(config);
     const startTime = Date.now();
 
     const extension = FORMAT_EXTENSIONS[validatedConfig.format] ?? '.dump';
-    const outputPath = generateTempPath('postgres-backup', extension);
+    const database = this.databaseName(validatedConfig);
+    const outputPath = context.outputPath?.(database, extension) ?? generateTempPath('postgres-backup', extension);
     const args = this.buildArgs(validatedConfig, outputPath);
     const env = this.buildEnv(validatedConfig);
 
-    await runCommand({
-      command: 'pg_dump',
-      args,
-      env,
-      notFoundMessage: 'pg_dump not found. Please install PostgreSQL client tools.',
-    });
-
     // Only compress plain SQL format - others have built-in compression
-    const shouldCompress = validatedConfig.compress && validatedConfig.format === 'plain';
-    const { finalPath, compressed, sizeBytes } = await maybeCompress(outputPath, shouldCompress);
+    const skipReason = this.compressionSkipReason(validatedConfig.format);
+    // A directory dump has no single file whose size can be watched
+    const dumpContext = validatedConfig.format === 'directory' ? {} : context;
+
+    let output: CompressedOutput;
+    try {
+      await trackDumpProgress(outputPath, dumpContext, () =>
+        runCommand({
+          command: 'pg_dump',
+          args,
+          env,
+          notFoundMessage: NOT_FOUND_MESSAGE,
+          signal: context.signal,
+        })
+      );
+
+      output = await maybeCompress(outputPath, validatedConfig.compress, context, skipReason);
+    } catch (error) {
+      await removeFile(outputPath);
+      throw error;
+    }
+    const { finalPath, compressed, codec, sizeBytes } = output;
 
     return {
       filePath: finalPath,
       fileName: basename(finalPath),
       sizeBytes,
-      database: this.extractDatabaseName(validatedConfig.connectionString),
+      database,
       createdAt: new Date(),
       compressed,
+      codec,
       metadata: {
         type: 'postgresql',
         format: validatedConfig.format,
@@ -70,12 +98,90 @@ export class PostgresBackupStrategy implements BackupStrategy<PostgresConfig> {
     };
   }
 
+  // The directory format writes one file per table and cannot be streamed
+  async backupStream(config: PostgresConfig, context: BackupContext = {}): Promise<BackupStream> {
+    const validatedConfig = this.configSchema.parse(config);
+    if (validatedConfig.format === 'directory') {
+      throw new BackupError('The directory format cannot be streamed; use plain, custom or tar', 'backup');
+    }
+
+    const extension = FORMAT_EXTENSIONS[validatedConfig.format] ?? '.dump';
+    const database = this.databaseName(validatedConfig);
+    const outputPath = context.outputPath?.(database, extension) ?? generateTempPath('postgres-backup', extension);
+    const { stream, done } = spawnCommandStream({
+      command: 'pg_dump',
+      args: this.buildArgs(validatedConfig),
+      env: this.buildEnv(validatedConfig),
+      notFoundMessage: NOT_FOUND_MESSAGE,
+      signal: context.signal,
+    });
+
+    return {
+      stream,
+      done,
+      fileName: basename(outputPath),
+      database,
+      compressionSkipReason: this.compressionSkipReason(validatedConfig.format),
+      metadata: {
+        type: 'postgresql',
+        format: validatedConfig.format,
+        schema: validatedConfig.schema,
+        table: validatedConfig.table,
+      },
+    };
+  }
+
   async cleanup(filePath: string): Promise<void> {
     await removeFile(filePath);
   }
 
-  private buildArgs(config: PostgresConfig, outputPath: string): string[] {
-    const args: string[] = [`--format=${config.format}`, `--file=${outputPath}`];
+  async healthCheck(config: PostgresConfig, signal?: AbortSignal): Promise<void> {
+    const validatedConfig = this.configSchema.parse(config);
+
+    await runCommand({
+      command: 'psql',
+      args: ['--no-psqlrc', '--no-password', '--tuples-only', '--command=SELECT 1', validatedConfig.connectionString],
+      env: { ...this.buildEnv(validatedConfig), PGCONNECT_TIMEOUT: HEALTH_CHECK_CONNECT_TIMEOUT_SECONDS },
+      notFoundMessage: PSQL_NOT_FOUND_MESSAGE,
+      signal,
+    });
+  }
+
+  async toolVersions(): Promise<Record<string, string>> {
+    return getToolVersions(['pg_dump']);
+  }
+
+  async preflight(config: PostgresConfig): Promise<PreflightCheck[]> {
+    const validatedConfig = this.configSchema.parse(config);
+    const extension = FORMAT_EXTENSIONS[validatedConfig.format] ?? '.dump';
+    const args = this.buildArgs(validatedConfig, generateTempPath('postgres-backup', extension));
+
+    const checks = [await checkExecutable('pg_dump', NOT_FOUND_MESSAGE), describeCommand('pg_dump', args)];
+    if (validatedConfig.dataOnly && validatedConfig.schemaOnly) {
+      checks.push({ name: 'pg_dump options', status: 'fail', message: 'dataOnly and schemaOnly cannot be combined' });
+    }
+    const skipReason = this.compressionSkipReason(validatedConfig.format);
+    if (validatedConfig.compress && skipReason !== undefined) {
+      checks.push({ name: 'compression', status: 'warn', message: `Compression is skipped: ${skipReason}` });
+    }
+    return checks;
+  }
+
+  private compressionSkipReason(format: PostgresConfig['format']): string | undefined {
+    if (format === 'plain') {
+      return undefined;
+    }
+    return format === 'tar'
+      ? 'the tar format is kept as written so pg_restore can read it directly'
+      : `pg_dump compresses the ${format} format itself`;
+  }
+
+  // Without an output path pg_dump writes to stdout
+  private buildArgs(config: PostgresConfig, outputPath?: string): string[] {
+    const args: string[] = [`--format=${config.format}`];
+    if (outputPath !== undefined) {
+      args.push(`--file=${outputPath}`);
+    }
 
     if (config.schema) {
       args.push(`--schema=${config.schema}`);
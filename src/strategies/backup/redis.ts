@@ -1,15 +1,19 @@
 import { basename, join, extname } from 'node:path';
-import { copyFile } from 'node:fs/promises';
+import { access, constants, copyFile } from 'node:fs/promises';
 import { z } from 'zod';
-import type { BackupResult, BackupStrategy } from '../../types.js';
+import type { BackupContext, BackupResult, BackupStrategy, PreflightCheck } from '../../types.js';
+import { checkModule } from '../../preflight.js';
+import { trackDumpProgress } from '../../progress.js';
+import { type CompressedOutput, maybeCompress } from '../../compression.js';
 import {
   BackupError,
   generateTempPath,
-  maybeCompress,
+  getFileSize,
   removeFile,
+  sleep,
 } from '../../utils.js';
 
-function validateRdbPath(rdbPath: string): void {
+export function validateRdbPath(rdbPath: string): void {
   if (extname(rdbPath).toLowerCase() !== '.rdb') {
     throw new BackupError(
       'Invalid RDB path: must end with .rdb extension',
@@ -41,79 +45,99 @@ const CONNECT_TIMEOUT = 10000;
 const SAVE_TIMEOUT = 300000; // 5 minutes
 const POLL_INTERVAL = 500;
 
+const MODULE_MISSING_MESSAGE = 'ioredis is required for Redis backups. Install it with: pnpm add ioredis';
+
 export class RedisBackupStrategy implements BackupStrategy<RedisConfig> {
   readonly name = 'redis';
   readonly configSchema = RedisConfigSchema;
 
-  async backup(config: RedisConfig): Promise<BackupResult> {
+  databaseName(config: RedisConfig): string {
+    return `redis-db${config.database}`;
+  }
+
+  async backup(config: RedisConfig, context: BackupContext = {}): Promise<BackupResult> {
     const validatedConfig = this.configSchema.parse(config);
     const startTime = Date.now();
 
+    const redis = await this.connect(validatedConfig);
+
+    try {
+      const rdbPath = validatedConfig.rdbPath || (await this.discoverRdbPath(redis));
+      validateRdbPath(rdbPath);
+
+      await this.triggerAndWaitForSave(redis, context.signal);
+
+      const database = this.databaseName(validatedConfig);
+      const outputPath = context.outputPath?.(database, '.rdb') ?? generateTempPath('redis-backup', '.rdb');
+      let output: CompressedOutput;
+      try {
+        const rdbBytes = await getFileSize(rdbPath);
+        await trackDumpProgress(outputPath, context, () => copyFile(rdbPath, outputPath), rdbBytes);
+        context.signal?.throwIfAborted();
+        output = await maybeCompress(outputPath, validatedConfig.compress, context);
+      } catch (error) {
+        await removeFile(outputPath);
+        throw error;
+      }
+      const { finalPath, compressed, codec, sizeBytes } = output;
+
+      return {
+        filePath: finalPath,
+        fileName: basename(finalPath),
+        sizeBytes,
+        database,
+        createdAt: new Date(),
+        compressed,
+        codec,
+        metadata: {
+          type: 'redis',
+          duration: Date.now() - startTime,
+          host: validatedConfig.host,
+          port: validatedConfig.port,
+        },
+      };
+    } finally {
+      redis.disconnect();
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async connect(config: RedisConfig): Promise<any> {
     // Dynamic import for optional dependency
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     let Redis: any;
     try {
       Redis = (await import('ioredis')).default;
     } catch {
-      throw new BackupError(
-        'ioredis is required for Redis backups. Install it with: pnpm add ioredis',
-        'backup'
-      );
+      throw new BackupError(MODULE_MISSING_MESSAGE, 'backup');
     }
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const options: any = {
-      host: validatedConfig.host,
-      port: validatedConfig.port,
-      db: validatedConfig.database,
+      host: config.host,
+      port: config.port,
+      db: config.database,
       enableReadyCheck: true,
       maxRetriesPerRequest: 3,
       connectTimeout: CONNECT_TIMEOUT,
     };
 
-    if (validatedConfig.password) {
-      options.password = validatedConfig.password;
+    if (config.password) {
+      options.password = config.password;
     }
 
-    if (validatedConfig.tls) {
+    if (config.tls) {
       options.tls = { rejectUnauthorized: true };
     }
 
     const redis = new Redis(options);
-
     try {
       await this.waitForReady(redis);
-
-      const rdbPath = validatedConfig.rdbPath || (await this.discoverRdbPath(redis));
-      validateRdbPath(rdbPath);
-
-      await this.triggerAndWaitForSave(redis);
-
-      const outputPath = generateTempPath('redis-backup', '.rdb');
-      await copyFile(rdbPath, outputPath);
-
-      const { finalPath, compressed, sizeBytes } = await maybeCompress(
-        outputPath,
-        validatedConfig.compress
-      );
-
-      return {
-        filePath: finalPath,
-        fileName: basename(finalPath),
-        sizeBytes,
-        database: `redis-db${validatedConfig.database}`,
-        createdAt: new Date(),
-        compressed,
-        metadata: {
-          type: 'redis',
-          duration: Date.now() - startTime,
-          host: validatedConfig.host,
-          port: validatedConfig.port,
-        },
-      };
-    } finally {
+    } catch (error) {
       redis.disconnect();
+      throw error;
     }
+    return redis;
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -154,7 +178,7 @@ export class RedisBackupStrategy implements BackupStrategy<RedisConfig> {
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private async triggerAndWaitForSave(redis: any): Promise<void> {
+  private async triggerAndWaitForSave(redis: any, signal?: AbortSignal): Promise<void> {
     const lastSave = await redis.lastsave();
 
     const info = await redis.info('persistence');
@@ -179,19 +203,56 @@ export class RedisBackupStrategy implements BackupStrategy<RedisConfig> {
         throw new BackupError('Redis BGSAVE failed', 'backup');
       }
 
-      await this.sleep(POLL_INTERVAL);
+      await sleep(POLL_INTERVAL, signal);
     }
 
     throw new BackupError(`Redis BGSAVE timed out after ${SAVE_TIMEOUT}ms`, 'backup');
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   async cleanup(filePath: string): Promise<void> {
     await removeFile(filePath);
   }
+
+  async healthCheck(config: RedisConfig): Promise<void> {
+    const redis = await this.connect(this.configSchema.parse(config));
+    try {
+      const reply = await redis.ping();
+      if (reply !== 'PONG') {
+        throw new BackupError(`Unexpected PING reply from Redis: ${reply}`, 'backup');
+      }
+    } finally {
+      redis.disconnect();
+    }
+  }
+
+  async preflight(config: RedisConfig): Promise<PreflightCheck[]> {
+    const validatedConfig = this.configSchema.parse(config);
+    const { host, port, database, tls } = validatedConfig;
+    const checks: PreflightCheck[] = [
+      await checkModule('ioredis', MODULE_MISSING_MESSAGE),
+      {
+        name: 'redis target',
+        status: 'pass',
+        message: `${tls ? 'rediss' : 'redis'}://${host}:${port}/${database}`,
+      },
+    ];
+
+    if (!validatedConfig.rdbPath) {
+      checks.push({ name: 'rdb path', status: 'pass', message: 'Discovered with CONFIG GET at backup time' });
+      return checks;
+    }
+
+    try {
+      validateRdbPath(validatedConfig.rdbPath);
+      await access(validatedConfig.rdbPath, constants.R_OK);
+      checks.push({ name: 'rdb path', status: 'pass', message: `${validatedConfig.rdbPath} is readable` });
+    } catch (error) {
+      const message =
+        error instanceof BackupError ? error.message : `RDB file is not readable: ${validatedConfig.rdbPath}`;
+      checks.push({ name: 'rdb path', status: 'fail', message });
+    }
+    return checks;
+  }
 }
 
 export function createRedisBackupStrategy(): BackupStrategy<RedisConfig> {
@@ -1,17 +1,20 @@
 import { basename, extname } from 'node:path';
-import { access, constants } from 'node:fs/promises';
+import { access, constants, open } from 'node:fs/promises';
 import { z } from 'zod';
-import type { BackupResult, BackupStrategy } from '../../types.js';
+import type { BackupContext, BackupResult, BackupStrategy, PreflightCheck } from '../../types.js';
+import { checkModule } from '../../preflight.js';
+import { trackDumpProgress } from '../../progress.js';
+import { type CompressedOutput, maybeCompress } from '../../compression.js';
 import {
   BackupError,
   generateTempPath,
-  maybeCompress,
+  getFileSize,
   removeFile,
 } from '../../utils.js';
 
 const VALID_SQLITE_EXTENSIONS = ['.db', '.sqlite', '.sqlite3'];
 
-function validateSqlitePath(dbPath: string): void {
+export function validateSqlitePath(dbPath: string): void {
   const ext = extname(dbPath).toLowerCase();
   if (!VALID_SQLITE_EXTENSIONS.includes(ext)) {
     throw new BackupError(
@@ -34,11 +37,21 @@ const SQLiteConfigSchema = z.object({
 
 export type SQLiteConfig = z.infer<typeof SQLiteConfigSchema>;
 
+// Every SQLite 3 database file starts with this header; empty files are valid too
+export const SQLITE_HEADER = 'SQLite format 3\0';
+
+const MODULE_MISSING_MESSAGE =
+  'better-sqlite3 is required for SQLite backups. Install it with: pnpm add better-sqlite3';
+
 export class SQLiteBackupStrategy implements BackupStrategy<SQLiteConfig> {
   readonly name = 'sqlite';
   readonly configSchema = SQLiteConfigSchema;
 
-  async backup(config: SQLiteConfig): Promise<BackupResult> {
+  databaseName(config: SQLiteConfig): string {
+    return basename(config.path);
+  }
+
+  async backup(config: SQLiteConfig, context: BackupContext = {}): Promise<BackupResult> {
     const validatedConfig = this.configSchema.parse(config);
     validateSqlitePath(validatedConfig.path);
     const startTime = Date.now();
@@ -59,10 +72,7 @@ export class SQLiteBackupStrategy implements BackupStrategy<SQLiteConfig> {
     try {
       Database = (await import('better-sqlite3')).default;
     } catch {
-      throw new BackupError(
-        'better-sqlite3 is required for SQLite backups. Install it with: pnpm add better-sqlite3',
-        'backup'
-      );
+      throw new BackupError(MODULE_MISSING_MESSAGE, 'backup');
     }
 
     const db = Database(validatedConfig.path, {
@@ -78,23 +88,30 @@ export class SQLiteBackupStrategy implements BackupStrategy<SQLiteConfig> {
         // Not in WAL mode, ignore
       }
 
-      const outputPath = generateTempPath('sqlite-backup', '.db');
-
-      // Use native backup API
-      await db.backup(outputPath);
+      const database = this.databaseName(validatedConfig);
+      const outputPath = context.outputPath?.(database, '.db') ?? generateTempPath('sqlite-backup', '.db');
 
-      const { finalPath, compressed, sizeBytes } = await maybeCompress(
-        outputPath,
-        validatedConfig.compress
-      );
+      let output: CompressedOutput;
+      try {
+        // Use native backup API
+        const sourceBytes = await getFileSize(validatedConfig.path);
+        await trackDumpProgress(outputPath, context, () => db.backup(outputPath), sourceBytes);
+        context.signal?.throwIfAborted();
+        output = await maybeCompress(outputPath, validatedConfig.compress, context);
+      } catch (error) {
+        await removeFile(outputPath);
+        throw error;
+      }
+      const { finalPath, compressed, codec, sizeBytes } = output;
 
       return {
         filePath: finalPath,
         fileName: basename(finalPath),
         sizeBytes,
-        database: basename(validatedConfig.path),
+        database,
         createdAt: new Date(),
         compressed,
+        codec,
         metadata: {
           type: 'sqlite',
           duration: Date.now() - startTime,
@@ -109,6 +126,44 @@ export class SQLiteBackupStrategy implements BackupStrategy<SQLiteConfig> {
   async cleanup(filePath: string): Promise<void> {
     await removeFile(filePath);
   }
+
+  async healthCheck(config: SQLiteConfig): Promise<void> {
+    const validatedConfig = this.configSchema.parse(config);
+    validateSqlitePath(validatedConfig.path);
+
+    let header: string;
+    try {
+      const handle = await open(validatedConfig.path, 'r');
+      try {
+        const { buffer, bytesRead } = await handle.read(Buffer.alloc(SQLITE_HEADER.length), 0, SQLITE_HEADER.length, 0);
+        header = buffer.subarray(0, bytesRead).toString('latin1');
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      throw new BackupError(`SQLite database file is not readable: ${validatedConfig.path}`, 'backup', error);
+    }
+
+    if (header.length > 0 && header !== SQLITE_HEADER) {
+      throw new BackupError(`Not a SQLite database: ${validatedConfig.path}`, 'backup');
+    }
+  }
+
+  async preflight(config: SQLiteConfig): Promise<PreflightCheck[]> {
+    const validatedConfig = this.configSchema.parse(config);
+    const checks = [await checkModule('better-sqlite3', MODULE_MISSING_MESSAGE)];
+
+    try {
+      validateSqlitePath(validatedConfig.path);
+      await access(validatedConfig.path, constants.R_OK);
+      checks.push({ name: 'database file', status: 'pass', message: `${validatedConfig.path} is readable` });
+    } catch (error) {
+      const message =
+        error instanceof BackupError ? error.message : `SQLite database file not found: ${validatedConfig.path}`;
+      checks.push({ name: 'database file', status: 'fail', message });
+    }
+    return checks;
+  }
 }
 
 export function createSQLiteBackupStrategy(): BackupStrategy<SQLiteConfig> {
@@ -1,6 +1,15 @@
 import { z } from 'zod';
-import type { BackupResult, DeliveryResult, DeliveryStrategy } from '../../types.js';
-import { formatBytes, formatDuration, splitFile, removeFile, readFileAsBlob, BackupError } from '../../utils.js';
+import type {
+  BackupResult,
+  DeliveryContext,
+  DeliveryResult,
+  DeliveryStrategy,
+  StreamedBackup,
+} from '../../types.js';
+import { formatBytes, formatDuration, readFileAsBlob, sleep, BackupError } from '../../utils.js';
+import { createUploadBody } from '../../progress.js';
+import { RetryConfigSchema, RetryableError, withRetry } from '../../retry.js';
+import { deliverParts, deliverStreamParts } from './multipart.js';
 
 const DISCORD_MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB
 
@@ -11,10 +20,17 @@ const DiscordConfigSchema = z.object({
   threadId: z.string().optional(),
   embedColor: z.number().default(0x5865f2),
   includeMetadata: z.boolean().default(true),
+  retry: RetryConfigSchema.prefault({}),
 });
 
 export type DiscordConfig = z.infer<typeof DiscordConfigSchema>;
 
+// Embed fields for a whole backup or, when streaming, a single part
+type EmbedSource = Pick<
+  BackupResult,
+  'database' | 'sizeBytes' | 'compressed' | 'recipients' | 'metadata' | 'createdAt'
+>;
+
 interface DiscordEmbed {
   title: string;
   color: number;
@@ -28,57 +44,104 @@ export class DiscordDeliveryStrategy implements DeliveryStrategy<DiscordConfig>
   readonly configSchema = DiscordConfigSchema;
   readonly maxFileSizeBytes = DISCORD_MAX_FILE_SIZE;
 
-  async deliver(config: DiscordConfig, backup: BackupResult): Promise<DeliveryResult> {
+  // Set when the webhook bucket is exhausted (X-RateLimit-Remaining: 0)
+  private rateLimitResetAt = 0;
+
+  async deliver(
+    config: DiscordConfig,
+    backup: BackupResult,
+    context: DeliveryContext = {}
+  ): Promise<DeliveryResult> {
     const validatedConfig = this.configSchema.parse(config);
 
-    try {
-      const chunks = await splitFile(backup.filePath, this.maxFileSizeBytes);
-      const isMultiPart = chunks.length > 1;
-      let messageId: string | undefined;
+    return deliverParts({
+      platform: 'discord',
+      backup,
+      maxPartSizeBytes: this.maxFileSizeBytes,
+      context,
+      sendPart: async ({ filePath, partNumber, totalParts, onUploadProgress }) => {
+        const embedOptions = totalParts > 1 ? { partNumber, totalParts } : {};
+        const embed = this.buildEmbed(validatedConfig, backup, embedOptions);
 
-      for (let i = 0; i < chunks.length; i++) {
-        const chunkPath = chunks[i];
-        if (!chunkPath) continue;
+        const label = totalParts > 1
+          ? `Uploading part ${partNumber}/${totalParts} to Discord`
+          : 'Uploading to Discord';
+        const response = await withRetry(
+          () => this.sendFile(validatedConfig, filePath, embed, context.signal, onUploadProgress),
+          {
+            config: validatedConfig.retry,
+            label,
+            onProgress: context.onProgress,
+            onRetry: context.onRetry,
+            signal: context.signal,
+          }
+        );
 
-        const embedOptions = isMultiPart
-          ? { partNumber: i + 1, totalParts: chunks.length }
-          : {};
-        const embed = this.buildEmbed(validatedConfig, backup, embedOptions);
+        return response.id;
+      },
+      sendManifest: async (filePath) => {
+        const embed = this.buildManifestEmbed(validatedConfig, backup);
+        await withRetry(() => this.sendFile(validatedConfig, filePath, embed, context.signal), {
+          config: validatedConfig.retry,
+          label: 'Uploading manifest to Discord',
+          onProgress: context.onProgress,
+          onRetry: context.onRetry,
+          signal: context.signal,
+        });
+      },
+    });
+  }
 
-        const response = await this.sendFile(validatedConfig, chunkPath, embed);
+  // Each part is posted as it is cut from the stream; only the last one knows the part count
+  async deliverStream(
+    config: DiscordConfig,
+    backup: StreamedBackup,
+    context: DeliveryContext = {}
+  ): Promise<DeliveryResult> {
+    const validatedConfig = this.configSchema.parse(config);
 
-        if (i === 0) {
-          messageId = response.id;
-        }
+    return deliverStreamParts({
+      platform: 'discord',
+      backup,
+      maxPartSizeBytes: this.maxFileSizeBytes,
+      context,
+      sendPart: async ({ data, fileName, partNumber, totalParts, onUploadProgress }) => {
+        const single = partNumber === 1 && totalParts === 1;
+        const embedOptions = single ? {} : { partNumber, ...(totalParts > 0 && { totalParts }) };
+        const embed = this.buildEmbed(validatedConfig, { ...backup, sizeBytes: data.length }, embedOptions);
+        const file = { blob: new Blob([data]), fileName };
 
-        if (isMultiPart) {
-          await removeFile(chunkPath);
-        }
-      }
+        const label = single ? 'Uploading to Discord' : `Uploading part ${partNumber} to Discord`;
+        const response = await withRetry(
+          () => this.sendFile(validatedConfig, file, embed, context.signal, onUploadProgress),
+          {
+            config: validatedConfig.retry,
+            label,
+            onProgress: context.onProgress,
+            onRetry: context.onRetry,
+            signal: context.signal,
+          }
+        );
 
-      const result: DeliveryResult = {
-        success: true,
-        platform: 'discord',
-        deliveredAt: new Date(),
-      };
+        return response.id;
+      },
+    });
+  }
 
-      if (messageId !== undefined) {
-        return { ...result, messageId };
-      }
-      return result;
-    } catch (error) {
-      return {
-        success: false,
-        platform: 'discord',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        deliveredAt: new Date(),
-      };
+  // GET on a webhook URL returns the webhook without posting anything
+  async healthCheck(config: DiscordConfig, signal?: AbortSignal): Promise<void> {
+    const validatedConfig = this.configSchema.parse(config);
+    const response = await fetch(validatedConfig.webhookUrl, { signal: signal ?? null });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new BackupError(`Discord webhook check failed (${response.status}): ${errorBody}`, 'delivery');
     }
   }
 
   private buildEmbed(
     config: DiscordConfig,
-    backup: BackupResult,
+    backup: EmbedSource,
     options: { partNumber?: number; totalParts?: number }
   ): DiscordEmbed {
     const fields: DiscordEmbed['fields'] = [];
@@ -101,9 +164,14 @@ export class DiscordDeliveryStrategy implements DeliveryStrategy<DiscordConfig>
       }
     }
 
+    if (backup.recipients) {
+      fields.push({ name: 'Encrypted For', value: backup.recipients.map((id) => `\`${id}\``).join('\n') });
+    }
+
     let title = `Database Backup: ${backup.database}`;
-    if (options.partNumber !== undefined && options.totalParts !== undefined) {
-      title += ` (Part ${options.partNumber}/${options.totalParts})`;
+    if (options.partNumber !== undefined) {
+      const total = options.totalParts === undefined ? '' : `/${options.totalParts}`;
+      title += ` (Part ${options.partNumber}${total})`;
     }
 
     return {
@@ -115,10 +183,23 @@ export class DiscordDeliveryStrategy implements DeliveryStrategy<DiscordConfig>
     };
   }
 
+  private buildManifestEmbed(config: DiscordConfig, backup: BackupResult): DiscordEmbed {
+    return {
+      title: `Backup Manifest: ${backup.database}`,
+      color: config.embedColor,
+      fields: backup.checksum ? [{ name: 'SHA-256', value: backup.checksum }] : [],
+      timestamp: backup.createdAt.toISOString(),
+      footer: { text: 'wbackup' },
+    };
+  }
+
+  // Takes a path, or the part itself when streaming
   private async sendFile(
     config: DiscordConfig,
-    filePath: string,
-    embed: DiscordEmbed
+    file: string | { blob: Blob; fileName: string },
+    embed: DiscordEmbed,
+    signal?: AbortSignal,
+    onUploadProgress?: (bytesSent: number, totalBytes: number) => void
   ): Promise<{ id: string }> {
     const url = new URL(config.webhookUrl);
     url.searchParams.set('wait', 'true');
@@ -126,7 +207,7 @@ export class DiscordDeliveryStrategy implements DeliveryStrategy<DiscordConfig>
       url.searchParams.set('thread_id', config.threadId);
     }
 
-    const { blob, fileName } = await readFileAsBlob(filePath);
+    const { blob, fileName } = typeof file === 'string' ? await readFileAsBlob(file) : file;
     const formData = new FormData();
 
     const payload: Record<string, unknown> = {
@@ -140,15 +221,57 @@ export class DiscordDeliveryStrategy implements DeliveryStrategy<DiscordConfig>
     formData.append('payload_json', JSON.stringify(payload));
     formData.append('file', blob, fileName);
 
-    const response = await fetch(url.toString(), { method: 'POST', body: formData });
+    const waitMs = this.rateLimitResetAt - Date.now();
+    if (waitMs > 0) {
+      await sleep(waitMs, signal);
+    }
+
+    const response = await fetch(url.toString(), {
+      method: 'POST',
+      ...(await createUploadBody(formData, onUploadProgress)),
+      signal: signal ?? null,
+    });
+    this.trackRateLimit(response.headers);
 
     if (!response.ok) {
       const errorBody = await response.text();
-      throw new BackupError(`Discord API error (${response.status}): ${errorBody}`, 'delivery');
+      const message = `Discord API error (${response.status}): ${errorBody}`;
+      if (response.status === 429 || response.status >= 500) {
+        throw new RetryableError(message, this.parseRetryAfter(response.headers, errorBody));
+      }
+      throw new BackupError(message, 'delivery');
     }
 
     return response.json() as Promise<{ id: string }>;
   }
+
+  private trackRateLimit(headers: Headers): void {
+    const remaining = headers.get('x-ratelimit-remaining');
+    const resetAfter = parseFloat(headers.get('x-ratelimit-reset-after') ?? '');
+    if (remaining === '0' && Number.isFinite(resetAfter)) {
+      this.rateLimitResetAt = Date.now() + resetAfter * 1000;
+    }
+  }
+
+  // Discord reports waits in seconds: body retry_after, then Retry-After, then bucket reset
+  private parseRetryAfter(headers: Headers, body: string): number | undefined {
+    try {
+      const parsed = JSON.parse(body) as { retry_after?: unknown };
+      if (typeof parsed.retry_after === 'number') {
+        return parsed.retry_after * 1000;
+      }
+    } catch {
+      // Not JSON, fall back to headers
+    }
+
+    for (const header of ['retry-after', 'x-ratelimit-reset-after']) {
+      const seconds = parseFloat(headers.get(header) ?? '');
+      if (Number.isFinite(seconds)) {
+        return seconds * 1000;
+      }
+    }
+    return undefined;
+  }
 }
 
 export function createDiscordDeliveryStrategy(): DeliveryStrategy<DiscordConfig> {
@@ -0,0 +1,230 @@
+/**
+ * Filesystem Delivery Strategy
+ *
+ * Copies the backup into a local directory, e.g. an NFS mount or a second disk.
+ *
+ * Usage:
+ * ```typescript
+ * const manager = new BackupManager()
+ *   .database('postgresql', { connectionString: '...' })
+ *   .delivery('filesystem', { directory: '/mnt/backups/orders' });
+ *
+ * await manager.run();
+ * ```
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { access, constants, open, rename, statfs, writeFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { z } from 'zod';
+import type {
+  BackupManifest,
+  BackupResult,
+  DeliveryContext,
+  DeliveryResult,
+  DeliveryStrategy,
+  StreamedBackup,
+} from '../../types.js';
+import { MANIFEST_SUFFIX, serializeManifest } from '../../manifest.js';
+import { createProgressTracker, DEFAULT_PROGRESS_INTERVAL_MS } from '../../progress.js';
+import { BackupError, ensureDir, formatBytes, removeFile, syncDirectory } from '../../utils.js';
+
+const FilesystemConfigSchema = z.object({
+  directory: z.string().min(1, 'Target directory is required'),
+  // move renames the backup instead of copying it; the manager allows it only for a single destination
+  mode: z.enum(['copy', 'move']).default('copy'),
+  // UTC date subdirectories: day is YYYY/MM/DD, month is YYYY/MM
+  subdirectories: z.enum(['none', 'day', 'month']).default('day'),
+  // Free space to leave on the target after the copy
+  minFreeBytes: z.number().int().min(0).default(0),
+});
+
+export type FilesystemConfig = z.infer<typeof FilesystemConfigSchema>;
+
+export class FilesystemDeliveryStrategy implements DeliveryStrategy<FilesystemConfig> {
+  readonly name = 'filesystem';
+  readonly configSchema = FilesystemConfigSchema;
+  // Local copies are never split into parts
+  readonly maxFileSizeBytes = Number.POSITIVE_INFINITY;
+
+  takesBackup(config: FilesystemConfig): boolean {
+    return this.configSchema.parse(config).mode === 'move';
+  }
+
+  async deliver(
+    config: FilesystemConfig,
+    backup: BackupResult,
+    context: DeliveryContext = {}
+  ): Promise<DeliveryResult> {
+    const validatedConfig = this.configSchema.parse(config);
+
+    try {
+      const directory = this.targetDirectory(validatedConfig, backup.createdAt);
+      await ensureDir(directory);
+      const targetPath = join(directory, basename(backup.filePath));
+
+      const moved = validatedConfig.mode === 'move' && (await this.tryRename(backup.filePath, targetPath));
+      if (!moved) {
+        await this.assertFreeSpace(directory, backup.sizeBytes, validatedConfig.minFreeBytes);
+        context.onProgress?.(`Copying ${formatBytes(backup.sizeBytes)} to ${directory}`);
+        await this.writeAtomically(createReadStream(backup.filePath), targetPath, backup.sizeBytes, context);
+        if (validatedConfig.mode === 'move') {
+          await removeFile(backup.filePath);
+        }
+      }
+      if (context.manifest) {
+        await this.writeManifest(context.manifest, targetPath);
+      }
+      await syncDirectory(directory);
+
+      return { success: true, platform: this.name, deliveredAt: new Date(), filePath: targetPath };
+    } catch (error) {
+      return {
+        success: false,
+        platform: this.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        deliveredAt: new Date(),
+      };
+    }
+  }
+
+  // The size is unknown up front, so only minFreeBytes is checked before writing
+  async deliverStream(
+    config: FilesystemConfig,
+    backup: StreamedBackup,
+    context: DeliveryContext = {}
+  ): Promise<DeliveryResult> {
+    const validatedConfig = this.configSchema.parse(config);
+
+    try {
+      const directory = this.targetDirectory(validatedConfig, backup.createdAt);
+      await ensureDir(directory);
+      await this.assertFreeSpace(directory, 0, validatedConfig.minFreeBytes);
+      const targetPath = join(directory, backup.fileName);
+
+      context.onProgress?.(`Writing to ${directory}`);
+      await this.writeAtomically(backup.stream, targetPath, undefined, context);
+      await syncDirectory(directory);
+
+      return { success: true, platform: this.name, deliveredAt: new Date(), filePath: targetPath };
+    } catch (error) {
+      backup.stream.destroy();
+      return {
+        success: false,
+        platform: this.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        deliveredAt: new Date(),
+      };
+    }
+  }
+
+  async healthCheck(config: FilesystemConfig): Promise<void> {
+    const validatedConfig = this.configSchema.parse(config);
+    await ensureDir(validatedConfig.directory);
+
+    try {
+      await access(validatedConfig.directory, constants.W_OK);
+    } catch {
+      throw new BackupError(`Target directory is not writable: ${validatedConfig.directory}`, 'delivery');
+    }
+  }
+
+  private targetDirectory(config: FilesystemConfig, createdAt: Date): string {
+    const [year = '', month = '', day = ''] = createdAt.toISOString().slice(0, 10).split('-');
+    switch (config.subdirectories) {
+      case 'day':
+        return join(config.directory, year, month, day);
+      case 'month':
+        return join(config.directory, year, month);
+      default:
+        return config.directory;
+    }
+  }
+
+  // Same-filesystem moves are a single atomic rename; false means a copy is needed
+  private async tryRename(sourcePath: string, targetPath: string): Promise<boolean> {
+    try {
+      await rename(sourcePath, targetPath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EXDEV') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Stored next to the backup as "<file name>.manifest.json", with the file as its only part
+  private async writeManifest(manifest: BackupManifest, targetPath: string): Promise<void> {
+    const { sizeBytes, sha256 } = manifest.file;
+    const parts = [{ partNumber: 1, fileName: basename(targetPath), sizeBytes, sha256 }];
+    const manifestPath = `${targetPath}${MANIFEST_SUFFIX}`;
+    const tempPath = `${manifestPath}.tmp-${randomBytes(4).toString('hex')}`;
+
+    try {
+      await writeFile(tempPath, serializeManifest(manifest, parts), { flag: 'wx' });
+      await rename(tempPath, manifestPath);
+    } catch (error) {
+      await removeFile(tempPath);
+      throw error;
+    }
+  }
+
+  private async assertFreeSpace(directory: string, sizeBytes: number, minFreeBytes: number): Promise<void> {
+    const stats = await statfs(directory);
+    const freeBytes = stats.bavail * stats.bsize;
+    if (freeBytes < sizeBytes + minFreeBytes) {
+      throw new BackupError(
+        `Not enough free space in ${directory}: ${formatBytes(sizeBytes + minFreeBytes)} needed, ` +
+          `${formatBytes(freeBytes)} available`,
+        'delivery'
+      );
+    }
+  }
+
+  // Writes to a temporary name and renames it, so the target never holds a partial backup
+  private async writeAtomically(
+    source: Readable,
+    targetPath: string,
+    sizeBytes: number | undefined,
+    context: DeliveryContext
+  ): Promise<void> {
+    const tempPath = `${targetPath}.tmp-${randomBytes(4).toString('hex')}`;
+
+    const { onByteProgress } = context;
+    if (onByteProgress) {
+      const tracker = createProgressTracker(
+        context.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS,
+        (progress) => onByteProgress({ ...progress, partNumber: 1, totalParts: 1 })
+      );
+      let bytesCopied = 0;
+      source.on('data', (chunk) => {
+        bytesCopied += chunk.length;
+        tracker.report(bytesCopied, sizeBytes);
+      });
+      source.on('end', () => tracker.finish());
+    }
+
+    try {
+      const destination = createWriteStream(tempPath, { flags: 'wx' });
+      await pipeline(source, destination, context.signal ? { signal: context.signal } : {});
+      const handle = await open(tempPath, 'r+');
+      try {
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await rename(tempPath, targetPath);
+    } catch (error) {
+      await removeFile(tempPath);
+      throw error;
+    }
+  }
+}
+
+export function createFilesystemDeliveryStrategy(): DeliveryStrategy<FilesystemConfig> {
+  return new FilesystemDeliveryStrategy();
+}
@@ -1,6 +1,15 @@
 export { DiscordDeliveryStrategy, createDiscordDeliveryStrategy } from './discord.js';
 export type { DiscordConfig } from './discord.js';
 
+export { FilesystemDeliveryStrategy, createFilesystemDeliveryStrategy } from './filesystem.js';
+export type { FilesystemConfig } from './filesystem.js';
+
+export { RepositoryDeliveryStrategy, createRepositoryDeliveryStrategy } from './repository.js';
+export type { RepositoryConfig } from './repository.js';
+
+export { deliverParts, deliverStreamParts } from './multipart.js';
+export type { DeliveryPart, DeliverPartsOptions, DeliverStreamPartsOptions, StreamPart } from './multipart.js';
+
 // Extension stubs - not registered by default
 export { TelegramDeliveryStrategy, createTelegramDeliveryStrategy } from './telegram.js';
 export type { TelegramConfig } from './telegram.js';
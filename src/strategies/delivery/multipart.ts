@@ -0,0 +1,294 @@
+import { basename } from 'node:path';
+import type { Readable } from 'node:stream';
+import type {
+  BackupResult,
+  DeliveryContext,
+  DeliveryResult,
+  ManifestPart,
+  StreamedBackup,
+} from '../../types.js';
+import {
+  createDeliveryState,
+  loadDeliveryState,
+  saveDeliveryState,
+  type DeliveryState,
+} from '../../delivery-state.js';
+import { withManifestFile } from '../../manifest.js';
+import { createProgressTracker, DEFAULT_PROGRESS_INTERVAL_MS } from '../../progress.js';
+import { BackupError, type FileChunk, hashFile, removeFile, splitFile } from '../../utils.js';
+
+export interface DeliveryPart {
+  readonly filePath: string;
+  readonly partNumber: number;
+  readonly totalParts: number;
+  // Set when the context wants byte progress; called as the request body is read
+  readonly onUploadProgress?: ((bytesSent: number, totalBytes: number) => void) | undefined;
+}
+
+export interface DeliverPartsOptions {
+  platform: string;
+  backup: BackupResult;
+  maxPartSizeBytes: number;
+  context: DeliveryContext;
+  // Uploads one part and returns the platform message ID, if any
+  sendPart: (part: DeliveryPart) => Promise<string | undefined>;
+  // Uploads the manifest file after the last part, when the context has a manifest
+  sendManifest?: ((filePath: string) => Promise<void>) | undefined;
+}
+
+export interface StreamPart {
+  readonly data: Buffer<ArrayBuffer>;
+  // The backup's file name, or "<file name>.partN" once the backup needs more than one part
+  readonly fileName: string;
+  readonly partNumber: number;
+  // 0 until the last part
+  readonly totalParts: number;
+  readonly onUploadProgress?: ((bytesSent: number, totalBytes: number) => void) | undefined;
+}
+
+export interface DeliverStreamPartsOptions {
+  platform: string;
+  backup: StreamedBackup;
+  maxPartSizeBytes: number;
+  context: DeliveryContext;
+  // Uploads one part and returns the platform message ID, if any
+  sendPart: (part: StreamPart) => Promise<string | undefined>;
+}
+
+/**
+ * Shared multi-part upload loop for size-limited platforms.
+ *
+ * Splits the backup, uploads each part in order and, when the context has a
+ * statePath, records every delivered part so a later call skips them. The
+ * manifest, if any, is sent last with a checksum for every part.
+ */
+export async function deliverParts(options: DeliverPartsOptions): Promise<DeliveryResult> {
+  const { platform, backup, maxPartSizeBytes, context, sendPart, sendManifest } = options;
+  let chunks: FileChunk[] = [];
+  let delivered = 0;
+
+  try {
+    const checksum = context.statePath ? (backup.checksum ?? (await hashFile(backup.filePath))) : undefined;
+    chunks = await splitFile(backup.filePath, maxPartSizeBytes);
+    const totalParts = chunks.length;
+
+    let state: DeliveryState | undefined;
+    if (context.statePath && checksum) {
+      state = await loadDeliveryState(context.statePath);
+      if (state) {
+        assertResumable(state, checksum, maxPartSizeBytes, totalParts);
+      } else {
+        state = createDeliveryState(platform, backup, checksum, maxPartSizeBytes, totalParts);
+        await saveDeliveryState(context.statePath, state);
+      }
+    }
+
+    const messageIds = new Map<number, string | undefined>(
+      state?.parts.map((part) => [part.partNumber, part.messageId]) ?? []
+    );
+
+    for (let i = 0; i < totalParts; i++) {
+      const chunk = chunks[i];
+      if (!chunk) continue;
+      const chunkPath = chunk.filePath;
+      const partNumber = i + 1;
+
+      context.signal?.throwIfAborted();
+
+      if (messageIds.has(partNumber)) {
+        context.onProgress?.(`Part ${partNumber}/${totalParts} already delivered, skipping`);
+      } else {
+        const messageId = await sendPart({
+          filePath: chunkPath,
+          partNumber,
+          totalParts,
+          onUploadProgress: trackUpload(context, partNumber, totalParts),
+        });
+        messageIds.set(partNumber, messageId);
+        context.onPart?.({ partNumber, totalParts, sizeBytes: chunk.sizeBytes, messageId });
+
+        if (state && context.statePath) {
+          state.parts.push(messageId === undefined ? { partNumber } : { partNumber, messageId });
+          await saveDeliveryState(context.statePath, state);
+        }
+      }
+
+      delivered++;
+      if (totalParts > 1) {
+        await removeFile(chunkPath);
+      }
+    }
+
+    // A completed state means the manifest went out too; it is only marked once the manifest was sent
+    if (context.manifest && sendManifest && !state?.completed) {
+      context.signal?.throwIfAborted();
+      await withManifestFile(context.manifest, toManifestParts(chunks), sendManifest);
+    }
+
+    if (state && context.statePath && !state.completed) {
+      state.completed = true;
+      await saveDeliveryState(context.statePath, state);
+    }
+
+    const result: DeliveryResult = {
+      success: true,
+      platform,
+      deliveredAt: new Date(),
+      partsDelivered: delivered,
+      totalParts,
+    };
+
+    const messageId = messageIds.get(1);
+    if (messageId !== undefined) {
+      return { ...result, messageId };
+    }
+    return result;
+  } catch (error) {
+    const result: DeliveryResult = {
+      success: false,
+      platform,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      deliveredAt: new Date(),
+    };
+    return chunks.length > 0 ? { ...result, partsDelivered: delivered, totalParts: chunks.length } : result;
+  } finally {
+    // Parts are re-split from the retained backup on resume
+    if (chunks.length > 1) {
+      await Promise.all(chunks.map((chunk) => removeFile(chunk.filePath)));
+    }
+  }
+}
+
+/**
+ * Upload loop for streamed backups. Parts are cut from the stream as it is
+ * read and uploaded one at a time, so at most one part is held in memory and
+ * the dump tool waits while a part uploads. A stream that errors, e.g. because
+ * the dump tool failed, never has its last part uploaded.
+ */
+export async function deliverStreamParts(options: DeliverStreamPartsOptions): Promise<DeliveryResult> {
+  const { platform, backup, maxPartSizeBytes, context, sendPart } = options;
+  let delivered = 0;
+  let firstMessageId: string | undefined;
+
+  try {
+    for await (const { data, last } of readParts(backup.stream, maxPartSizeBytes)) {
+      context.signal?.throwIfAborted();
+      const partNumber = delivered + 1;
+      const totalParts = last ? partNumber : 0;
+      const fileName = last && partNumber === 1 ? backup.fileName : `${backup.fileName}.part${partNumber}`;
+
+      const messageId = await sendPart({
+        data,
+        fileName,
+        partNumber,
+        totalParts,
+        onUploadProgress: trackUpload(context, partNumber, totalParts),
+      });
+      firstMessageId ??= messageId;
+      context.onPart?.({ partNumber, totalParts, sizeBytes: data.length, messageId });
+      delivered++;
+    }
+
+    const result: DeliveryResult = {
+      success: true,
+      platform,
+      deliveredAt: new Date(),
+      partsDelivered: delivered,
+      totalParts: delivered,
+    };
+    return firstMessageId === undefined ? result : { ...result, messageId: firstMessageId };
+  } catch (error) {
+    // Stops the dump tool when the upload failed first
+    backup.stream.destroy();
+    return {
+      success: false,
+      platform,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      deliveredAt: new Date(),
+      partsDelivered: delivered,
+    };
+  }
+}
+
+// A full part is held back until more data or the end of the stream shows whether it is the last one
+async function* readParts(
+  stream: Readable,
+  partSizeBytes: number
+): AsyncGenerator<{ data: Buffer<ArrayBuffer>; last: boolean }> {
+  let buffers: Buffer[] = [];
+  let size = 0;
+  let full: Buffer<ArrayBuffer> | undefined;
+  let yielded = false;
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    let offset = 0;
+    while (offset < chunk.length) {
+      if (full) {
+        yield { data: full, last: false };
+        full = undefined;
+        yielded = true;
+      }
+      const take = Math.min(partSizeBytes - size, chunk.length - offset);
+      buffers.push(chunk.subarray(offset, offset + take));
+      size += take;
+      offset += take;
+      if (size === partSizeBytes) {
+        full = Buffer.concat(buffers, size);
+        buffers = [];
+        size = 0;
+      }
+    }
+  }
+
+  if (full) {
+    yield { data: full, last: true };
+  } else if (size > 0 || !yielded) {
+    // An empty dump is still delivered as one empty file
+    yield { data: Buffer.concat(buffers, size), last: true };
+  }
+}
+
+function toManifestParts(chunks: FileChunk[]): ManifestPart[] {
+  return chunks.map((chunk, i) => ({
+    partNumber: i + 1,
+    fileName: basename(chunk.filePath),
+    sizeBytes: chunk.sizeBytes,
+    sha256: chunk.sha256,
+  }));
+}
+
+function trackUpload(
+  context: DeliveryContext,
+  partNumber: number,
+  totalParts: number
+): DeliveryPart['onUploadProgress'] {
+  const { onByteProgress } = context;
+  if (!onByteProgress) {
+    return undefined;
+  }
+
+  const tracker = createProgressTracker(
+    context.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS,
+    (progress) => onByteProgress({ ...progress, partNumber, totalParts })
+  );
+  return (bytesSent, totalBytes) => {
+    tracker.report(bytesSent, totalBytes);
+    if (bytesSent === totalBytes) {
+      tracker.finish();
+    }
+  };
+}
+
+function assertResumable(
+  state: DeliveryState,
+  checksum: string,
+  partSizeBytes: number,
+  totalParts: number
+): void {
+  if (state.checksum !== checksum) {
+    throw new BackupError('Backup file changed since the interrupted delivery, cannot resume', 'delivery');
+  }
+  if (state.partSizeBytes !== partSizeBytes || state.totalParts !== totalParts) {
+    throw new BackupError('Part layout changed since the interrupted delivery, cannot resume', 'delivery');
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Repository Delivery Strategy
+ *
+ * Stores backups in a deduplicating repository directory; see BackupRepository.
+ * Successive dumps of a mostly unchanged database share most of their chunks,
+ * so each run only adds what changed.
+ *
+ * Usage:
+ * ```typescript
+ * const manager = new BackupManager()
+ *   .database('postgresql', { connectionString: '...', format: 'plain' })
+ *   .compress(false)
+ *   .delivery('repository', { directory: '/mnt/backups/repository' });
+ *
+ * await manager.run();
+ * ```
+ */
+
+import { createReadStream } from 'node:fs';
+import { access, constants } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import { z } from 'zod';
+import type {
+  BackupResult,
+  DeliveryContext,
+  DeliveryResult,
+  DeliveryStrategy,
+  SnapshotSource,
+  StreamedBackup,
+} from '../../types.js';
+import { ChunkingOptionsSchema } from '../../chunking.js';
+import { createProgressTracker, DEFAULT_PROGRESS_INTERVAL_MS } from '../../progress.js';
+import { BackupRepository } from '../../repository.js';
+import { BackupError, ensureDir, formatBytes } from '../../utils.js';
+
+const RepositoryConfigSchema = z.object({
+  directory: z.string().min(1, 'Repository directory is required'),
+  // Only used when the repository is created; an existing one keeps its chunk sizes
+  chunking: ChunkingOptionsSchema.prefault({}),
+});
+
+export type RepositoryConfig = z.infer<typeof RepositoryConfigSchema>;
+
+export class RepositoryDeliveryStrategy implements DeliveryStrategy<RepositoryConfig> {
+  readonly name = 'repository';
+  readonly configSchema = RepositoryConfigSchema;
+  // Chunks are stored separately, so backups are never split into parts
+  readonly maxFileSizeBytes = Number.POSITIVE_INFINITY;
+
+  async deliver(
+    config: RepositoryConfig,
+    backup: BackupResult,
+    context: DeliveryContext = {}
+  ): Promise<DeliveryResult> {
+    if (backup.encrypted) {
+      context.onProgress?.('Encrypted backups share no chunks, so nothing will be deduplicated');
+    } else if (backup.compressed) {
+      context.onProgress?.('Compressed backups deduplicate poorly; use .compress(false) with a repository');
+    }
+    return this.store(config, createReadStream(backup.filePath), backup, backup.sizeBytes, context);
+  }
+
+  async deliverStream(
+    config: RepositoryConfig,
+    backup: StreamedBackup,
+    context: DeliveryContext = {}
+  ): Promise<DeliveryResult> {
+    if (backup.compressed) {
+      context.onProgress?.('Compressed backups deduplicate poorly; use .compress(false) with a repository');
+    }
+    return this.store(config, backup.stream, backup, undefined, context);
+  }
+
+  async healthCheck(config: RepositoryConfig): Promise<void> {
+    const validatedConfig = this.configSchema.parse(config);
+    await ensureDir(validatedConfig.directory);
+
+    try {
+      await access(validatedConfig.directory, constants.W_OK);
+    } catch {
+      throw new BackupError(`Repository directory is not writable: ${validatedConfig.directory}`, 'delivery');
+    }
+  }
+
+  // The snapshot records the SHA-256 itself, so the manifest is not stored
+  private async store(
+    config: RepositoryConfig,
+    source: Readable,
+    backup: SnapshotSource,
+    sizeBytes: number | undefined,
+    context: DeliveryContext
+  ): Promise<DeliveryResult> {
+    try {
+      const validatedConfig = this.configSchema.parse(config);
+      const repository = new BackupRepository(validatedConfig.directory, { chunking: validatedConfig.chunking });
+
+      const { onByteProgress } = context;
+      const tracker = onByteProgress && createProgressTracker(
+        context.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS,
+        (progress) => onByteProgress({ ...progress, partNumber: 1, totalParts: 1 })
+      );
+      const onBytes = tracker && ((bytesRead: number) => tracker.report(bytesRead, sizeBytes));
+
+      const result = await repository.store(source, backup, { signal: context.signal, onBytes });
+      tracker?.finish();
+
+      const { snapshot, newBytes, dedupRatio } = result;
+      context.onProgress?.(
+        `Stored snapshot ${snapshot.id}: ${formatBytes(newBytes)} new of ${formatBytes(snapshot.sizeBytes)} ` +
+          `(${(dedupRatio * 100).toFixed(1)}% deduplicated)`
+      );
+
+      return {
+        success: true,
+        platform: this.name,
+        deliveredAt: new Date(),
+        snapshotId: snapshot.id,
+        newBytes,
+        dedupRatio,
+      };
+    } catch (error) {
+      source.destroy();
+      return {
+        success: false,
+        platform: this.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        deliveredAt: new Date(),
+      };
+    }
+  }
+}
+
+export function createRepositoryDeliveryStrategy(): DeliveryStrategy<RepositoryConfig> {
+  return new RepositoryDeliveryStrategy();
+}
@@ -19,8 +19,17 @@
  */
 
 import { z } from 'zod';
-import type { BackupResult, DeliveryResult, DeliveryStrategy } from '../../types.js';
-import { formatBytes, formatDuration, splitFile, removeFile, readFileAsBlob, BackupError } from '../../utils.js';
+import type {
+  BackupResult,
+  DeliveryContext,
+  DeliveryResult,
+  DeliveryStrategy,
+  StreamedBackup,
+} from '../../types.js';
+import { formatBytes, formatDuration, readFileAsBlob, BackupError } from '../../utils.js';
+import { createUploadBody } from '../../progress.js';
+import { RetryConfigSchema, RetryableError, withRetry } from '../../retry.js';
+import { deliverParts, deliverStreamParts } from './multipart.js';
 
 const TELEGRAM_MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
@@ -30,77 +39,121 @@ const TelegramConfigSchema = z.object({
   parseMode: z.enum(['HTML', 'Markdown', 'MarkdownV2']).default('HTML'),
   disableNotification: z.boolean().default(false),
   protectContent: z.boolean().default(false),
+  retry: RetryConfigSchema.prefault({}),
 });
 
 export type TelegramConfig = z.infer<typeof TelegramConfigSchema>;
 
+// Caption fields for a whole backup or, when streaming, a single part
+type CaptionSource = Pick<
+  BackupResult,
+  'database' | 'sizeBytes' | 'compressed' | 'recipients' | 'metadata' | 'createdAt'
+>;
+
 export class TelegramDeliveryStrategy implements DeliveryStrategy<TelegramConfig> {
   readonly name = 'telegram';
   readonly configSchema = TelegramConfigSchema;
   readonly maxFileSizeBytes = TELEGRAM_MAX_FILE_SIZE;
 
-  async deliver(config: TelegramConfig, backup: BackupResult): Promise<DeliveryResult> {
+  async deliver(
+    config: TelegramConfig,
+    backup: BackupResult,
+    context: DeliveryContext = {}
+  ): Promise<DeliveryResult> {
     const validatedConfig = this.configSchema.parse(config);
 
-    try {
-      const chunks = await splitFile(backup.filePath, this.maxFileSizeBytes);
-      const isMultiPart = chunks.length > 1;
-      let messageId: string | undefined;
-
-      for (let i = 0; i < chunks.length; i++) {
-        const chunkPath = chunks[i];
-        if (!chunkPath) continue;
-
-        const captionOptions = isMultiPart
-          ? { partNumber: i + 1, totalParts: chunks.length }
-          : {};
+    return deliverParts({
+      platform: 'telegram',
+      backup,
+      maxPartSizeBytes: this.maxFileSizeBytes,
+      context,
+      sendPart: async ({ filePath, partNumber, totalParts, onUploadProgress }) => {
+        const captionOptions = totalParts > 1 ? { partNumber, totalParts } : {};
         const caption = this.buildCaption(backup, captionOptions);
 
-        const response = await this.sendDocument(validatedConfig, chunkPath, caption);
-
-        if (i === 0) {
-          messageId = response.result.message_id.toString();
-        }
-
-        if (isMultiPart) {
-          await removeFile(chunkPath);
-        }
-      }
+        const label = totalParts > 1
+          ? `Uploading part ${partNumber}/${totalParts} to Telegram`
+          : 'Uploading to Telegram';
+        const response = await withRetry(
+          () => this.sendDocument(validatedConfig, filePath, caption, context.signal, onUploadProgress),
+          {
+            config: validatedConfig.retry,
+            label,
+            onProgress: context.onProgress,
+            onRetry: context.onRetry,
+            signal: context.signal,
+          }
+        );
+
+        return response.result.message_id.toString();
+      },
+      sendManifest: async (filePath) => {
+        const caption = this.buildManifestCaption(backup);
+        await withRetry(() => this.sendDocument(validatedConfig, filePath, caption, context.signal), {
+          config: validatedConfig.retry,
+          label: 'Uploading manifest to Telegram',
+          onProgress: context.onProgress,
+          onRetry: context.onRetry,
+          signal: context.signal,
+        });
+      },
+    });
+  }
 
-      const result: DeliveryResult = {
-        success: true,
-        platform: 'telegram',
-        deliveredAt: new Date(),
-      };
+  // Each part is sent as it is cut from the stream; only the last one knows the part count
+  async deliverStream(
+    config: TelegramConfig,
+    backup: StreamedBackup,
+    context: DeliveryContext = {}
+  ): Promise<DeliveryResult> {
+    const validatedConfig = this.configSchema.parse(config);
 
-      if (messageId !== undefined) {
-        return { ...result, messageId };
-      }
-      return result;
-    } catch (error) {
-      return {
-        success: false,
-        platform: 'telegram',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        deliveredAt: new Date(),
-      };
-    }
+    return deliverStreamParts({
+      platform: 'telegram',
+      backup,
+      maxPartSizeBytes: this.maxFileSizeBytes,
+      context,
+      sendPart: async ({ data, fileName, partNumber, totalParts, onUploadProgress }) => {
+        const single = partNumber === 1 && totalParts === 1;
+        const captionOptions = single ? {} : { partNumber, ...(totalParts > 0 && { totalParts }) };
+        const caption = this.buildCaption({ ...backup, sizeBytes: data.length }, captionOptions);
+        const file = { blob: new Blob([data]), fileName };
+
+        const label = single ? 'Uploading to Telegram' : `Uploading part ${partNumber} to Telegram`;
+        const response = await withRetry(
+          () => this.sendDocument(validatedConfig, file, caption, context.signal, onUploadProgress),
+          {
+            config: validatedConfig.retry,
+            label,
+            onProgress: context.onProgress,
+            onRetry: context.onRetry,
+            signal: context.signal,
+          }
+        );
+
+        return response.result.message_id.toString();
+      },
+    });
   }
 
   private buildCaption(
-    backup: BackupResult,
+    backup: CaptionSource,
     options: { partNumber?: number; totalParts?: number }
   ): string {
     const parts: string[] = [];
 
     let title = `<b>Database Backup: ${backup.database}</b>`;
-    if (options.partNumber !== undefined && options.totalParts !== undefined) {
-      title += ` (Part ${options.partNumber}/${options.totalParts})`;
+    if (options.partNumber !== undefined) {
+      const total = options.totalParts === undefined ? '' : `/${options.totalParts}`;
+      title += ` (Part ${options.partNumber}${total})`;
     }
     parts.push(title, '');
 
     parts.push(`<b>Size:</b> ${formatBytes(backup.sizeBytes)}`);
     parts.push(`<b>Compressed:</b> ${backup.compressed ? 'Yes' : 'No'}`);
+    if (backup.recipients) {
+      parts.push(`<b>Encrypted for:</b> ${backup.recipients.map((id) => `<code>${id}</code>`).join(', ')}`);
+    }
 
     const duration = backup.metadata['duration'];
     if (typeof duration === 'number') {
@@ -117,14 +170,36 @@ export class TelegramDeliveryStrategy implements DeliveryStrategy<TelegramConfig
     return parts.join('\n');
   }
 
+  private buildManifestCaption(backup: BackupResult): string {
+    const lines = [`<b>Backup Manifest: ${backup.database}</b>`];
+    if (backup.checksum) {
+      lines.push('', `<b>SHA-256:</b> <code>${backup.checksum}</code>`);
+    }
+    return lines.join('\n');
+  }
+
+  async healthCheck(config: TelegramConfig, signal?: AbortSignal): Promise<void> {
+    const validatedConfig = this.configSchema.parse(config);
+    const url = `https://api.telegram.org/bot${validatedConfig.botToken}/getMe`;
+    const response = await fetch(url, { signal: signal ?? null });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new BackupError(`Telegram getMe failed (${response.status}): ${errorBody}`, 'delivery');
+    }
+  }
+
+  // Takes a path, or the part itself when streaming
   private async sendDocument(
     config: TelegramConfig,
-    filePath: string,
-    caption: string
+    file: string | { blob: Blob; fileName: string },
+    caption: string,
+    signal?: AbortSignal,
+    onUploadProgress?: (bytesSent: number, totalBytes: number) => void
   ): Promise<{ result: { message_id: number } }> {
     const url = `https://api.telegram.org/bot${config.botToken}/sendDocument`;
 
-    const { blob, fileName } = await readFileAsBlob(filePath);
+    const { blob, fileName } = typeof file === 'string' ? await readFileAsBlob(file) : file;
     const formData = new FormData();
 
     formData.append('chat_id', config.chatId);
@@ -139,15 +214,34 @@ export class TelegramDeliveryStrategy implements DeliveryStrategy<TelegramConfig
       formData.append('protect_content', 'true');
     }
 
-    const response = await fetch(url, { method: 'POST', body: formData });
+    const response = await fetch(url, {
+      method: 'POST',
+      ...(await createUploadBody(formData, onUploadProgress)),
+      signal: signal ?? null,
+    });
 
     if (!response.ok) {
       const errorBody = await response.text();
-      throw new BackupError(`Telegram API error (${response.status}): ${errorBody}`, 'delivery');
+      const message = `Telegram API error (${response.status}): ${errorBody}`;
+      if (response.status === 429 || response.status >= 500) {
+        throw new RetryableError(message, this.parseRetryAfter(errorBody));
+      }
+      throw new BackupError(message, 'delivery');
     }
 
     return response.json() as Promise<{ result: { message_id: number } }>;
   }
+
+  // Telegram reports flood waits as parameters.retry_after, in seconds
+  private parseRetryAfter(body: string): number | undefined {
+    try {
+      const parsed = JSON.parse(body) as { parameters?: { retry_after?: unknown } };
+      const seconds = parsed.parameters?.retry_after;
+      return typeof seconds === 'number' ? seconds * 1000 : undefined;
+    } catch {
+      return undefined;
+    }
+  }
 }
 
 export function createTelegramDeliveryStrategy(): DeliveryStrategy<TelegramConfig> {
@@ -0,0 +1,16 @@
+export { MongoRestoreStrategy, createMongoRestoreStrategy } from './mongodb.js';
+export type { MongoRestoreConfig } from './mongodb.js';
+
+export { PostgresRestoreStrategy, createPostgresRestoreStrategy } from './postgresql.js';
+export type { PostgresRestoreConfig } from './postgresql.js';
+
+export { MySQLRestoreStrategy, createMySQLRestoreStrategy } from './mysql.js';
+export type { MySQLRestoreConfig } from './mysql.js';
+
+export { SQLiteRestoreStrategy, createSQLiteRestoreStrategy } from './sqlite.js';
+export type { SQLiteRestoreConfig } from './sqlite.js';
+
+export { RedisRestoreStrategy, createRedisRestoreStrategy } from './redis.js';
+export type { RedisRestoreConfig } from './redis.js';
+
+export { PRE_RESTORE_SUFFIX } from './replace.js';
@@ -0,0 +1,111 @@
+/**
+ * MongoDB Restore Strategy
+ *
+ * Restores mongodump archives with mongorestore --archive. Restoring into
+ * another database renames the namespaces with --nsFrom and --nsTo.
+ */
+
+import { basename } from 'node:path';
+import { z } from 'zod';
+import type { PreflightCheck, RestoreContext, RestoreResult, RestoreStrategy } from '../../types.js';
+import { checkExecutable, describeCommand } from '../../preflight.js';
+import { RestoreError, runCommand } from '../../utils.js';
+
+const MongoRestoreConfigSchema = z.object({
+  connectionString: z.string().min(1, 'Connection string is required'),
+  // Database the archive was dumped from; only that database is restored
+  database: z.string().optional(),
+  authenticationDatabase: z.string().optional(),
+  // Drop each collection before restoring it
+  drop: z.boolean().default(false),
+  restoreArgs: z.array(z.string()).default([]),
+});
+
+export type MongoRestoreConfig = z.infer<typeof MongoRestoreConfigSchema>;
+
+const NOT_FOUND_MESSAGE = 'mongorestore not found. Please install MongoDB Database Tools.';
+
+export class MongoRestoreStrategy implements RestoreStrategy<MongoRestoreConfig> {
+  readonly name = 'mongodb';
+  readonly configSchema = MongoRestoreConfigSchema;
+
+  async restore(config: MongoRestoreConfig, filePath: string, context: RestoreContext = {}): Promise<RestoreResult> {
+    const validatedConfig = this.configSchema.parse(config);
+    const startTime = Date.now();
+    const source = this.extractDatabaseName(validatedConfig);
+
+    await runCommand({
+      command: 'mongorestore',
+      args: this.buildArgs(validatedConfig, filePath, context.target),
+      notFoundMessage: NOT_FOUND_MESSAGE,
+      signal: context.signal,
+    });
+
+    return {
+      database: context.target ?? source ?? 'all-databases',
+      metadata: {
+        type: 'mongodb',
+        sourceDatabase: source,
+        duration: Date.now() - startTime,
+        fileName: basename(filePath),
+      },
+    };
+  }
+
+  async preflight(config: MongoRestoreConfig, target?: string): Promise<PreflightCheck[]> {
+    const validatedConfig = this.configSchema.parse(config);
+    const checks = [await checkExecutable('mongorestore', NOT_FOUND_MESSAGE)];
+
+    try {
+      checks.push(describeCommand('mongorestore', this.buildArgs(validatedConfig, 'backup.archive', target)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      checks.push({ name: 'mongorestore arguments', status: 'fail', message });
+    }
+    return checks;
+  }
+
+  private buildArgs(config: MongoRestoreConfig, archivePath: string, target?: string): string[] {
+    const args: string[] = [`--uri=${config.connectionString}`, `--archive=${archivePath}`];
+    const source = this.extractDatabaseName(config);
+
+    if (target) {
+      if (!source) {
+        throw new RestoreError(
+          'Restoring into another database needs the dumped database name: set database in the config',
+          'restore'
+        );
+      }
+      args.push(`--nsFrom=${source}.*`, `--nsTo=${target}.*`);
+    } else if (source) {
+      args.push(`--nsInclude=${source}.*`);
+    }
+    if (config.drop) {
+      args.push('--drop');
+    }
+    if (config.authenticationDatabase) {
+      args.push(`--authenticationDatabase=${config.authenticationDatabase}`);
+    }
+
+    args.push(...config.restoreArgs);
+    return args;
+  }
+
+  // Undefined for archives of every database
+  private extractDatabaseName(config: MongoRestoreConfig): string | undefined {
+    if (config.database) {
+      return config.database;
+    }
+
+    try {
+      const url = new URL(config.connectionString);
+      return url.pathname.slice(1).split('?')[0] || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export function createMongoRestoreStrategy(): RestoreStrategy<MongoRestoreConfig> {
+  return new MongoRestoreStrategy();
+}
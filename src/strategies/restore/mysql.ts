@@ -0,0 +1,95 @@
+/**
+ * MySQL Restore Strategy
+ *
+ * Pipes a mysqldump file into the mysql client. Dumps of a single database
+ * name no database themselves, so they restore into whichever one is given.
+ */
+
+import { basename } from 'node:path';
+import { z } from 'zod';
+import type { PreflightCheck, RestoreContext, RestoreResult, RestoreStrategy } from '../../types.js';
+import { checkExecutable, describeCommand } from '../../preflight.js';
+import { runCommand } from '../../utils.js';
+
+const MySQLRestoreConfigSchema = z.object({
+  host: z.string().default('localhost'),
+  port: z.number().default(3306),
+  user: z.string(),
+  password: z.string(),
+  database: z.string(),
+  ssl: z.boolean().default(false),
+  // Create the database first if it does not exist
+  createDatabase: z.boolean().default(false),
+  restoreArgs: z.array(z.string()).default([]),
+});
+
+export type MySQLRestoreConfig = z.infer<typeof MySQLRestoreConfigSchema>;
+
+const NOT_FOUND_MESSAGE = 'mysql not found. Please install MySQL client tools.';
+
+export class MySQLRestoreStrategy implements RestoreStrategy<MySQLRestoreConfig> {
+  readonly name = 'mysql';
+  readonly configSchema = MySQLRestoreConfigSchema;
+
+  async restore(config: MySQLRestoreConfig, filePath: string, context: RestoreContext = {}): Promise<RestoreResult> {
+    const validatedConfig = this.configSchema.parse(config);
+    const startTime = Date.now();
+    const database = context.target ?? validatedConfig.database;
+    // The password is passed through MYSQL_PWD, never on the command line
+    const env = { ...process.env, MYSQL_PWD: validatedConfig.password };
+
+    if (validatedConfig.createDatabase) {
+      await runCommand({
+        command: 'mysql',
+        args: [
+          ...this.connectionArgs(validatedConfig),
+          `--execute=CREATE DATABASE IF NOT EXISTS \`${database.replace(/`/g, '``')}\``,
+        ],
+        env,
+        notFoundMessage: NOT_FOUND_MESSAGE,
+        signal: context.signal,
+      });
+    }
+
+    await runCommand({
+      command: 'mysql',
+      args: this.buildArgs(validatedConfig, database),
+      env,
+      input: filePath,
+      notFoundMessage: NOT_FOUND_MESSAGE,
+      signal: context.signal,
+    });
+
+    return {
+      database,
+      metadata: {
+        type: 'mysql',
+        duration: Date.now() - startTime,
+        fileName: basename(filePath),
+      },
+    };
+  }
+
+  async preflight(config: MySQLRestoreConfig, target?: string): Promise<PreflightCheck[]> {
+    const validatedConfig = this.configSchema.parse(config);
+    const args = this.buildArgs(validatedConfig, target ?? validatedConfig.database);
+
+    return [await checkExecutable('mysql', NOT_FOUND_MESSAGE), describeCommand('mysql', args)];
+  }
+
+  private buildArgs(config: MySQLRestoreConfig, database: string): string[] {
+    return [...this.connectionArgs(config), ...config.restoreArgs, database];
+  }
+
+  private connectionArgs(config: MySQLRestoreConfig): string[] {
+    const args: string[] = [`--host=${config.host}`, `--port=${config.port}`, `--user=${config.user}`];
+    if (config.ssl) {
+      args.push('--ssl-mode=REQUIRED');
+    }
+    return args;
+  }
+}
+
+export function createMySQLRestoreStrategy(): RestoreStrategy<MySQLRestoreConfig> {
+  return new MySQLRestoreStrategy();
+}
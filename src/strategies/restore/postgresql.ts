@@ -0,0 +1,199 @@
+/**
+ * PostgreSQL Restore Strategy
+ *
+ * Restores custom, tar and directory dumps with pg_restore and plain SQL
+ * dumps with psql; the format is read from the dump itself. The target
+ * database must exist: create it with createdb before restoring into it.
+ */
+
+import { basename } from 'node:path';
+import { stat } from 'node:fs/promises';
+import { z } from 'zod';
+import type { PreflightCheck, RestoreContext, RestoreResult, RestoreStrategy } from '../../types.js';
+import { checkExecutable, describeCommand } from '../../preflight.js';
+import { readFileHeader, runCommand } from '../../utils.js';
+
+const PostgresRestoreConfigSchema = z.object({
+  connectionString: z.string().min(1, 'Connection string is required'),
+  // Drop objects before recreating them (pg_restore only; plain dumps carry their own DROP statements)
+  clean: z.boolean().default(false),
+  // Skip ownership and grants, e.g. when the original roles do not exist (pg_restore only)
+  noOwner: z.boolean().default(false),
+  // Parallel pg_restore jobs; not supported for the tar format
+  jobs: z.number().int().min(1).default(1),
+  // Stop at the first error; plain dumps then also run in a single transaction
+  exitOnError: z.boolean().default(true),
+  restoreArgs: z.array(z.string()).default([]),
+});
+
+export type PostgresRestoreConfig = z.infer<typeof PostgresRestoreConfigSchema>;
+
+type DumpFormat = 'plain' | 'custom' | 'tar' | 'directory';
+
+const NOT_FOUND_MESSAGE = 'pg_restore not found. Please install PostgreSQL client tools.';
+const PSQL_NOT_FOUND_MESSAGE = 'psql not found. Please install PostgreSQL client tools.';
+
+const CUSTOM_MAGIC = 'PGDMP';
+// Tar headers carry "ustar" at offset 257
+const TAR_MAGIC = 'ustar';
+const TAR_MAGIC_OFFSET = 257;
+
+export class PostgresRestoreStrategy implements RestoreStrategy<PostgresRestoreConfig> {
+  readonly name = 'postgresql';
+  readonly configSchema = PostgresRestoreConfigSchema;
+
+  async restore(
+    config: PostgresRestoreConfig,
+    filePath: string,
+    context: RestoreContext = {}
+  ): Promise<RestoreResult> {
+    const validatedConfig = this.configSchema.parse(config);
+    const startTime = Date.now();
+
+    const connectionString = context.target
+      ? this.withDatabase(validatedConfig.connectionString, context.target)
+      : validatedConfig.connectionString;
+    const format = await this.detectFormat(filePath);
+
+    if (format === 'plain') {
+      if (validatedConfig.clean || validatedConfig.noOwner || validatedConfig.jobs > 1) {
+        context.onProgress?.('clean, noOwner and jobs only apply to pg_restore and are ignored for plain SQL dumps');
+      }
+      await runCommand({
+        command: 'psql',
+        args: this.buildPsqlArgs(validatedConfig, connectionString, filePath),
+        env: this.buildEnv(connectionString),
+        notFoundMessage: PSQL_NOT_FOUND_MESSAGE,
+        signal: context.signal,
+      });
+    } else {
+      await runCommand({
+        command: 'pg_restore',
+        args: this.buildArgs(validatedConfig, connectionString, filePath, format),
+        env: this.buildEnv(connectionString),
+        notFoundMessage: NOT_FOUND_MESSAGE,
+        signal: context.signal,
+      });
+    }
+
+    return {
+      database: context.target ?? this.extractDatabaseName(validatedConfig.connectionString),
+      metadata: {
+        type: 'postgresql',
+        format,
+        duration: Date.now() - startTime,
+        fileName: basename(filePath),
+      },
+    };
+  }
+
+  async preflight(config: PostgresRestoreConfig, target?: string): Promise<PreflightCheck[]> {
+    const validatedConfig = this.configSchema.parse(config);
+    const connectionString = target
+      ? this.withDatabase(validatedConfig.connectionString, target)
+      : validatedConfig.connectionString;
+    const args = this.buildArgs(validatedConfig, connectionString, 'backup.dump', 'custom');
+
+    return [
+      await checkExecutable('pg_restore', NOT_FOUND_MESSAGE),
+      await checkExecutable('psql', PSQL_NOT_FOUND_MESSAGE),
+      describeCommand('pg_restore', args),
+    ];
+  }
+
+  private async detectFormat(filePath: string): Promise<DumpFormat> {
+    if ((await stat(filePath)).isDirectory()) {
+      return 'directory';
+    }
+
+    const header = await readFileHeader(filePath, TAR_MAGIC_OFFSET + TAR_MAGIC.length);
+    if (header.subarray(0, CUSTOM_MAGIC.length).toString('latin1') === CUSTOM_MAGIC) {
+      return 'custom';
+    }
+    if (header.subarray(TAR_MAGIC_OFFSET).toString('latin1') === TAR_MAGIC) {
+      return 'tar';
+    }
+    return 'plain';
+  }
+
+  private buildArgs(
+    config: PostgresRestoreConfig,
+    connectionString: string,
+    filePath: string,
+    format: DumpFormat
+  ): string[] {
+    const args: string[] = [`--dbname=${connectionString}`];
+
+    if (config.clean) {
+      args.push('--clean', '--if-exists');
+    }
+    if (config.noOwner) {
+      args.push('--no-owner', '--no-privileges');
+    }
+    if (config.exitOnError) {
+      args.push('--exit-on-error');
+    }
+    if (config.jobs > 1 && format !== 'tar') {
+      args.push(`--jobs=${config.jobs}`);
+    }
+
+    args.push(...config.restoreArgs);
+    args.push(filePath);
+
+    return args;
+  }
+
+  private buildPsqlArgs(config: PostgresRestoreConfig, connectionString: string, filePath: string): string[] {
+    const args: string[] = ['--no-psqlrc', `--dbname=${connectionString}`, `--file=${filePath}`];
+    if (config.exitOnError) {
+      args.push('--set=ON_ERROR_STOP=1', '--single-transaction');
+    }
+
+    args.push(...config.restoreArgs);
+    return args;
+  }
+
+  private buildEnv(connectionString: string): NodeJS.ProcessEnv {
+    const env = { ...process.env };
+
+    try {
+      const url = new URL(connectionString);
+      if (url.password) {
+        env['PGPASSWORD'] = decodeURIComponent(url.password);
+      }
+    } catch {
+      // Not a URL format, let the client handle it
+    }
+
+    return env;
+  }
+
+  // Swaps the database in a URL or keyword/value connection string
+  private withDatabase(connectionString: string, database: string): string {
+    try {
+      const url = new URL(connectionString);
+      url.pathname = `/${encodeURIComponent(database)}`;
+      return url.toString();
+    } catch {
+      const keyword = `dbname='${database.replace(/['\\]/g, '\\$&')}'`;
+      return /dbname=\S+/i.test(connectionString)
+        ? connectionString.replace(/dbname=\S+/i, () => keyword)
+        : `${connectionString} ${keyword}`;
+    }
+  }
+
+  private extractDatabaseName(connectionString: string): string {
+    try {
+      const url = new URL(connectionString);
+      const dbFromPath = url.pathname.slice(1);
+      return dbFromPath || 'postgres';
+    } catch {
+      const match = /dbname=([^\s]+)/i.exec(connectionString);
+      return match?.[1] ?? 'postgres';
+    }
+  }
+}
+
+export function createPostgresRestoreStrategy(): RestoreStrategy<PostgresRestoreConfig> {
+  return new PostgresRestoreStrategy();
+}
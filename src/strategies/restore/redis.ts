@@ -0,0 +1,85 @@
+/**
+ * Redis Restore Strategy
+ *
+ * Places an RDB snapshot where Redis loads it at startup. Stop Redis first:
+ * a running server overwrites the file on its next save or shutdown. With
+ * appendonly enabled Redis loads its AOF instead, so turn it off or remove
+ * the AOF before starting Redis again.
+ */
+
+import { access, constants } from 'node:fs/promises';
+import { basename, dirname } from 'node:path';
+import { z } from 'zod';
+import type { PreflightCheck, RestoreContext, RestoreResult, RestoreStrategy } from '../../types.js';
+import { validateRdbPath } from '../backup/redis.js';
+import { BackupError, RestoreError, readFileHeader } from '../../utils.js';
+import { replaceFile } from './replace.js';
+
+const RedisRestoreConfigSchema = z.object({
+  // The dbfilename in Redis' dir, e.g. /var/lib/redis/dump.rdb
+  rdbPath: z.string().min(1, 'RDB path is required'),
+  // Move the current snapshot to "<rdbPath>.pre-restore" instead of discarding it
+  keepExisting: z.boolean().default(true),
+});
+
+export type RedisRestoreConfig = z.infer<typeof RedisRestoreConfigSchema>;
+
+const RDB_MAGIC = 'REDIS';
+
+export class RedisRestoreStrategy implements RestoreStrategy<RedisRestoreConfig> {
+  readonly name = 'redis';
+  readonly configSchema = RedisRestoreConfigSchema;
+
+  async restore(config: RedisRestoreConfig, filePath: string, context: RestoreContext = {}): Promise<RestoreResult> {
+    const validatedConfig = this.configSchema.parse(config);
+    const startTime = Date.now();
+    if (context.target) {
+      throw new RestoreError('An RDB snapshot restores the whole dataset; a target is not supported', 'restore');
+    }
+    validateRdbPath(validatedConfig.rdbPath);
+
+    const header = (await readFileHeader(filePath, RDB_MAGIC.length)).toString('latin1');
+    if (header !== RDB_MAGIC) {
+      throw new RestoreError(`Not an RDB snapshot: ${basename(filePath)}`, 'restore');
+    }
+
+    const keptPath = await replaceFile(filePath, validatedConfig.rdbPath, {
+      keepExisting: validatedConfig.keepExisting,
+      signal: context.signal,
+    });
+    if (keptPath) {
+      context.onProgress?.(`The previous snapshot was kept as ${keptPath}`);
+    }
+    context.onProgress?.('Start Redis to load the snapshot; with appendonly enabled it loads the AOF instead');
+
+    return {
+      database: validatedConfig.rdbPath,
+      metadata: {
+        type: 'redis',
+        duration: Date.now() - startTime,
+        previousPath: keptPath,
+      },
+    };
+  }
+
+  async preflight(config: RedisRestoreConfig, target?: string): Promise<PreflightCheck[]> {
+    const validatedConfig = this.configSchema.parse(config);
+    if (target) {
+      return [{ name: 'target', status: 'fail', message: 'Redis restores do not support a target database' }];
+    }
+    const directory = dirname(validatedConfig.rdbPath);
+
+    try {
+      validateRdbPath(validatedConfig.rdbPath);
+      await access(directory, constants.W_OK);
+      return [{ name: 'rdb path', status: 'pass', message: `${directory} is writable` }];
+    } catch (error) {
+      const message = error instanceof BackupError ? error.message : `${directory} does not exist or is not writable`;
+      return [{ name: 'rdb path', status: 'fail', message }];
+    }
+  }
+}
+
+export function createRedisRestoreStrategy(): RestoreStrategy<RedisRestoreConfig> {
+  return new RedisRestoreStrategy();
+}
@@ -0,0 +1,78 @@
+import { randomBytes } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { access, open, rename } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { RestoreError, removeFile, syncDirectory } from '../../utils.js';
+
+// Where keepExisting moves the file a restore replaced
+export const PRE_RESTORE_SUFFIX = '.pre-restore';
+
+export interface ReplaceFileOptions {
+  // Move the current file aside instead of discarding it
+  keepExisting: boolean;
+  // Suffixes of files that belong to the target, e.g. SQLite's '-wal'; they are moved or removed with it
+  companions?: string[] | undefined;
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * Copies sourcePath next to targetPath, syncs it and renames it into place,
+ * so the target is never half-written. Returns where the previous file was
+ * kept, if there was one.
+ */
+export async function replaceFile(
+  sourcePath: string,
+  targetPath: string,
+  options: ReplaceFileOptions
+): Promise<string | undefined> {
+  const keptPath = `${targetPath}${PRE_RESTORE_SUFFIX}`;
+  if (options.keepExisting && (await exists(keptPath))) {
+    throw new RestoreError(`${keptPath} is left from an earlier restore; move or remove it first`, 'restore');
+  }
+
+  const tempPath = `${targetPath}.tmp-${randomBytes(4).toString('hex')}`;
+  try {
+    const destination = createWriteStream(tempPath, { flags: 'wx' });
+    await pipeline(createReadStream(sourcePath), destination, options.signal ? { signal: options.signal } : {});
+    const handle = await open(tempPath, 'r+');
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    let kept: string | undefined;
+    // Companion files are handled even without a main file: a stale -wal would be applied to the restored one
+    for (const suffix of ['', ...(options.companions ?? [])]) {
+      const path = `${targetPath}${suffix}`;
+      if (!(await exists(path))) {
+        continue;
+      }
+      if (options.keepExisting) {
+        await rename(path, `${keptPath}${suffix}`);
+        if (suffix === '') {
+          kept = keptPath;
+        }
+      } else if (suffix !== '') {
+        await removeFile(path);
+      }
+    }
+
+    await rename(tempPath, targetPath);
+    await syncDirectory(dirname(targetPath));
+    return kept;
+  } catch (error) {
+    await removeFile(tempPath);
+    throw error;
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * SQLite Restore Strategy
+ *
+ * Replaces the database file with the backup. Close every connection to the
+ * database first: open connections keep reading the replaced file. Its -wal
+ * and -shm files belong to the replaced database and are moved or removed.
+ */
+
+import { access, constants } from 'node:fs/promises';
+import { basename, dirname } from 'node:path';
+import { z } from 'zod';
+import type { PreflightCheck, RestoreContext, RestoreResult, RestoreStrategy } from '../../types.js';
+import { SQLITE_HEADER, validateSqlitePath } from '../backup/sqlite.js';
+import { BackupError, RestoreError, readFileHeader } from '../../utils.js';
+import { replaceFile } from './replace.js';
+
+const SQLiteRestoreConfigSchema = z.object({
+  path: z.string().min(1, 'Database path is required'),
+  // Move the current database to "<path>.pre-restore" instead of discarding it
+  keepExisting: z.boolean().default(true),
+});
+
+export type SQLiteRestoreConfig = z.infer<typeof SQLiteRestoreConfigSchema>;
+
+const COMPANION_SUFFIXES = ['-wal', '-shm', '-journal'];
+
+export class SQLiteRestoreStrategy implements RestoreStrategy<SQLiteRestoreConfig> {
+  readonly name = 'sqlite';
+  readonly configSchema = SQLiteRestoreConfigSchema;
+
+  async restore(config: SQLiteRestoreConfig, filePath: string, context: RestoreContext = {}): Promise<RestoreResult> {
+    const validatedConfig = this.configSchema.parse(config);
+    const startTime = Date.now();
+    // The target is another database file
+    const targetPath = context.target ?? validatedConfig.path;
+    validateSqlitePath(targetPath);
+
+    const header = (await readFileHeader(filePath, SQLITE_HEADER.length)).toString('latin1');
+    if (header.length > 0 && header !== SQLITE_HEADER) {
+      throw new RestoreError(`Not a SQLite database: ${basename(filePath)}`, 'restore');
+    }
+
+    const keptPath = await replaceFile(filePath, targetPath, {
+      keepExisting: validatedConfig.keepExisting,
+      companions: COMPANION_SUFFIXES,
+      signal: context.signal,
+    });
+    if (keptPath) {
+      context.onProgress?.(`The previous database was kept as ${keptPath}`);
+    }
+
+    return {
+      database: targetPath,
+      metadata: {
+        type: 'sqlite',
+        duration: Date.now() - startTime,
+        previousPath: keptPath,
+      },
+    };
+  }
+
+  async preflight(config: SQLiteRestoreConfig, target?: string): Promise<PreflightCheck[]> {
+    const validatedConfig = this.configSchema.parse(config);
+    const targetPath = target ?? validatedConfig.path;
+    const directory = dirname(targetPath);
+
+    try {
+      validateSqlitePath(targetPath);
+      await access(directory, constants.W_OK);
+      return [{ name: 'database file', status: 'pass', message: `${directory} is writable` }];
+    } catch (error) {
+      const message = error instanceof BackupError ? error.message : `${directory} does not exist or is not writable`;
+      return [{ name: 'database file', status: 'fail', message }];
+    }
+  }
+}
+
+export function createSQLiteRestoreStrategy(): RestoreStrategy<SQLiteRestoreConfig> {
+  return new SQLiteRestoreStrategy();
+}
@@ -0,0 +1,68 @@
+import { createHash } from 'node:crypto';
+import { pipeline, Transform, type Readable } from 'node:stream';
+import type { BackupStream, Compressor } from './types.js';
+
+export interface StreamPipelineOptions {
+  // Compresses the dump when set; it must support createStream()
+  compressor?: Compressor | undefined;
+  // Running count of uncompressed bytes read from the dump tool
+  onDumpBytes?: ((bytes: number) => void) | undefined;
+}
+
+export interface StreamPipeline {
+  // What the delivery strategy reads
+  readonly stream: Readable;
+  // Byte counts and SHA-256 of the delivered stream; complete once it has ended
+  stats(): StreamStats;
+}
+
+export interface StreamStats {
+  readonly inputBytes: number;
+  readonly sizeBytes: number;
+  readonly checksum: string | undefined;
+}
+
+/**
+ * Chains a dump stream through the compressor while counting and hashing the
+ * output. The stream only ends once the dump tool has exited successfully, so
+ * a failed dump errors the stream before its last bytes are read.
+ */
+export function createStreamPipeline(source: BackupStream, options: StreamPipelineOptions = {}): StreamPipeline {
+  let inputBytes = 0;
+  let sizeBytes = 0;
+  let checksum: string | undefined;
+  const hash = createHash('sha256');
+
+  const input = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      inputBytes += chunk.length;
+      options.onDumpBytes?.(inputBytes);
+      callback(null, chunk);
+    },
+    // Holds back the end of the stream until the dump tool's exit code is known
+    flush(callback) {
+      source.done.then(() => callback(), (error: unknown) => callback(error as Error));
+    },
+  });
+  const output = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      sizeBytes += chunk.length;
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+    flush(callback) {
+      checksum = hash.digest('hex');
+      callback();
+    },
+  });
+
+  const compressor = options.compressor?.createStream?.();
+  const streams = compressor ? [source.stream, input, compressor, output] : [source.stream, input, output];
+  // Errors reach the reader through the destroyed output stream
+  pipeline(streams, () => {});
+
+  return {
+    stream: output,
+    stats: () => ({ inputBytes, sizeBytes, checksum }),
+  };
+}
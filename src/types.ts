@@ -1,3 +1,4 @@
+import type { Readable, Transform } from 'node:stream';
 import { z } from 'zod';
 
 // ============================================================================
@@ -11,15 +12,35 @@ export interface BackupResult {
   readonly database: string;
   readonly createdAt: Date;
   readonly compressed: boolean;
+  // Codec of a compressed backup; unset when the file is not compressed by wbackup
+  readonly codec?: CompressionCodec | undefined;
+  // Set by the manager when BackupManager.encrypt() is configured; the file then ends in .enc
+  readonly encrypted?: boolean | undefined;
+  // Fingerprints of the public keys a recipient-encrypted backup can be decrypted with
+  readonly recipients?: string[] | undefined;
   readonly metadata: Record<string, unknown>;
+  // SHA-256 of the file, set by the manager; directory dumps have none
+  readonly checksum?: string | undefined;
+  // Set for BackupManager.streaming() runs; filePath is then empty because no file was written
+  readonly streamed?: boolean | undefined;
 }
 
 export interface DeliveryResult {
   readonly success: boolean;
   readonly platform: string;
   readonly messageId?: string;
+  // Where the backup ended up, for strategies that write files
+  readonly filePath?: string;
   readonly error?: string;
   readonly deliveredAt: Date;
+  // Set by strategies that upload in parts
+  readonly partsDelivered?: number;
+  readonly totalParts?: number;
+  // Set by the repository strategy: the snapshot written, the bytes not stored before
+  // and the share of the backup that was already in the repository (0-1)
+  readonly snapshotId?: string;
+  readonly newBytes?: number;
+  readonly dedupRatio?: number;
 }
 
 export interface BackupMetadata {
@@ -35,18 +56,171 @@ export interface BackupMetadata {
 // Strategy Interfaces
 // ============================================================================
 
+// Per-run hooks the manager hands to backup strategies
+export interface BackupContext {
+  // Aborts the dump; strategies remove their partial files before rejecting
+  signal?: AbortSignal | undefined;
+  // Codec for maybeCompress(); gzip at level 6 when unset
+  compressor?: Compressor | undefined;
+  // Called by maybeCompress() once the dump has been compressed
+  onCompressed?: ((stats: CompressionStats) => void) | undefined;
+  // Called by maybeCompress() when compression is on but the dump format is already compressed
+  onCompressionSkipped?: ((reason: string) => void) | undefined;
+  // Periodic byte counts while dumping and compressing
+  onByteProgress?: ((stage: BackupByteStage, progress: ByteProgress) => void) | undefined;
+  progressIntervalMs?: number | undefined;
+  // Temp path for the dump, set when the manager has a naming template; defaults to generateTempPath()
+  outputPath?: ((database: string, extension: string) => string) | undefined;
+}
+
+export type BackupByteStage = 'dump' | 'compress';
+
+export interface ByteProgress {
+  readonly bytes: number;
+  // Known for compression, file copies and uploads; unknown while a dump tool writes
+  readonly totalBytes?: number | undefined;
+  readonly bytesPerSecond: number;
+  readonly etaMs?: number | undefined;
+  readonly elapsedMs: number;
+}
+
+export interface CompressionStats {
+  readonly codec: CompressionCodec;
+  readonly inputBytes: number;
+  readonly outputBytes: number;
+  readonly durationMs: number;
+}
+
 export interface BackupStrategy<TConfig = unknown> {
   readonly name: string;
   readonly configSchema: z.ZodType<TConfig>;
-  backup(config: TConfig): Promise<BackupResult>;
+  backup(config: TConfig, context?: BackupContext): Promise<BackupResult>;
   cleanup(filePath: string): Promise<void>;
+  // The BackupResult.database backup() would report, known before anything is dumped
+  databaseName?(config: TConfig): string;
+  // Checks what backup() needs without dumping anything
+  preflight?(config: TConfig): Promise<PreflightCheck[]>;
+  // Cheap connectivity test; rejects with the reason the database is unreachable
+  healthCheck?(config: TConfig, signal?: AbortSignal): Promise<void>;
+  // Versions of the dump tools, e.g. { pg_dump: 'pg_dump (PostgreSQL) 16.2' }, for the manifest
+  toolVersions?(): Promise<Record<string, string>>;
+  // Streams the dump tool's output instead of writing a file; used by BackupManager.streaming()
+  backupStream?(config: TConfig, context?: BackupContext): Promise<BackupStream>;
+}
+
+// Uncompressed dump output of backupStream()
+export interface BackupStream {
+  readonly stream: Readable;
+  // Settles when the dump tool exits; rejects when it failed, even if its output ended cleanly
+  readonly done: Promise<void>;
+  readonly fileName: string;
+  readonly database: string;
+  readonly metadata: Record<string, unknown>;
+  // Set for formats the dump tool compresses itself
+  readonly compressionSkipReason?: string | undefined;
+}
+
+// Per-run hooks the manager hands to delivery strategies
+export interface DeliveryContext {
+  onProgress?: (message: string) => void;
+  // Where to persist multi-part progress so an interrupted delivery can resume
+  statePath?: string;
+  signal?: AbortSignal | undefined;
+  // Called after each part is uploaded; parts skipped on resume are not reported
+  onPart?: ((part: DeliveredPartInfo) => void) | undefined;
+  // Periodic byte counts while a part is uploaded
+  onByteProgress?: ((progress: UploadProgress) => void) | undefined;
+  progressIntervalMs?: number | undefined;
+  // Called before a failed upload is retried
+  onRetry?: ((attempt: number, delayMs: number) => void) | undefined;
+  // Delivered after the backup when set; the strategy fills in the parts it sent
+  manifest?: BackupManifest | undefined;
+}
+
+export interface UploadProgress extends ByteProgress {
+  readonly partNumber: number;
+  // 0 while a streamed delivery has not reached its last part
+  readonly totalParts: number;
+}
+
+export interface DeliveredPartInfo {
+  readonly partNumber: number;
+  // 0 while a streamed delivery has not reached its last part
+  readonly totalParts: number;
+  readonly sizeBytes: number;
+  readonly messageId?: string | undefined;
 }
 
 export interface DeliveryStrategy<TConfig = unknown> {
   readonly name: string;
   readonly configSchema: z.ZodType<TConfig>;
   readonly maxFileSizeBytes: number;
-  deliver(config: TConfig, backup: BackupResult): Promise<DeliveryResult>;
+  deliver(config: TConfig, backup: BackupResult, context?: DeliveryContext): Promise<DeliveryResult>;
+  // True when deliver() moves the backup file away instead of reading it
+  takesBackup?(config: TConfig): boolean;
+  // Uploads a backup while it is dumped; used by BackupManager.streaming()
+  deliverStream?(config: TConfig, backup: StreamedBackup, context?: DeliveryContext): Promise<DeliveryResult>;
+  // Cheap connectivity test; rejects with the reason the destination is unreachable
+  healthCheck?(config: TConfig, signal?: AbortSignal): Promise<void>;
+}
+
+// A backup that is delivered as it is produced; its size and checksum are only known afterwards
+export interface StreamedBackup {
+  readonly stream: Readable;
+  readonly fileName: string;
+  readonly database: string;
+  readonly createdAt: Date;
+  readonly compressed: boolean;
+  readonly codec?: CompressionCodec | undefined;
+  readonly metadata: Record<string, unknown>;
+}
+
+// Per-run hooks the restore manager hands to restore strategies
+export interface RestoreContext {
+  signal?: AbortSignal | undefined;
+  // Database to restore into instead of the configured one; a file path for SQLite
+  target?: string | undefined;
+  onProgress?: ((message: string) => void) | undefined;
+}
+
+export interface RestoreResult {
+  // Database that was restored into; the database file for SQLite and Redis
+  readonly database: string;
+  readonly metadata: Record<string, unknown>;
+}
+
+export interface RestoreStrategy<TConfig = unknown> {
+  readonly name: string;
+  readonly configSchema: z.ZodType<TConfig>;
+  // filePath is a plain dump: already decrypted and decompressed
+  restore(config: TConfig, filePath: string, context?: RestoreContext): Promise<RestoreResult>;
+  // Checks what restore() needs without changing anything
+  preflight?(config: TConfig, target?: string): Promise<PreflightCheck[]>;
+}
+
+// ============================================================================
+// Compression Types
+// ============================================================================
+
+export type CompressionCodec = 'gzip' | 'brotli' | 'zstd';
+
+export interface CompressFileOptions {
+  signal?: AbortSignal | undefined;
+  // Running count of uncompressed bytes read
+  onBytes?: ((bytesRead: number) => void) | undefined;
+}
+
+// Compresses one file into another; see createCompressor()
+export interface Compressor {
+  readonly codec: CompressionCodec;
+  readonly level: number;
+  // Appended to the compressed file name, e.g. ".zst"
+  readonly extension: string;
+  compress(inputPath: string, outputPath: string, options?: CompressFileOptions): Promise<void>;
+  // Transform for streaming runs; unset when the codec needs an external tool
+  createStream?(): Transform;
+  // Checks for external tools the compressor needs
+  preflight?(): Promise<PreflightCheck>;
 }
 
 // ============================================================================
@@ -55,11 +229,17 @@ export interface DeliveryStrategy<TConfig = unknown> {
 
 export type BackupStrategyFactory<TConfig = unknown> = () => BackupStrategy<TConfig>;
 export type DeliveryStrategyFactory<TConfig = unknown> = () => DeliveryStrategy<TConfig>;
+export type RestoreStrategyFactory<TConfig = unknown> = () => RestoreStrategy<TConfig>;
 
 // ============================================================================
 // Manager Types
 // ============================================================================
 
+// all: every destination must succeed
+// any: at least one destination must succeed
+// best-effort: delivery failures never fail the run
+export type DeliveryPolicy = 'all' | 'any' | 'best-effort';
+
 export interface BackupManagerConfig {
   database: {
     type: string;
@@ -69,21 +249,438 @@ export interface BackupManagerConfig {
     type: string;
     config: unknown;
   };
+  // Further destinations the backup is delivered to alongside delivery
+  deliveries?: Array<{
+    type: string;
+    config: unknown;
+  }> | undefined;
+  deliveryPolicy?: DeliveryPolicy | undefined;
   compress: boolean;
   retainBackup: boolean;
+  timeouts?: PhaseTimeouts;
   tempDir?: string;
 }
 
+export interface PhaseTimeouts {
+  backup?: number;
+  delivery?: number;
+}
+
+export interface RunOptions {
+  // Cancels the run; the manager rejects with BackupCancelledError
+  signal?: AbortSignal | undefined;
+}
+
 export interface BackupManagerResult {
   readonly backup: BackupResult;
+  // Result of the first configured destination
   readonly delivery: DeliveryResult;
+  // Results of every configured destination, in configuration order
+  readonly deliveries: DeliveryResult[];
+  readonly totalDuration: number;
+  // Set when a retention policy moved the backup into its archive directory
+  readonly archivedPath?: string | undefined;
+  readonly pruned?: PruneResult | undefined;
+}
+
+// ============================================================================
+// Restore Types
+// ============================================================================
+
+export type RestorePhase = 'decrypt' | 'decompress' | 'restore' | 'cancelled';
+
+export interface RestoreManagerResult extends RestoreResult {
+  // The backup file as passed to from()
+  readonly sourcePath: string;
+  // Size of the dump the restore tool read; unset for directory dumps
+  readonly sizeBytes?: number | undefined;
+  readonly decrypted: boolean;
+  // Codec the backup was decompressed with
+  readonly codec?: CompressionCodec | undefined;
+  readonly durationMs: number;
+}
+
+// ============================================================================
+// Preflight Types
+// ============================================================================
+
+export type PreflightStatus = 'pass' | 'warn' | 'fail';
+
+export interface PreflightCheck {
+  readonly name: string;
+  readonly status: PreflightStatus;
+  readonly message: string;
+}
+
+export interface PreflightReport {
+  // Worst status of all checks
+  readonly status: PreflightStatus;
+  // False when any check failed
+  readonly ok: boolean;
+  readonly checks: PreflightCheck[];
+}
+
+// ============================================================================
+// Health Check Types
+// ============================================================================
+
+// unsupported: the strategy does not implement healthCheck()
+export type HealthStatus = 'healthy' | 'unhealthy' | 'unsupported';
+
+export interface HealthCheckResult {
+  readonly name: string;
+  readonly kind: 'database' | 'delivery' | 'disk';
+  readonly status: HealthStatus;
+  readonly latencyMs: number;
+  // Failure reason, or details such as the free disk space
+  readonly message?: string;
+}
+
+export interface HealthReport {
+  // False when any check is unhealthy
+  readonly healthy: boolean;
+  readonly checks: HealthCheckResult[];
+}
+
+export interface HealthCheckOptions {
+  // Limit for each check (default: 10000)
+  timeoutMs?: number;
+  // The disk check fails when the temp directory has less free space (default: 0)
+  minFreeBytes?: number;
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// Hook Types
+// ============================================================================
+
+export type HookName = 'beforeBackup' | 'afterBackup' | 'beforeDelivery' | 'afterDelivery' | 'finally';
+
+export interface HookContext {
+  readonly hook: HookName;
+  // Name of the database being backed up, as in BackupResult.database
+  readonly database: string;
+  // Set once the dump has finished
+  readonly result?: BackupResult | undefined;
+  // Set for afterDelivery and for finally after a delivery attempt
+  readonly deliveries?: DeliveryResult[] | undefined;
+  // Set for finally when the run failed
+  readonly error?: Error | undefined;
+  // Aborts when the hook times out or the run is cancelled
+  readonly signal: AbortSignal;
+}
+
+export type HookFunction = (context: HookContext) => void | Promise<void>;
+
+// A function, or a shell command that receives the context as WBACKUP_* env vars
+export type BackupHook = HookFunction | string;
+
+export interface HookOptions {
+  timeoutMs?: number;
+  // Fail the run when the hook fails instead of reporting it and continuing
+  abortOnFailure?: boolean;
+}
+
+
+// ============================================================================
+
+export interface BackupPlanOptions {
+  // Maximum number of jobs running at the same time (default: 1)
+  concurrency?: number;
+  // Cancels running jobs; jobs that have not started fail as cancelled
+  signal?: AbortSignal;
+}
+
+export type BackupJobResult =
+  | {
+      readonly id: string;
+      readonly success: true;
+      readonly result: BackupManagerResult;
+      readonly duration: number;
+    }
+  | {
+      readonly id: string;
+      readonly success: false;
+      readonly error: Error;
+      readonly phase: BackupPhase;
+      readonly duration: number;
+    };
+
+export interface BackupPlanReport {
+  // One entry per job, in the order the jobs were added
+  readonly jobs: BackupJobResult[];
+  readonly succeeded: number;
+  readonly failed: number;
   readonly totalDuration: number;
 }
 
+// ============================================================================
+// Scheduler Types
+// ============================================================================
+
+// skip: drop a tick while the previous run is still going
+// queue: run once more as soon as the previous run finishes
+export type ScheduleOverlap = 'skip' | 'queue';
+
+export interface ScheduleOptions {
+  overlap?: ScheduleOverlap;
+}
+
+export interface CronScheduleOptions extends ScheduleOptions {
+  // IANA time zone such as 'Europe/Istanbul' (default: system time zone)
+  timeZone?: string;
+}
+
+export interface ScheduledJobStatus {
+  readonly id: string;
+  readonly nextRunAt?: Date;
+  readonly running: boolean;
+}
+
+// Time source for the scheduler, replaceable in tests
+export interface SchedulerClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+// ============================================================================
+// Catalog Types
+// ============================================================================
+
+export type CatalogStatus = 'success' | 'failed';
+
+export interface CatalogDelivery {
+  readonly platform: string;
+  readonly success: boolean;
+  readonly messageId?: string | undefined;
+  readonly error?: string | undefined;
+  readonly partsDelivered?: number | undefined;
+  readonly totalParts?: number | undefined;
+}
+
+// One recorded run() or resume() call
+export interface CatalogEntry {
+  readonly id: string;
+  readonly status: CatalogStatus;
+  // Database name, known before the dump; the strategy name for strategies that cannot tell it
+  readonly database: string;
+  readonly strategy: string;
+  readonly startedAt: Date;
+  readonly finishedAt: Date;
+  readonly durationMs: number;
+  readonly fileName?: string | undefined;
+  readonly sizeBytes?: number | undefined;
+  readonly compressed?: boolean | undefined;
+  // Hex SHA-256 of the backup file
+  readonly checksum?: string | undefined;
+  readonly deliveries: CatalogDelivery[];
+  readonly error?: string | undefined;
+  readonly errorPhase?: BackupPhase | undefined;
+}
+
+export interface CatalogQuery {
+  database?: string | undefined;
+  strategy?: string | undefined;
+  status?: CatalogStatus | undefined;
+  // Bounds on finishedAt, both inclusive
+  since?: Date | undefined;
+  until?: Date | undefined;
+  limit?: number | undefined;
+}
+
+export interface BackupCatalog {
+  record(entry: CatalogEntry): Promise<void>;
+  // Newest first
+  list(query?: CatalogQuery): Promise<CatalogEntry[]>;
+  latest(database: string, query?: Omit<CatalogQuery, 'database' | 'limit'>): Promise<CatalogEntry | undefined>;
+}
+
+// ============================================================================
+// Retention Types
+// ============================================================================
+
+export interface ArchivedBackup {
+  readonly path: string;
+  readonly fileName: string;
+  readonly sizeBytes: number;
+  // File modification time, which archiving preserves
+  readonly createdAt: Date;
+}
+
+export interface PruneOptions {
+  // List what would be deleted without deleting it
+  dryRun?: boolean | undefined;
+}
+
+export interface PruneResult {
+  // Both newest first
+  readonly kept: ArchivedBackup[];
+  readonly deleted: ArchivedBackup[];
+  readonly dryRun: boolean;
+}
+
+// ============================================================================
+// Repository Types
+// ============================================================================
+
+export interface SnapshotChunk {
+  // SHA-256 of the uncompressed chunk, which is also its file name
+  readonly id: string;
+  readonly sizeBytes: number;
+}
+
+// One stored backup; its file is the concatenation of its chunks
+export interface RepositorySnapshot {
+  readonly id: string;
+  readonly fileName: string;
+  readonly database: string;
+  readonly createdAt: Date;
+  readonly sizeBytes: number;
+  readonly sha256: string;
+  readonly compressed: boolean;
+  readonly codec?: CompressionCodec | undefined;
+  readonly chunks: SnapshotChunk[];
+}
+
+export type SnapshotSource = Pick<StreamedBackup, 'fileName' | 'database' | 'createdAt' | 'compressed' | 'codec'>;
+
+export interface StoreOptions {
+  signal?: AbortSignal | undefined;
+  // Running count of bytes read from the backup
+  onBytes?: ((bytesRead: number) => void) | undefined;
+}
+
+export interface StoreResult {
+  readonly snapshot: RepositorySnapshot;
+  // Uncompressed bytes of the chunks the repository did not have yet
+  readonly newBytes: number;
+  // What those chunks take on disk after compression
+  readonly storedBytes: number;
+  readonly newChunks: number;
+  // Share of the backup that was already stored, from 0 to 1
+  readonly dedupRatio: number;
+}
+
+export interface RepositoryCheckOptions {
+  // Also read every chunk and verify its SHA-256, not just that it exists
+  readData?: boolean | undefined;
+}
+
+export interface RepositoryCheckResult {
+  // False when any error was found; unreferenced chunks are not errors
+  readonly ok: boolean;
+  readonly snapshots: number;
+  readonly chunks: number;
+  readonly errors: string[];
+  // Left behind by interrupted backups or pruned snapshots; prune() removes them
+  readonly unreferencedChunks: number;
+}
+
+export interface RepositoryPruneResult {
+  // Both newest first
+  readonly kept: RepositorySnapshot[];
+  readonly deleted: RepositorySnapshot[];
+  readonly chunksDeleted: number;
+  // Disk space of the deleted chunks
+  readonly bytesFreed: number;
+  readonly dryRun: boolean;
+}
+
+// ============================================================================
+// Manifest Types
+// ============================================================================
+
+export interface ManifestFile {
+  readonly fileName: string;
+  readonly sizeBytes: number;
+  readonly sha256: string;
+}
+
+export interface ManifestPart extends ManifestFile {
+  readonly partNumber: number;
+}
+
+// JSON document delivered after a backup so downloads can be verified
+export interface BackupManifest {
+  readonly version: 1;
+  readonly wbackupVersion: string;
+  readonly createdAt: string;
+  readonly database: string;
+  readonly compressed: boolean;
+  readonly encrypted: boolean;
+  readonly file: ManifestFile;
+  // In upload order; concatenated, they are byte-identical to file
+  readonly parts: ManifestPart[];
+  readonly tools: Record<string, string>;
+  readonly metadata: Record<string, unknown>;
+}
+
+// ============================================================================
+// Metrics Types
+// ============================================================================
+
+export interface BackupMetricsOptions {
+  // node_exporter textfile collector file, rewritten after every run; should end in .prom
+  textfilePath?: string | undefined;
+}
+
+// One finished run, as recorded by BackupMetrics
+export interface RunMetrics {
+  readonly database: string;
+  readonly status: CatalogStatus;
+  readonly finishedAt: Date;
+  readonly durationMs: number;
+  // Only known once the dump exists
+  readonly sizeBytes?: number | undefined;
+  // Delivery retries by destination
+  readonly retries: Readonly<Record<string, number>>;
+}
+
+// ============================================================================
+// Event Types
+// ============================================================================
+
+export interface BackupEventMap {
+  'backup:start': { database: string };
+  'backup:end': { result: BackupResult; durationMs: number };
+  'backup:progress': { database: string } & ByteProgress;
+  'compress:progress': { database: string } & ByteProgress;
+  'compress:end': { database: string } & CompressionStats;
+  // sizeBytes is unset for streaming runs, whose size is only known once delivered
+  'delivery:start': { destination: string; index: number; sizeBytes?: number | undefined };
+  'delivery:progress': { destination: string; index: number } & UploadProgress;
+  'delivery:part': { destination: string; index: number } & DeliveredPartInfo;
+  'delivery:end': { destination: string; index: number; result: DeliveryResult; durationMs: number };
+  'cleanup:end': { filePath: string; durationMs: number };
+  'run:end': { result: BackupManagerResult };
+  'run:error': { error: Error; phase: BackupPhase; durationMs: number };
+  progress: { phase: string; message: string };
+}
+
+export type BackupEventName = keyof BackupEventMap;
+
+// Payloads carry their event name, so one handler can switch over several events
+export type BackupEvent<K extends BackupEventName = BackupEventName> = {
+  [E in K]: { readonly type: E } & BackupEventMap[E];
+}[K];
+
+export type BackupEventListener<K extends BackupEventName> = (event: BackupEvent<K>) => void | Promise<void>;
+
 // ============================================================================
 // Event Callbacks
 // ============================================================================
 
+export type BackupPhase = 'backup' | 'delivery' | 'cleanup' | 'cancelled';
+
 export type OnSuccessCallback = (result: BackupManagerResult) => void | Promise<void>;
-export type OnErrorCallback = (error: Error, phase: 'backup' | 'delivery' | 'cleanup') => void | Promise<void>;
+export type OnErrorCallback = (error: Error, phase: BackupPhase) => void | Promise<void>;
 export type OnProgressCallback = (phase: string, message: string) => void;
+
+export type OnRestoreSuccessCallback = (result: RestoreManagerResult) => void | Promise<void>;
+export type OnRestoreErrorCallback = (error: Error, phase: RestorePhase) => void | Promise<void>;
+export type OnRestoreProgressCallback = (phase: RestorePhase, message: string) => void;
+
+export type OnJobErrorCallback = (jobId: string, error: Error, phase: BackupPhase) => void | Promise<void>;
+export type OnJobProgressCallback = (jobId: string, phase: string, message: string) => void;
+export type OnJobSkipCallback = (jobId: string) => void;
@@ -1,16 +1,19 @@
 import { createReadStream, createWriteStream } from 'node:fs';
-import { mkdir, rm, stat, readFile } from 'node:fs/promises';
-import { createGzip } from 'node:zlib';
+import { mkdir, open, rm, stat, readFile } from 'node:fs/promises';
 import { pipeline } from 'node:stream/promises';
 import { tmpdir } from 'node:os';
 import { join, basename } from 'node:path';
-import { randomBytes } from 'node:crypto';
-import { spawn } from 'node:child_process';
+import { createHash, randomBytes } from 'node:crypto';
+import { execFile, spawn, type ChildProcessByStdio } from 'node:child_process';
+import type { Readable, Writable } from 'node:stream';
+import type { BackupPhase, DeliveryResult, RestorePhase } from './types.js';
+
+const TOOL_VERSION_TIMEOUT_MS = 10_000;
 
 export class BackupError extends Error {
   constructor(
     message: string,
-    public readonly phase: 'backup' | 'delivery' | 'cleanup',
+    public readonly phase: BackupPhase,
     public readonly cause?: unknown
   ) {
     super(message);
@@ -18,6 +21,42 @@ export class BackupError extends Error {
   }
 }
 
+// Thrown when a run is aborted through its AbortSignal or a phase timeout
+export class BackupCancelledError extends BackupError {
+  constructor(
+    message: string,
+    public readonly interruptedPhase: 'backup' | 'delivery',
+    public readonly timedOut: boolean,
+    cause?: unknown
+  ) {
+    super(message, 'cancelled', cause);
+    this.name = 'BackupCancelledError';
+  }
+}
+
+// Thrown when a resumable delivery failed and the backup was kept for resume()
+export class IncompleteDeliveryError extends BackupError {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly deliveries: DeliveryResult[]
+  ) {
+    super(message, 'delivery');
+    this.name = 'IncompleteDeliveryError';
+  }
+}
+
+export class RestoreError extends Error {
+  constructor(
+    message: string,
+    public readonly phase: RestorePhase,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'RestoreError';
+  }
+}
+
 export async function ensureDir(dir: string): Promise<void> {
   await mkdir(dir, { recursive: true });
 }
@@ -26,38 +65,39 @@ export async function removeFile(filePath: string): Promise<void> {
   await rm(filePath, { force: true }).catch(() => {});
 }
 
+// Persists the rename itself; not supported for directories on Windows
+export async function syncDirectory(directory: string): Promise<void> {
+  if (process.platform === 'win32') {
+    return;
+  }
+  const handle = await open(directory, 'r');
+  try {
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
+
 export async function getFileSize(filePath: string): Promise<number> {
   const stats = await stat(filePath);
   return stats.size;
 }
 
-export async function compressFile(inputPath: string): Promise<string> {
-  const outputPath = `${inputPath}.gz`;
-  const gzip = createGzip({ level: 6 }); // Level 6: ~10x faster than 9, only ~5% larger
-  const source = createReadStream(inputPath);
-  const destination = createWriteStream(outputPath);
-
-  await pipeline(source, gzip, destination);
-  await removeFile(inputPath);
-
-  return outputPath;
-}
-
-// Shared compression utility to reduce duplication across strategies
-export async function maybeCompress(
-  path: string,
-  shouldCompress: boolean
-): Promise<{ finalPath: string; compressed: boolean; sizeBytes: number }> {
-  let finalPath = path;
-  let compressed = false;
-
-  if (shouldCompress) {
-    finalPath = await compressFile(path);
-    compressed = true;
+// The first length bytes of a file, or fewer when the file is shorter
+export async function readFileHeader(filePath: string, length: number): Promise<Buffer> {
+  const handle = await open(filePath, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(length), 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
   }
+}
 
-  const sizeBytes = await getFileSize(finalPath);
-  return { finalPath, compressed, sizeBytes };
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  await pipeline(createReadStream(filePath), hash);
+  return hash.digest('hex');
 }
 
 export function generateTempPath(prefix: string, extension: string): string {
@@ -66,6 +106,61 @@ export function generateTempPath(prefix: string, extension: string): string {
   return join(tmpdir(), `${prefix}-${timestamp}-${id}${extension}`);
 }
 
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface PhaseSignal {
+  readonly signal: AbortSignal;
+  timedOut(): boolean;
+  dispose(): void;
+}
+
+// Child signal that aborts with the parent or after timeoutMs, whichever comes first
+export function createPhaseSignal(parent?: AbortSignal, timeoutMs?: number): PhaseSignal {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer =
+    timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => {
+          timedOut = true;
+          controller.abort(new Error(`Timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
 export function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B';
   const k = 1024;
@@ -82,14 +177,21 @@ export function formatDuration(ms: number): string {
   return `${(ms / 60000).toFixed(2)}m`;
 }
 
-export async function splitFile(filePath: string, maxSizeBytes: number): Promise<string[]> {
+export interface FileChunk {
+  filePath: string;
+  sizeBytes: number;
+  // SHA-256, computed while the chunk is written
+  sha256: string;
+}
+
+export async function splitFile(filePath: string, maxSizeBytes: number): Promise<FileChunk[]> {
   const fileSize = await getFileSize(filePath);
 
   if (fileSize <= maxSizeBytes) {
-    return [filePath];
+    return [{ filePath, sizeBytes: fileSize, sha256: await hashFile(filePath) }];
   }
 
-  const chunks: string[] = [];
+  const chunks: FileChunk[] = [];
   const numChunks = Math.ceil(fileSize / maxSizeBytes);
 
   // Stream-based splitting to avoid OOM on large files
@@ -105,6 +207,7 @@ export async function splitFile(filePath: string, maxSizeBytes: number): Promise
       // Use a fixed-size buffer to read in portions
       const BUFFER_SIZE = 64 * 1024; // 64KB read buffer
       const writeStream = createWriteStream(chunkPath);
+      const hash = createHash('sha256');
 
       let bytesWritten = 0;
       while (bytesWritten < chunkSize) {
@@ -113,6 +216,7 @@ export async function splitFile(filePath: string, maxSizeBytes: number): Promise
         const { bytesRead } = await fileHandle.read(buffer, 0, readSize, start + bytesWritten);
 
         if (bytesRead === 0) break;
+        hash.update(buffer.subarray(0, bytesRead));
 
         await new Promise<void>((resolve, reject) => {
           writeStream.write(buffer.subarray(0, bytesRead), (err) => {
@@ -131,7 +235,7 @@ export async function splitFile(filePath: string, maxSizeBytes: number): Promise
         });
       });
 
-      chunks.push(chunkPath);
+      chunks.push({ filePath: chunkPath, sizeBytes: bytesWritten, sha256: hash.digest('hex') });
     }
   } finally {
     await fileHandle.close();
@@ -146,23 +250,73 @@ export interface RunCommandOptions {
   args: string[];
   env?: NodeJS.ProcessEnv;
   notFoundMessage: string;
+  // Kills the child process when aborted
+  signal?: AbortSignal | undefined;
+  // File piped to the command's stdin
+  input?: string | undefined;
 }
 
 export function runCommand(options: RunCommandOptions): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const child = spawn(options.command, options.args, {
-      stdio: ['ignore', 'pipe', 'pipe'],
-      env: options.env ?? process.env,
-    });
+  const child = spawnCommand(options);
+  // Output is discarded; left unread, a full pipe would stall a chatty command such as psql
+  child.stdout.resume();
+  return waitForCommand(child, options);
+}
+
+export interface CommandStream {
+  // The command's stdout; destroying it before it ends kills the command
+  readonly stream: Readable;
+  // Settles when the command exits, rejecting like runCommand()
+  readonly done: Promise<void>;
+}
 
+// Like runCommand(), but hands stdout to the caller instead of discarding it
+export function spawnCommandStream(options: RunCommandOptions): CommandStream {
+  const child = spawnCommand(options);
+  const done = waitForCommand(child, options);
+  // Callers that stop reading early may never await done
+  done.catch(() => {});
+
+  child.stdout.on('close', () => {
+    if (!child.stdout.readableEnded && child.exitCode === null) {
+      child.kill();
+    }
+  });
+  return { stream: child.stdout, done };
+}
+
+function spawnCommand(options: RunCommandOptions): ChildProcessByStdio<Writable | null, Readable, Readable> {
+  const spawnOptions = { env: options.env ?? process.env, signal: options.signal };
+  return options.input === undefined
+    ? spawn(options.command, options.args, { ...spawnOptions, stdio: ['ignore', 'pipe', 'pipe'] })
+    : spawn(options.command, options.args, { ...spawnOptions, stdio: ['pipe', 'pipe', 'pipe'] });
+}
+
+function waitForCommand(
+  child: ChildProcessByStdio<Writable | null, Readable, Readable>,
+  options: RunCommandOptions
+): Promise<void> {
+  return new Promise((resolve, reject) => {
     let stderr = '';
+    let inputError: Error | undefined;
+
+    if (options.input !== undefined && child.stdin) {
+      const input = createReadStream(options.input).on('error', (error) => {
+        inputError = error;
+        child.kill();
+      });
+      // Also rejects with EPIPE when the command exits before reading everything; its exit code says why
+      pipeline(input, child.stdin).catch(() => {});
+    }
 
     child.stderr.on('data', (data: Buffer) => {
       stderr += data.toString();
     });
 
     child.on('error', (error) => {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      if (error.name === 'AbortError') {
+        reject(new BackupError(`${options.command} was cancelled`, 'backup', error));
+      } else if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         reject(new BackupError(options.notFoundMessage, 'backup', error));
       } else {
         reject(new BackupError(`Failed to spawn ${options.command}: ${error.message}`, 'backup', error));
@@ -170,7 +324,9 @@ export function runCommand(options: RunCommandOptions): Promise<void> {
     });
 
     child.on('close', (code) => {
-      if (code === 0) {
+      if (inputError) {
+        reject(new BackupError(`Failed to read ${options.input}: ${inputError.message}`, 'backup', inputError));
+      } else if (code === 0) {
         resolve();
       } else {
         reject(new BackupError(`${options.command} exited with code ${code}: ${stderr}`, 'backup'));
@@ -179,6 +335,22 @@ export function runCommand(options: RunCommandOptions): Promise<void> {
   });
 }
 
+// First line of `<command> --version` for each installed command; missing ones are left out
+export async function getToolVersions(commands: string[]): Promise<Record<string, string>> {
+  const versions = await Promise.all(
+    commands.map(
+      (command) =>
+        new Promise<[string, string] | undefined>((resolve) => {
+          execFile(command, ['--version'], { timeout: TOOL_VERSION_TIMEOUT_MS }, (error, stdout) => {
+            const version = stdout.trim().split('\n')[0];
+            resolve(error || !version ? undefined : [command, version]);
+          });
+        })
+    )
+  );
+  return Object.fromEntries(versions.filter((entry) => entry !== undefined));
+}
+
 // Shared utility for reading a file as a Blob (used by delivery strategies)
 export async function readFileAsBlob(filePath: string): Promise<{ blob: Blob; fileName: string }> {
   const fileBuffer = await readFile(filePath);
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { JsonLinesCatalog, SQLiteCatalog } from '../src/catalog.js';
+import type { BackupCatalog, CatalogEntry } from '../src/types.js';
+
+const testDir = join(tmpdir(), `wbackup-catalog-test-${Date.now()}`);
+
+const entry = (id: string, overrides: Partial<CatalogEntry> = {}): CatalogEntry => ({
+  id,
+  status: 'success',
+  database: 'orders',
+  strategy: 'postgresql',
+  startedAt: new Date('2024-05-01T02:00:00Z'),
+  finishedAt: new Date('2024-05-01T02:05:00Z'),
+  durationMs: 300_000,
+  fileName: 'orders.dump',
+  sizeBytes: 2048,
+  compressed: false,
+  checksum: 'a'.repeat(64),
+  deliveries: [{ platform: 'discord', success: true, messageId: 'msg-1', partsDelivered: 1, totalParts: 1 }],
+  ...overrides,
+});
+
+// better-sqlite3 is optional and its native binding may not be built
+const sqliteAvailable = await import('better-sqlite3')
+  .then(({ default: Database }) => {
+    new Database(':memory:').close();
+    return true;
+  })
+  .catch(() => false);
+
+const backends: Array<[string, (path: string) => BackupCatalog & { close?: () => Promise<void> }]> = [
+  ['JsonLinesCatalog', (path) => new JsonLinesCatalog(`${path}.jsonl`)],
+  ...(sqliteAvailable
+    ? [['SQLiteCatalog', (path: string) => new SQLiteCatalog(`${path}.db`)] as const]
+    : []),
+];
+
+describe.each(backends)('%s', (_name, create) => {
+  let catalog: BackupCatalog & { close?: () => Promise<void> };
+
+  beforeEach(async () => {
+    catalog = create(join(testDir, `catalog-${Math.random().toString(36).slice(2)}`));
+    await catalog.record(entry('old', { finishedAt: new Date('2024-05-01T02:05:00Z') }));
+    await catalog.record(entry('failed', {
+      status: 'failed',
+      finishedAt: new Date('2024-05-02T02:01:00Z'),
+      deliveries: [],
+      error: 'pg_dump failed',
+      errorPhase: 'backup',
+    }));
+    await catalog.record(entry('new', { finishedAt: new Date('2024-05-03T02:05:00Z') }));
+    await catalog.record(entry('users', { database: 'users', finishedAt: new Date('2024-05-04T02:05:00Z') }));
+  });
+
+  afterEach(async () => {
+    await catalog.close?.();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should list entries newest first', async () => {
+    const entries = await catalog.list();
+    expect(entries.map((e) => e.id)).toEqual(['users', 'new', 'failed', 'old']);
+  });
+
+  it('should round-trip every field', async () => {
+    const [stored] = await catalog.list({ database: 'orders', status: 'failed' });
+    expect(stored).toEqual(entry('failed', {
+      status: 'failed',
+      finishedAt: new Date('2024-05-02T02:01:00Z'),
+      deliveries: [],
+      error: 'pg_dump failed',
+      errorPhase: 'backup',
+    }));
+  });
+
+  it('should filter by database, status and time range', async () => {
+    const entries = await catalog.list({
+      database: 'orders',
+      status: 'success',
+      since: new Date('2024-05-01T12:00:00Z'),
+    });
+    expect(entries.map((e) => e.id)).toEqual(['new']);
+
+    const until = await catalog.list({ until: new Date('2024-05-02T02:01:00Z'), limit: 1 });
+    expect(until.map((e) => e.id)).toEqual(['failed']);
+  });
+
+  it('should return the latest entry for a database', async () => {
+    expect((await catalog.latest('orders'))?.id).toBe('new');
+    expect((await catalog.latest('orders', { status: 'failed' }))?.error).toBe('pg_dump failed');
+    expect(await catalog.latest('inventory')).toBeUndefined();
+  });
+});
+
+describe('JsonLinesCatalog', () => {
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should return nothing before the first run', async () => {
+    expect(await new JsonLinesCatalog(join(testDir, 'missing.jsonl')).list()).toEqual([]);
+  });
+
+  it('should skip a line truncated by a crash', async () => {
+    const catalog = new JsonLinesCatalog(join(testDir, 'truncated.jsonl'));
+    await catalog.record(entry('complete'));
+    await appendFile(catalog.path, '{"id":"partial","sta');
+
+    expect((await catalog.list()).map((e) => e.id)).toEqual(['complete']);
+  });
+});
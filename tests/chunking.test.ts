@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { ChunkingOptionsSchema, chunkStream } from '../src/chunking.js';
+
+const options = { minSize: 1024, avgSize: 4096, maxSize: 16384 };
+const data = randomBytes(256 * 1024);
+
+async function chunk(...pieces: Buffer[]): Promise<Buffer[]> {
+  const chunks: Buffer[] = [];
+  for await (const piece of chunkStream(pieces, options)) {
+    chunks.push(piece);
+  }
+  return chunks;
+}
+
+describe('ChunkingOptionsSchema', () => {
+  it('should default to 256KB/1MB/4MB chunks', () => {
+    expect(ChunkingOptionsSchema.parse({})).toEqual({ minSize: 262144, avgSize: 1048576, maxSize: 4194304 });
+  });
+
+  it('should reject sizes out of order or an average that is not a power of two', () => {
+    expect(() => ChunkingOptionsSchema.parse({ ...options, avgSize: 5000 })).toThrow('power of two');
+    expect(() => ChunkingOptionsSchema.parse({ ...options, minSize: 8192 })).toThrow('minSize < avgSize < maxSize');
+  });
+});
+
+describe('chunkStream', () => {
+  it('should cut chunks within the size bounds that add up to the input', async () => {
+    const chunks = await chunk(data);
+
+    expect(Buffer.concat(chunks).equals(data)).toBe(true);
+    for (const piece of chunks.slice(0, -1)) {
+      expect(piece.length).toBeGreaterThan(options.minSize);
+      expect(piece.length).toBeLessThanOrEqual(options.maxSize);
+    }
+    expect(chunks.length).toBeGreaterThan(10);
+  });
+
+  it('should cut the same chunks however the input is split', async () => {
+    const whole = await chunk(data);
+    const pieces = await chunk(data.subarray(0, 1000), data.subarray(1000, 70_000), data.subarray(70_000));
+
+    expect(pieces.map((piece) => piece.length)).toEqual(whole.map((piece) => piece.length));
+    expect(Buffer.concat(pieces).equals(data)).toBe(true);
+  });
+
+  it('should keep the chunks after an insertion', async () => {
+    const edited = Buffer.concat([data.subarray(0, 100_000), Buffer.from('inserted'), data.subarray(100_000)]);
+    const before = new Set((await chunk(data)).map((piece) => piece.toString('hex')));
+    const after = await chunk(edited);
+
+    const shared = after.filter((piece) => before.has(piece.toString('hex')));
+    expect(shared.length).toBeGreaterThanOrEqual(after.length - 3);
+  });
+
+  it('should yield nothing for empty input', async () => {
+    expect(await chunk()).toEqual([]);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { brotliDecompressSync, gunzipSync } from 'node:zlib';
+import {
+  CompressionOptionsSchema,
+  compressFile,
+  createCompressor,
+  decompressFile,
+  detectCodec,
+  hasNativeZstd,
+  maybeCompress,
+} from '../src/compression.js';
+import { findExecutable } from '../src/preflight.js';
+import { getFileSize } from '../src/utils.js';
+
+const content = 'hello world '.repeat(100);
+const hasZstd = hasNativeZstd() || (await findExecutable('zstd')) !== undefined;
+
+let testDir: string;
+let testFile: string;
+
+beforeEach(async () => {
+  testDir = await mkdtemp(join(tmpdir(), 'wbackup-compression-'));
+  testFile = join(testDir, 'test.txt');
+  await writeFile(testFile, content);
+});
+
+afterEach(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+describe('CompressionOptionsSchema', () => {
+  it('should default to gzip', () => {
+    expect(CompressionOptionsSchema.parse({})).toEqual({ codec: 'gzip' });
+  });
+
+  it('should check the level against the codec', () => {
+    expect(() => CompressionOptionsSchema.parse({ codec: 'gzip', level: 10 })).toThrow('gzip level must be 1-9');
+    expect(() => CompressionOptionsSchema.parse({ codec: 'brotli', level: 11 })).not.toThrow();
+    expect(() => CompressionOptionsSchema.parse({ codec: 'zstd', level: 0 })).toThrow('zstd level must be 1-19');
+    expect(() => CompressionOptionsSchema.parse({ codec: 'lz4' })).toThrow();
+  });
+
+  it('should only allow threads and blockSize for gzip', () => {
+    expect(() => CompressionOptionsSchema.parse({ codec: 'gzip', threads: 4, blockSize: 1 << 20 })).not.toThrow();
+    expect(() => CompressionOptionsSchema.parse({ codec: 'brotli', threads: 4 })).toThrow('only supported by gzip');
+    expect(() => CompressionOptionsSchema.parse({ threads: 0 })).toThrow();
+    expect(() => CompressionOptionsSchema.parse({ blockSize: 1024 })).toThrow();
+  });
+});
+
+describe('createCompressor', () => {
+  it('should pick the default level and extension for each codec', () => {
+    expect(createCompressor()).toMatchObject({ codec: 'gzip', level: 6, extension: '.gz' });
+    expect(createCompressor({ codec: 'brotli' })).toMatchObject({ codec: 'brotli', level: 6, extension: '.br' });
+    expect(createCompressor({ codec: 'zstd', level: 9 })).toMatchObject({ codec: 'zstd', level: 9, extension: '.zst' });
+  });
+
+  it('should compress with gzip at the given level', async () => {
+    await createCompressor({ codec: 'gzip', level: 1 }).compress(testFile, `${testFile}.gz`);
+
+    expect(gunzipSync(await readFile(`${testFile}.gz`)).toString()).toBe(content);
+  });
+
+  it('should compress with gzip on worker threads', async () => {
+    await writeFile(testFile, content.repeat(200));
+    await createCompressor({ threads: 2, blockSize: 64 * 1024 }).compress(testFile, `${testFile}.gz`);
+
+    expect(gunzipSync(await readFile(`${testFile}.gz`)).toString()).toBe(content.repeat(200));
+  });
+
+  it('should compress with brotli', async () => {
+    await createCompressor({ codec: 'brotli' }).compress(testFile, `${testFile}.br`);
+
+    expect(brotliDecompressSync(await readFile(`${testFile}.br`)).toString()).toBe(content);
+  });
+
+  it.skipIf(!hasZstd)('should compress with zstd', async () => {
+    await createCompressor({ codec: 'zstd' }).compress(testFile, `${testFile}.zst`);
+
+    const decompressed = hasNativeZstd()
+      ? (await import('node:zlib')).zstdDecompressSync(await readFile(`${testFile}.zst`))
+      : execFileSync('zstd', ['--decompress', '--stdout', `${testFile}.zst`]);
+    expect(decompressed.toString()).toBe(content);
+  });
+
+  it('should only need the zstd command without native zstd', async () => {
+    const compressor = createCompressor({ codec: 'zstd' });
+
+    expect(compressor.preflight === undefined).toBe(hasNativeZstd());
+  });
+});
+
+describe('compressFile', () => {
+  it('should compress file and return new path', async () => {
+    const originalSize = await getFileSize(testFile);
+    const compressedPath = await compressFile(testFile);
+
+    expect(compressedPath).toBe(testFile + '.gz');
+    const compressedSize = await getFileSize(compressedPath);
+    expect(compressedSize).toBeLessThan(originalSize);
+  });
+
+  it('should use the compressor extension', async () => {
+    const compressedPath = await compressFile(testFile, undefined, undefined, createCompressor({ codec: 'brotli' }));
+
+    expect(compressedPath).toBe(testFile + '.br');
+  });
+
+  it('should remove partial output when aborted', async () => {
+    await expect(compressFile(testFile, AbortSignal.abort())).rejects.toThrow();
+
+    await expect(getFileSize(testFile + '.gz')).rejects.toThrow();
+    expect(await getFileSize(testFile)).toBe(1200);
+  });
+
+  it('should remove original file after compression', async () => {
+    await compressFile(testFile);
+
+    await expect(getFileSize(testFile)).rejects.toThrow();
+  });
+});
+
+describe('detectCodec', () => {
+  it('should recognise each codec from its output', async () => {
+    const gzipPath = await compressFile(testFile);
+    await writeFile(testFile, content);
+    const brotliPath = await compressFile(testFile, undefined, undefined, createCompressor({ codec: 'brotli' }));
+    await writeFile(testFile, content);
+
+    expect(await detectCodec(gzipPath)).toBe('gzip');
+    expect(await detectCodec(brotliPath)).toBe('brotli');
+    expect(await detectCodec(testFile)).toBeUndefined();
+    expect(await detectCodec(testDir)).toBeUndefined();
+  });
+
+  it.skipIf(!hasZstd)('should recognise zstd by its magic number', async () => {
+    await createCompressor({ codec: 'zstd' }).compress(testFile, join(testDir, 'renamed.bin'));
+
+    expect(await detectCodec(join(testDir, 'renamed.bin'))).toBe('zstd');
+  });
+});
+
+describe('decompressFile', () => {
+  it('should restore the original content for every codec', async () => {
+    await writeFile(testFile, content.repeat(200));
+    const codecs = hasZstd ? (['gzip', 'brotli', 'zstd'] as const) : (['gzip', 'brotli'] as const);
+
+    for (const codec of codecs) {
+      await createCompressor({ codec }).compress(testFile, `${testFile}.${codec}`);
+      await decompressFile(`${testFile}.${codec}`, `${testFile}.${codec}.out`, codec);
+      expect(await readFile(`${testFile}.${codec}.out`, 'utf8')).toBe(content.repeat(200));
+    }
+  });
+
+  it('should read multi-member output of worker-thread gzip', async () => {
+    await writeFile(testFile, content.repeat(200));
+    await createCompressor({ threads: 2, blockSize: 64 * 1024 }).compress(testFile, `${testFile}.gz`);
+
+    await decompressFile(`${testFile}.gz`, `${testFile}.out`, 'gzip');
+    expect(await readFile(`${testFile}.out`, 'utf8')).toBe(content.repeat(200));
+  });
+
+  it('should remove partial output of corrupt input', async () => {
+    await writeFile(`${testFile}.gz`, Buffer.from([0x1f, 0x8b, 0x08, 0x00, 0xff, 0xff]));
+
+    await expect(decompressFile(`${testFile}.gz`, `${testFile}.out`, 'gzip')).rejects.toThrow();
+    await expect(getFileSize(`${testFile}.out`)).rejects.toThrow();
+  });
+});
+
+describe('maybeCompress', () => {
+  it('should report compression stats through the context', async () => {
+    const onCompressed = vi.fn();
+
+    const output = await maybeCompress(testFile, true, { onCompressed });
+
+    expect(output).toMatchObject({ compressed: true, codec: 'gzip', finalPath: `${testFile}.gz` });
+    expect(onCompressed).toHaveBeenCalledWith({
+      codec: 'gzip',
+      inputBytes: 1200,
+      outputBytes: output.sizeBytes,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it('should use the compressor from the context', async () => {
+    const output = await maybeCompress(testFile, true, { compressor: createCompressor({ codec: 'brotli' }) });
+
+    expect(output).toMatchObject({ compressed: true, codec: 'brotli', finalPath: `${testFile}.br` });
+  });
+
+  it('should report compressed bytes against the input size', async () => {
+    const onByteProgress = vi.fn();
+
+    await maybeCompress(testFile, true, { onByteProgress, progressIntervalMs: 0 });
+
+    expect(onByteProgress).toHaveBeenLastCalledWith(
+      'compress',
+      expect.objectContaining({ bytes: 1200, totalBytes: 1200 })
+    );
+  });
+
+  it('should leave the file alone when compression is off', async () => {
+    const output = await maybeCompress(testFile, false);
+
+    expect(output).toEqual({ finalPath: testFile, compressed: false, sizeBytes: 1200 });
+  });
+
+  it('should report why an already compressed format is skipped', async () => {
+    const onCompressionSkipped = vi.fn();
+
+    const output = await maybeCompress(testFile, true, { onCompressionSkipped }, 'compressed already');
+
+    expect(output).toEqual({ finalPath: testFile, compressed: false, sizeBytes: 1200 });
+    expect(onCompressionSkipped).toHaveBeenCalledWith('compressed already');
+    await maybeCompress(testFile, false, { onCompressionSkipped }, 'compressed already');
+    expect(onCompressionSkipped).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { parseCron, nextCronRun, assertTimeZone } from '../src/cron.js';
+
+const next = (expression: string, after: string, timeZone?: string): string =>
+  nextCronRun(parseCron(expression), new Date(after), timeZone).toISOString();
+
+describe('parseCron', () => {
+  it('should parse 5-field expressions with seconds at zero', () => {
+    const cron = parseCron('30 2 * * *');
+    expect([...cron.seconds.values]).toEqual([0]);
+    expect([...cron.minutes.values]).toEqual([30]);
+    expect([...cron.hours.values]).toEqual([2]);
+  });
+
+  it('should parse 6-field expressions with seconds', () => {
+    const cron = parseCron('*/15 * * * * *');
+    expect([...cron.seconds.values]).toEqual([0, 15, 30, 45]);
+  });
+
+  it('should parse lists, ranges and steps', () => {
+    const cron = parseCron('0 1,5-7,10-20/5 * * *');
+    expect([...cron.hours.values]).toEqual([1, 5, 6, 7, 10, 15, 20]);
+  });
+
+  it('should parse month and weekday names', () => {
+    const cron = parseCron('0 0 * jan-mar MON,fri');
+    expect([...cron.months.values]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek.values]).toEqual([1, 5]);
+  });
+
+  it('should treat weekday 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek.values]).toEqual([0]);
+  });
+
+  it('should expand macros', () => {
+    expect(parseCron('@daily').hours.values).toEqual(new Set([0]));
+  });
+
+  it('should reject wrong field counts', () => {
+    expect(() => parseCron('* * *')).toThrow('expected 5 or 6 fields');
+  });
+
+  it('should reject out-of-range values', () => {
+    expect(() => parseCron('0 24 * * *')).toThrow('out of range');
+    expect(() => parseCron('0 0 0 * *')).toThrow('out of range');
+  });
+
+  it('should reject invalid tokens', () => {
+    expect(() => parseCron('0 x * * *')).toThrow('Invalid cron value');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron step');
+  });
+});
+
+describe('nextCronRun', () => {
+  it('should find the next matching minute', () => {
+    expect(next('30 2 * * *', '2026-03-10T01:00:00Z', 'UTC')).toBe('2026-03-10T02:30:00.000Z');
+  });
+
+  it('should move to the next day once the time has passed', () => {
+    expect(next('30 2 * * *', '2026-03-10T02:30:00Z', 'UTC')).toBe('2026-03-11T02:30:00.000Z');
+  });
+
+  it('should honour seconds', () => {
+    expect(next('*/10 * * * * *', '2026-03-10T00:00:05.500Z', 'UTC')).toBe('2026-03-10T00:00:10.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2026-03-13 is a Friday, the 15th comes later
+    expect(next('0 0 15 * fri', '2026-03-10T00:00:00Z', 'UTC')).toBe('2026-03-13T00:00:00.000Z');
+  });
+
+  it('should roll over months and years', () => {
+    expect(next('0 0 1 1 *', '2026-06-01T00:00:00Z', 'UTC')).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('should evaluate in the given time zone', () => {
+    // Istanbul is UTC+3 all year
+    expect(next('0 3 * * *', '2026-03-10T00:00:00Z', 'Europe/Istanbul')).toBe('2026-03-11T00:00:00.000Z');
+  });
+
+  it('should run skipped wall-clock times after a DST gap', () => {
+    // New York skips 02:00-03:00 on 2026-03-08
+    expect(next('30 2 * * *', '2026-03-08T05:00:00Z', 'America/New_York')).toBe('2026-03-08T07:30:00.000Z');
+  });
+
+  it('should throw when no run exists', () => {
+    expect(() => next('0 0 30 2 *', '2026-01-01T00:00:00Z', 'UTC')).toThrow('has no upcoming run');
+  });
+});
+
+describe('assertTimeZone', () => {
+  it('should reject unknown time zones', () => {
+    expect(() => assertTimeZone('Mars/Olympus')).toThrow('Invalid time zone "Mars/Olympus"');
+  });
+});
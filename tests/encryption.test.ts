@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { access, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  DecryptionError,
+  DecryptionOptionsSchema,
+  EncryptionOptionsSchema,
+  decryptFile,
+  encryptFile,
+  generateRecipientKeyPair,
+  isEncryptedFile,
+  recipientFingerprint,
+} from '../src/encryption.js';
+import type { DecryptionOptions, EncryptionOptions } from '../src/encryption.js';
+
+// The minimum scrypt cost keeps the suite fast
+const passphrase = { passphrase: 'correct horse battery', scryptLogN: 14 };
+const rawKey = { key: randomBytes(32).toString('hex') };
+const alice = generateRecipientKeyPair();
+const bob = generateRecipientKeyPair();
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'wbackup-encryption-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+async function encrypt(content: Buffer, options: EncryptionOptions = passphrase): Promise<string> {
+  await writeFile(join(directory, 'plain'), content);
+  await encryptFile(join(directory, 'plain'), join(directory, 'plain.enc'), options);
+  return join(directory, 'plain.enc');
+}
+
+async function decryptionError(
+  encryptedPath: string,
+  options: DecryptionOptions = passphrase
+): Promise<DecryptionError> {
+  const error = await decryptFile(encryptedPath, join(directory, 'decrypted'), options).catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(DecryptionError);
+  await expect(access(join(directory, 'decrypted'))).rejects.toThrow();
+  return error as DecryptionError;
+}
+
+async function flipByte(filePath: string, offset: number): Promise<void> {
+  const content = await readFile(filePath);
+  const index = offset < 0 ? content.length + offset : offset;
+  content[index] = (content[index] ?? 0) ^ 0x01;
+  await writeFile(filePath, content);
+}
+
+describe('EncryptionOptionsSchema', () => {
+  it('should require exactly one of passphrase, key and recipients', () => {
+    expect(() => EncryptionOptionsSchema.parse({})).toThrow('Provide one of passphrase, key or recipients');
+    expect(() => EncryptionOptionsSchema.parse({ ...passphrase, ...rawKey })).toThrow();
+    expect(EncryptionOptionsSchema.parse(rawKey).scryptLogN).toBe(17);
+  });
+
+  it('should accept 32-byte keys in hex or base64 only', () => {
+    expect(() => EncryptionOptionsSchema.parse({ key: randomBytes(32).toString('base64') })).not.toThrow();
+    expect(() => EncryptionOptionsSchema.parse({ key: randomBytes(16).toString('hex') })).toThrow('32 bytes');
+    expect(() => EncryptionOptionsSchema.parse({ passphrase: 'short' })).toThrow('at least 8');
+  });
+
+  it('should accept X25519 public keys as recipients but never private keys', () => {
+    expect(() => EncryptionOptionsSchema.parse({ recipients: [alice.publicKey, bob.publicKey] })).not.toThrow();
+    expect(() => EncryptionOptionsSchema.parse({ recipients: [] })).toThrow();
+    expect(() => EncryptionOptionsSchema.parse({ recipients: [alice.privateKey] })).toThrow('X25519 public key');
+    expect(() => DecryptionOptionsSchema.parse({ privateKey: alice.publicKey })).toThrow('X25519 private key');
+  });
+});
+
+describe('generateRecipientKeyPair', () => {
+  it('should return PEM keys with a matching fingerprint', () => {
+    expect(alice.publicKey).toContain('BEGIN PUBLIC KEY');
+    expect(alice.privateKey).toContain('BEGIN PRIVATE KEY');
+    expect(alice.fingerprint).toMatch(/^[0-9a-f]{16}$/);
+    expect(recipientFingerprint(alice.publicKey)).toBe(alice.fingerprint);
+    expect(recipientFingerprint(alice.privateKey)).toBe(alice.fingerprint);
+    expect(bob.fingerprint).not.toBe(alice.fingerprint);
+  });
+});
+
+describe('encryptFile / decryptFile', () => {
+  it.each([
+    ['empty', 0],
+    ['small', 1000],
+    ['exactly one chunk', 64 * 1024],
+    ['several chunks', 200 * 1024 + 7],
+  ])('should round-trip %s input with a passphrase', async (_name, size) => {
+    const content = randomBytes(size);
+    const encryptedPath = await encrypt(content);
+
+    await decryptFile(encryptedPath, join(directory, 'decrypted'), passphrase);
+
+    expect(await readFile(join(directory, 'decrypted'))).toEqual(content);
+    expect(isEncryptedFile(await readFile(encryptedPath))).toBe(true);
+  });
+
+  it('should round-trip with a raw key', async () => {
+    const content = randomBytes(100 * 1024);
+    const encryptedPath = await encrypt(content, rawKey);
+
+    await decryptFile(encryptedPath, join(directory, 'decrypted'), rawKey);
+
+    expect(await readFile(join(directory, 'decrypted'))).toEqual(content);
+  });
+
+  it('should decrypt for every recipient', async () => {
+    const content = randomBytes(100 * 1024);
+    const encryptedPath = await encrypt(content, { recipients: [alice.publicKey, bob.publicKey] });
+
+    for (const { privateKey } of [alice, bob]) {
+      const outputPath = join(directory, `decrypted-${recipientFingerprint(privateKey)}`);
+      await decryptFile(encryptedPath, outputPath, { privateKey });
+      expect(await readFile(outputPath)).toEqual(content);
+    }
+  });
+
+  it('should reject a private key that is not a recipient', async () => {
+    const encryptedPath = await encrypt(randomBytes(1000), { recipients: [alice.publicKey] });
+
+    const error = await decryptionError(encryptedPath, { privateKey: bob.privateKey });
+
+    expect(error.reason).toBe('key');
+    expect(error.message).toContain(alice.fingerprint);
+    expect((await decryptionError(encryptedPath)).message).toContain('encrypted with recipient public keys');
+  });
+
+  it('should detect a modified recipient stanza', async () => {
+    const encryptedPath = await encrypt(randomBytes(1000), { recipients: [alice.publicKey] });
+    // Last byte of the wrapped key tag: fixed header (52), count (1), fingerprint, ephemeral key, wrapped key
+    await flipByte(encryptedPath, 52 + 1 + 8 + 32 + 48 - 1);
+
+    expect((await decryptionError(encryptedPath, { privateKey: alice.privateKey })).reason).toBe('integrity');
+  });
+
+  it('should not store the plaintext', async () => {
+    const encrypted = await readFile(await encrypt(Buffer.from('CREATE TABLE orders (id int);')));
+
+    expect(encrypted.includes('CREATE TABLE')).toBe(false);
+  });
+
+  it('should report the plaintext bytes read', async () => {
+    await writeFile(join(directory, 'plain'), randomBytes(5000));
+    const reported: number[] = [];
+
+    await encryptFile(join(directory, 'plain'), join(directory, 'plain.enc'), rawKey, {
+      onBytes: (bytes) => reported.push(bytes),
+    });
+
+    expect(reported.at(-1)).toBe(5000);
+  });
+
+  it('should reject a wrong passphrase or key', async () => {
+    const encryptedPath = await encrypt(randomBytes(1000));
+
+    expect((await decryptionError(encryptedPath, { ...passphrase, passphrase: 'incorrect horse' })).reason)
+      .toBe('key');
+    expect((await decryptionError(encryptedPath, rawKey)).message).toContain('encrypted with a passphrase');
+  });
+
+  it('should detect modified ciphertext', async () => {
+    const encryptedPath = await encrypt(randomBytes(100 * 1024));
+    await flipByte(encryptedPath, 60);
+
+    expect((await decryptionError(encryptedPath)).reason).toBe('integrity');
+  });
+
+  it('should detect a modified tag in the final chunk', async () => {
+    const encryptedPath = await encrypt(randomBytes(1000));
+    await flipByte(encryptedPath, -1);
+
+    expect((await decryptionError(encryptedPath)).reason).toBe('integrity');
+  });
+
+  it('should detect truncation at a chunk boundary', async () => {
+    const encryptedPath = await encrypt(randomBytes(100 * 1024));
+    const content = await readFile(encryptedPath);
+    // Header and the first full chunk with its tag
+    await writeFile(encryptedPath, content.subarray(0, 52 + 64 * 1024 + 16));
+
+    expect((await decryptionError(encryptedPath)).reason).toBe('integrity');
+  });
+
+  it('should detect a modified header', async () => {
+    const encryptedPath = await encrypt(randomBytes(1000), rawKey);
+    // Inside the nonce prefix, which the key check does not cover
+    await flipByte(encryptedPath, 30);
+
+    expect((await decryptionError(encryptedPath, rawKey)).reason).toBe('integrity');
+  });
+
+  it('should reject files that are not encrypted', async () => {
+    await writeFile(join(directory, 'plain'), 'not encrypted at all, but long enough for a header');
+
+    const error = await decryptionError(join(directory, 'plain'));
+
+    expect(error.reason).toBe('format');
+    expect(error.message).toBe('Not a wbackup encrypted file');
+  });
+
+  it('should not overwrite an existing output file', async () => {
+    await writeFile(join(directory, 'plain'), 'data');
+    await writeFile(join(directory, 'plain.enc'), 'existing');
+
+    await expect(encryptFile(join(directory, 'plain'), join(directory, 'plain.enc'), rawKey)).rejects.toThrow();
+    expect(await readFile(join(directory, 'plain.enc'), 'utf-8')).toBe('existing');
+  });
+});
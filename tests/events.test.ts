@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BackupEventEmitter } from '../src/events.js';
+
+describe('BackupEventEmitter', () => {
+  it('should call every listener with the typed payload', async () => {
+    const events = new BackupEventEmitter();
+    const first = vi.fn();
+    const second = vi.fn();
+    events.on('cleanup:end', first);
+    events.on('cleanup:end', second);
+
+    await events.emit('cleanup:end', { filePath: '/tmp/a.gz', durationMs: 3 });
+
+    const expected = { type: 'cleanup:end', filePath: '/tmp/a.gz', durationMs: 3 };
+    expect(first).toHaveBeenCalledWith(expected);
+    expect(second).toHaveBeenCalledWith(expected);
+  });
+
+  it('should await async listeners in registration order', async () => {
+    const events = new BackupEventEmitter();
+    const calls: string[] = [];
+    events.on('progress', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      calls.push('slow');
+    });
+    events.on('progress', () => void calls.push('fast'));
+
+    await events.emit('progress', { phase: 'backup', message: 'hi' });
+
+    expect(calls).toEqual(['slow', 'fast']);
+  });
+
+  it('should remove listeners with off and the returned function', async () => {
+    const events = new BackupEventEmitter();
+    const listener = vi.fn();
+    const unsubscribe = events.on('progress', listener);
+    events.on('progress', listener);
+
+    unsubscribe();
+    events.off('progress', listener);
+    await events.emit('progress', { phase: 'backup', message: 'hi' });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(events.listenerCount('progress')).toBe(0);
+  });
+
+  it('should call once listeners a single time', async () => {
+    const events = new BackupEventEmitter();
+    const listener = vi.fn();
+    events.once('progress', listener);
+
+    await events.emit('progress', { phase: 'backup', message: 'one' });
+    await events.emit('progress', { phase: 'backup', message: 'two' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject with the first listener error', async () => {
+    const events = new BackupEventEmitter();
+    const later = vi.fn();
+    events.on('progress', () => {
+      throw new Error('listener failed');
+    });
+    events.on('progress', later);
+
+    await expect(events.emit('progress', { phase: 'backup', message: 'hi' })).rejects.toThrow('listener failed');
+    expect(later).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { checkDiskSpace, measureHealth } from '../src/health.js';
+
+describe('measureHealth', () => {
+  it('should report a healthy check with its latency', async () => {
+    const result = await measureHealth('db', 'database', async () => {}, 1000);
+    expect(result).toMatchObject({ name: 'db', kind: 'database', status: 'healthy' });
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should report the failure reason', async () => {
+    const result = await measureHealth(
+      'db',
+      'database',
+      async () => {
+        throw new Error('password authentication failed');
+      },
+      1000
+    );
+    expect(result).toMatchObject({ status: 'unhealthy', message: 'password authentication failed' });
+  });
+
+  it('should time out checks that hang', async () => {
+    const result = await measureHealth('webhook', 'delivery', () => new Promise(() => {}), 10);
+    expect(result).toMatchObject({ status: 'unhealthy', message: 'Timed out after 10ms' });
+  });
+});
+
+describe('checkDiskSpace', () => {
+  it('should report the free space of the temp directory', async () => {
+    const result = await checkDiskSpace(0);
+    expect(result).toMatchObject({ kind: 'disk', status: 'healthy', message: expect.stringContaining('free in') });
+  });
+
+  it('should fail below the required free space', async () => {
+    const result = await checkDiskSpace(Number.MAX_SAFE_INTEGER);
+    expect(result.status).toBe('unhealthy');
+    expect(result.message).toContain('required');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { executeHook, HookError } from '../src/hooks.js';
+import type { BackupHook, BackupResult, HookOptions } from '../src/types.js';
+
+const result: BackupResult = {
+  filePath: '/tmp/app.dump.gz',
+  fileName: 'app.dump.gz',
+  sizeBytes: 2048,
+  database: 'app',
+  createdAt: new Date(),
+  compressed: true,
+  metadata: { type: 'postgresql', duration: 10 },
+};
+
+const registered = (hook: BackupHook, options: HookOptions = {}) => ({ name: 'afterBackup' as const, hook, options });
+
+describe('executeHook', () => {
+  it('should pass the context and a signal to function hooks', async () => {
+    const hook = vi.fn();
+
+    await executeHook(registered(hook), { hook: 'afterBackup', database: 'app', result });
+
+    expect(hook).toHaveBeenCalledWith(
+      expect.objectContaining({ hook: 'afterBackup', database: 'app', result, signal: expect.any(AbortSignal) })
+    );
+  });
+
+  it('should expose the backup to shell commands as env vars', async () => {
+    await expect(
+      executeHook(
+        registered('test "$WBACKUP_HOOK:$WBACKUP_FILE_NAME:$WBACKUP_SIZE_BYTES" = "afterBackup:app.dump.gz:2048"'),
+        { hook: 'afterBackup', database: 'app', result }
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it('should reject when a shell command fails', async () => {
+    await expect(
+      executeHook(registered('echo maintenance >&2; exit 3'), { hook: 'afterBackup', database: 'app' })
+    ).rejects.toThrow('exited with code 3: maintenance');
+  });
+
+  it('should time out hooks that ignore the signal', async () => {
+    const hook = () => new Promise<void>(() => {});
+
+    await expect(
+      executeHook(registered(hook, { timeoutMs: 10 }), { hook: 'afterBackup', database: 'app' })
+    ).rejects.toThrow('Timed out after 10ms');
+  });
+
+  it('should kill shell commands that time out', async () => {
+    await expect(
+      executeHook(registered('sleep 10', { timeoutMs: 50 }), { hook: 'afterBackup', database: 'app' })
+    ).rejects.toThrow('Timed out after 50ms');
+  });
+});
+
+describe('HookError', () => {
+  it('should report the phase the hook belongs to', () => {
+    expect(new HookError('failed', 'beforeDelivery').phase).toBe('delivery');
+    expect(new HookError('failed', 'finally').phase).toBe('cleanup');
+  });
+});
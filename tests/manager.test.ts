@@ -1,8 +1,29 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { writeFile, readFile, rm, access, mkdir, readdir, utimes } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { Readable } from 'node:stream';
+import { createHash } from 'node:crypto';
+import { gunzipSync } from 'node:zlib';
 import { z } from 'zod';
 import { BackupManager } from '../src/manager.js';
+import { decryptFile, generateRecipientKeyPair } from '../src/encryption.js';
+import { JsonLinesCatalog } from '../src/catalog.js';
+import { BackupMetrics } from '../src/metrics.js';
+import { HookError } from '../src/hooks.js';
 import { registry } from '../src/registry.js';
-import type { BackupStrategy, DeliveryStrategy, BackupResult } from '../src/types.js';
+import { FilesystemDeliveryStrategy } from '../src/strategies/delivery/filesystem.js';
+import { deliverParts } from '../src/strategies/delivery/multipart.js';
+import type {
+  BackupContext,
+  BackupStream,
+  BackupStrategy,
+  DeliveryContext,
+  DeliveryStrategy,
+  BackupResult,
+  StreamedBackup,
+} from '../src/types.js';
+import { BackupCancelledError, IncompleteDeliveryError, removeFile, sleep } from '../src/utils.js';
 
 // Mock strategies
 const MockBackupConfigSchema = z.object({
@@ -29,6 +50,7 @@ const createMockBackupStrategy = (): BackupStrategy => ({
   configSchema: MockBackupConfigSchema,
   backup: vi.fn().mockResolvedValue(mockBackupResult),
   cleanup: vi.fn().mockResolvedValue(undefined),
+  databaseName: () => 'testdb',
 });
 
 const createMockDeliveryStrategy = (): DeliveryStrategy => ({
@@ -208,4 +230,1238 @@ describe('BackupManager', () => {
       expect(mockBackupStrategy.cleanup).toHaveBeenCalled();
     });
   });
+
+  describe('multiple destinations', () => {
+    const createFailingDelivery = (): DeliveryStrategy => {
+      const strategy = createMockDeliveryStrategy();
+      (strategy.deliver as ReturnType<typeof vi.fn>).mockResolvedValue({
+        success: false,
+        platform: 'mock-failing',
+        error: 'Upload rejected',
+        deliveredAt: new Date(),
+      });
+      return strategy;
+    };
+
+    beforeEach(() => {
+      try {
+        registry.registerDelivery('fanout-failing', createFailingDelivery);
+      } catch {
+        // Already registered
+      }
+    });
+
+    it('should send one backup to every destination', async () => {
+      const result = await new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://a.test' })
+        .delivery('mock-webhook', { webhookUrl: 'https://b.test' })
+        .run();
+
+      expect(mockBackupStrategy.backup).toHaveBeenCalledTimes(1);
+      expect(mockDeliveryStrategy.deliver).toHaveBeenCalledTimes(2);
+      expect(result.deliveries).toHaveLength(2);
+      expect(result.delivery).toBe(result.deliveries[0]);
+    });
+
+    it('should fail the run under the default all policy', async () => {
+      await expect(
+        new BackupManager()
+          .database('mock-db', { connectionString: 'test://' })
+          .delivery('mock-webhook', { webhookUrl: 'https://a.test' })
+          .delivery('fanout-failing', { webhookUrl: 'https://b.test' })
+          .run()
+      ).rejects.toThrow('mock-failing: Upload rejected');
+
+      expect(mockDeliveryStrategy.deliver).toHaveBeenCalledTimes(1);
+      expect(mockBackupStrategy.cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should succeed under the any policy when one destination succeeds', async () => {
+      const result = await new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('fanout-failing', { webhookUrl: 'https://a.test' })
+        .delivery('mock-webhook', { webhookUrl: 'https://b.test' })
+        .deliveryPolicy('any')
+        .run();
+
+      expect(result.deliveries.map((r) => r.success)).toEqual([false, true]);
+    });
+
+    it('should fail under the any policy when every destination fails', async () => {
+      await expect(
+        new BackupManager()
+          .database('mock-db', { connectionString: 'test://' })
+          .delivery('fanout-failing', { webhookUrl: 'https://a.test' })
+          .delivery('fanout-failing', { webhookUrl: 'https://b.test' })
+          .deliveryPolicy('any')
+          .run()
+      ).rejects.toThrow('Upload rejected');
+    });
+
+    it('should never fail on delivery under the best-effort policy', async () => {
+      const successSpy = vi.fn();
+
+      const result = await new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('fanout-failing', { webhookUrl: 'https://a.test' })
+        .deliveryPolicy('best-effort')
+        .onSuccess(successSpy)
+        .run();
+
+      expect(result.delivery.success).toBe(false);
+      expect(successSpy).toHaveBeenCalled();
+    });
+
+    it('should record thrown delivery errors per destination', async () => {
+      const throwingDelivery = createMockDeliveryStrategy();
+      (throwingDelivery.deliver as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('Network error'));
+
+      try {
+        registry.registerDelivery('fanout-throwing', () => throwingDelivery);
+      } catch {
+        // Already registered
+      }
+
+      const result = await new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://a.test' })
+        .delivery('fanout-throwing', { webhookUrl: 'https://b.test' })
+        .deliveryPolicy('best-effort')
+        .run();
+
+      expect(result.deliveries[1]).toMatchObject({ success: false, error: 'Network error' });
+    });
+
+    it('should cleanup only after every destination has finished', async () => {
+      let pending = 0;
+      let pendingAtCleanup = -1;
+      const slowDelivery = createMockDeliveryStrategy();
+      (slowDelivery.deliver as ReturnType<typeof vi.fn>).mockImplementation(async () => {
+        pending++;
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        pending--;
+        return { success: true, platform: 'slow', deliveredAt: new Date() };
+      });
+      (mockBackupStrategy.cleanup as ReturnType<typeof vi.fn>).mockImplementation(async () => {
+        pendingAtCleanup = pending;
+      });
+
+      try {
+        registry.registerDelivery('slow-webhook', () => slowDelivery);
+      } catch {
+        // Already registered
+      }
+
+      await new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('slow-webhook', { webhookUrl: 'https://a.test' })
+        .delivery('slow-webhook', { webhookUrl: 'https://b.test' })
+        .run();
+
+      expect(pendingAtCleanup).toBe(0);
+    });
+
+    it('should only let a destination that moves the backup run on its own', async () => {
+      try {
+        registry.registerDelivery('filesystem', () => new FilesystemDeliveryStrategy());
+      } catch {
+        // Already registered
+      }
+      const createManager = () =>
+        new BackupManager()
+          .database('mock-db', { connectionString: 'test://' })
+          .delivery('filesystem', { directory: join(tmpdir(), 'wbackup-move-test'), mode: 'move' });
+
+      const shared = createManager().delivery('mock-webhook', { webhookUrl: 'https://a.test' });
+      await expect(shared.run()).rejects.toThrow('so it must be the only destination');
+      const retained = createManager().retainBackup(true);
+      await expect(retained.run()).rejects.toThrow('cannot be combined with retainBackup()');
+      expect(mockBackupStrategy.backup).not.toHaveBeenCalled();
+
+      const report = await shared.preflight();
+      expect(report.checks).toContainEqual(expect.objectContaining({ name: 'delivery mode', status: 'fail' }));
+      expect((await createManager().preflight()).checks.map((check) => check.name)).not.toContain('delivery mode');
+    });
+  });
+
+  describe('resumable delivery', () => {
+    const backupPath = join(tmpdir(), `wbackup-resume-test-${Date.now()}.dump`);
+    let failingPart = 0;
+    const sentParts: number[] = [];
+
+    const resumeBackup: BackupStrategy = {
+      name: 'resume-db',
+      configSchema: MockBackupConfigSchema,
+      async backup() {
+        await writeFile(backupPath, 'x'.repeat(100));
+        return { ...mockBackupResult, filePath: backupPath, fileName: 'resume.dump', sizeBytes: 100 };
+      },
+      cleanup: vi.fn((filePath: string) => removeFile(filePath)),
+    };
+
+    const resumeDelivery: DeliveryStrategy = {
+      name: 'resume-webhook',
+      configSchema: MockDeliveryConfigSchema,
+      maxFileSizeBytes: 30,
+      deliver(_config, backup, context = {}) {
+        return deliverParts({
+          platform: 'resume-webhook',
+          backup,
+          maxPartSizeBytes: 30,
+          context,
+          sendPart: async ({ partNumber }) => {
+            if (partNumber === failingPart) {
+              throw new Error(`part ${partNumber} rejected`);
+            }
+            sentParts.push(partNumber);
+            return `msg-${partNumber}`;
+          },
+        });
+      },
+    };
+
+    const exists = (path: string) => access(path).then(() => true, () => false);
+    const statePath = `${backupPath}.delivery-1-resume-webhook.json`;
+
+    const createResumableManager = () =>
+      new BackupManager()
+        .database('resume-db', { connectionString: 'test://' })
+        .delivery('resume-webhook', { webhookUrl: 'https://test.com' })
+        .resumable(true);
+
+    beforeEach(() => {
+      failingPart = 0;
+      sentParts.length = 0;
+      try {
+        registry.registerBackup('resume-db', () => resumeBackup);
+        registry.registerDelivery('resume-webhook', () => resumeDelivery);
+      } catch {
+        // Already registered
+      }
+    });
+
+    afterEach(async () => {
+      await rm(backupPath, { force: true });
+      await rm(statePath, { force: true });
+    });
+
+    it('should keep the backup and state after a partial failure', async () => {
+      failingPart = 3;
+
+      const error = await createResumableManager().run().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(IncompleteDeliveryError);
+      expect((error as IncompleteDeliveryError).filePath).toBe(backupPath);
+      expect((error as IncompleteDeliveryError).deliveries[0]).toMatchObject({ partsDelivered: 2, totalParts: 4 });
+      expect(await exists(backupPath)).toBe(true);
+      expect(await exists(statePath)).toBe(true);
+    });
+
+    it('should resume only the missing parts and clean up', async () => {
+      failingPart = 3;
+      const manager = createResumableManager();
+      await manager.run().catch(() => {});
+
+      failingPart = 0;
+      sentParts.length = 0;
+      const result = await manager.resume();
+
+      expect(sentParts).toEqual([3, 4]);
+      expect(result.delivery).toMatchObject({ success: true, messageId: 'msg-1' });
+      expect(result.backup.database).toBe('testdb');
+      expect(await exists(backupPath)).toBe(false);
+      expect(await exists(statePath)).toBe(false);
+    });
+
+    it('should resume from a path in a new manager', async () => {
+      failingPart = 2;
+      await createResumableManager().run().catch(() => {});
+
+      failingPart = 0;
+      const result = await createResumableManager().resume(backupPath);
+
+      expect(result.delivery.success).toBe(true);
+    });
+
+    it('should throw when there is nothing to resume', async () => {
+      await expect(createResumableManager().resume()).rejects.toThrow('No incomplete delivery to resume');
+      await expect(createResumableManager().resume(backupPath)).rejects.toThrow('No delivery state found');
+    });
+
+    it('should clean up failed backups when not resumable', async () => {
+      failingPart = 3;
+
+      await expect(
+        new BackupManager()
+          .database('resume-db', { connectionString: 'test://' })
+          .delivery('resume-webhook', { webhookUrl: 'https://test.com' })
+          .run()
+      ).rejects.toThrow('part 3 rejected');
+
+      expect(await exists(backupPath)).toBe(false);
+      expect(await exists(statePath)).toBe(false);
+    });
+  });
+
+  describe('cancellation', () => {
+    const hangingBackup: BackupStrategy = {
+      name: 'hanging-db',
+      configSchema: MockBackupConfigSchema,
+      backup: vi.fn(async (_config: unknown, context?: { signal?: AbortSignal | undefined }) => {
+        await sleep(10_000, context?.signal);
+        return mockBackupResult;
+      }),
+      cleanup: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const hangingDelivery: DeliveryStrategy = {
+      name: 'hanging-webhook',
+      configSchema: MockDeliveryConfigSchema,
+      maxFileSizeBytes: 25 * 1024 * 1024,
+      deliver: vi.fn(async (_config, _backup, context) => {
+        await sleep(10_000, context?.signal);
+        return { success: true, platform: 'hanging', deliveredAt: new Date() };
+      }),
+    };
+
+    beforeEach(() => {
+      try {
+        registry.registerBackup('hanging-db', () => hangingBackup);
+        registry.registerDelivery('hanging-webhook', () => hangingDelivery);
+      } catch {
+        // Already registered
+      }
+    });
+
+    it('should cancel a running backup through the signal', async () => {
+      const controller = new AbortController();
+      const errorSpy = vi.fn();
+      const pending = new BackupManager()
+        .database('hanging-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' })
+        .onError(errorSpy)
+        .run({ signal: controller.signal });
+
+      setTimeout(() => controller.abort(), 10);
+      const error = await pending.catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(BackupCancelledError);
+      expect(error).toMatchObject({ phase: 'cancelled', interruptedPhase: 'backup', timedOut: false });
+      expect(errorSpy).toHaveBeenCalledWith(expect.any(BackupCancelledError), 'cancelled');
+      expect(mockDeliveryStrategy.deliver).not.toHaveBeenCalled();
+    });
+
+    it('should not start when the signal is already aborted', async () => {
+      await expect(
+        new BackupManager()
+          .database('mock-db', { connectionString: 'test://' })
+          .delivery('mock-webhook', { webhookUrl: 'https://test.com' })
+          .run({ signal: AbortSignal.abort() })
+      ).rejects.toBeInstanceOf(BackupCancelledError);
+
+      expect(mockBackupStrategy.backup).not.toHaveBeenCalled();
+    });
+
+    it('should time out the delivery phase and clean up', async () => {
+      const error = await new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('hanging-webhook', { webhookUrl: 'https://test.com' })
+        .timeouts({ delivery: 20 })
+        .run()
+        .catch((e: unknown) => e);
+
+      expect(error).toMatchObject({ interruptedPhase: 'delivery', timedOut: true });
+      expect((error as Error).message).toBe('The delivery phase timed out after 20ms');
+      expect(mockBackupStrategy.cleanup).toHaveBeenCalledWith(mockBackupResult.filePath);
+    });
+  });
+
+  describe('hooks', () => {
+    const createManager = () =>
+      new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' });
+
+    it('should run every hook in lifecycle order', async () => {
+      const calls: string[] = [];
+      const record = (name: string) => vi.fn(() => void calls.push(name));
+      const beforeBackup = record('beforeBackup');
+      const afterDelivery = record('afterDelivery');
+
+      await createManager()
+        .beforeBackup(beforeBackup)
+        .afterBackup(record('afterBackup'))
+        .beforeDelivery(record('beforeDelivery'))
+        .afterDelivery(afterDelivery)
+        .finally(record('finally'))
+        .onSuccess(record('onSuccess'))
+        .run();
+
+      expect(calls).toEqual(['beforeBackup', 'afterBackup', 'beforeDelivery', 'afterDelivery', 'finally', 'onSuccess']);
+      expect(beforeBackup).toHaveBeenCalledWith(expect.objectContaining({ hook: 'beforeBackup', database: 'testdb' }));
+      expect(afterDelivery).toHaveBeenCalledWith(
+        expect.objectContaining({ result: mockBackupResult, deliveries: [expect.objectContaining({ success: true })] })
+      );
+    });
+
+    it('should report a failing hook and continue by default', async () => {
+      const progressSpy = vi.fn();
+
+      await createManager()
+        .beforeBackup(() => {
+          throw new Error('maintenance mode unavailable');
+        })
+        .onProgress(progressSpy)
+        .run();
+
+      expect(progressSpy).toHaveBeenCalledWith('backup', 'beforeBackup hook failed: maintenance mode unavailable');
+      expect(mockDeliveryStrategy.deliver).toHaveBeenCalled();
+    });
+
+    it('should abort the run when a hook with abortOnFailure fails', async () => {
+      const finallyHook = vi.fn();
+      const errorSpy = vi.fn();
+
+      const error = await createManager()
+        .beforeDelivery(
+          () => {
+            throw new Error('disk full');
+          },
+          { abortOnFailure: true }
+        )
+        .finally(finallyHook)
+        .onError(errorSpy)
+        .run()
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(HookError);
+      expect(error).toMatchObject({ hook: 'beforeDelivery', phase: 'delivery' });
+      expect(mockDeliveryStrategy.deliver).not.toHaveBeenCalled();
+      expect(mockBackupStrategy.cleanup).toHaveBeenCalledWith(mockBackupResult.filePath);
+      expect(finallyHook).toHaveBeenCalledWith(expect.objectContaining({ result: mockBackupResult, error }));
+      expect(errorSpy).toHaveBeenCalledWith(error, 'delivery');
+    });
+
+    it('should run finally hooks when the backup fails', async () => {
+      (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('dump failed'));
+      const finallyHook = vi.fn();
+
+      await expect(createManager().finally(finallyHook).run()).rejects.toThrow('dump failed');
+
+      expect(finallyHook).toHaveBeenCalledTimes(1);
+      expect(finallyHook.mock.calls[0]?.[0]).toMatchObject({ hook: 'finally', error: { message: 'dump failed' } });
+      expect(finallyHook.mock.calls[0]?.[0].result).toBeUndefined();
+    });
+
+    it('should run finally hooks after a cancellation', async () => {
+      const finallyHook = vi.fn();
+
+      await expect(
+        createManager().finally(finallyHook).run({ signal: AbortSignal.abort() })
+      ).rejects.toBeInstanceOf(BackupCancelledError);
+
+      expect(finallyHook).toHaveBeenCalledWith(
+        expect.objectContaining({ signal: expect.objectContaining({ aborted: false }) })
+      );
+    });
+
+    it('should fail a successful run once when a finally hook aborts', async () => {
+      const finallyHook = vi.fn().mockRejectedValue(new Error('still in maintenance'));
+      const successSpy = vi.fn();
+      const errorSpy = vi.fn();
+
+      await expect(
+        createManager()
+          .finally(finallyHook, { abortOnFailure: true })
+          .onSuccess(successSpy)
+          .onError(errorSpy)
+          .run()
+      ).rejects.toThrow('finally hook failed: still in maintenance');
+
+      expect(finallyHook).toHaveBeenCalledTimes(1);
+      expect(successSpy).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith(expect.any(HookError), 'cleanup');
+    });
+  });
+
+  describe('preflight', () => {
+    it('should pass for a valid configuration without running a backup', async () => {
+      const report = await new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' })
+        .preflight();
+
+      expect(report.ok).toBe(true);
+      expect(report.status).toBe('pass');
+      expect(report.checks.map((c) => c.name)).toEqual([
+        'database (mock-db)',
+        'delivery #1 (mock-webhook)',
+        'temp directory',
+      ]);
+      expect(mockBackupStrategy.backup).not.toHaveBeenCalled();
+    });
+
+    it('should report invalid configs and unknown strategies instead of throwing', async () => {
+      const report = await new BackupManager()
+        .database('mock-db', {})
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' })
+        .delivery('nonexistent', {})
+        .preflight();
+
+      expect(report.ok).toBe(false);
+      expect(report.checks[0]).toMatchObject({ status: 'fail', message: expect.stringContaining('connectionString') });
+      expect(report.checks[2]).toMatchObject({
+        name: 'delivery #2 (nonexistent)',
+        status: 'fail',
+        message: expect.stringContaining('Unknown delivery strategy'),
+      });
+    });
+
+    it('should include the checks of the backup strategy', async () => {
+      mockBackupStrategy.preflight = vi.fn().mockResolvedValue([
+        { name: 'mock binary', status: 'warn', message: 'outdated' },
+      ]);
+
+      const report = await new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' })
+        .preflight();
+
+      expect(report.status).toBe('warn');
+      expect(report.checks).toContainEqual({ name: 'mock binary', status: 'warn', message: 'outdated' });
+      expect(mockBackupStrategy.preflight).toHaveBeenCalledWith({ connectionString: 'test://', compress: true });
+    });
+
+    it('should fail when the configuration is incomplete', async () => {
+      const report = await new BackupManager().preflight();
+
+      expect(report.checks.filter((c) => c.status === 'fail').map((c) => c.name)).toEqual(['database', 'delivery']);
+    });
+  });
+
+  describe('checkHealth', () => {
+    const createManager = () =>
+      new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' });
+
+    it('should report every check with its latency', async () => {
+      mockBackupStrategy.healthCheck = vi.fn().mockResolvedValue(undefined);
+
+      const report = await createManager().checkHealth();
+
+      expect(report.healthy).toBe(true);
+      expect(report.checks).toEqual([
+        expect.objectContaining({ name: 'mock-db', kind: 'database', status: 'healthy' }),
+        { name: 'mock-webhook', kind: 'delivery', status: 'unsupported', latencyMs: 0 },
+        expect.objectContaining({ kind: 'disk', status: 'healthy' }),
+      ]);
+      expect(mockBackupStrategy.healthCheck).toHaveBeenCalledWith(
+        { connectionString: 'test://', compress: true },
+        expect.any(AbortSignal)
+      );
+    });
+
+    it('should report the failure reason of an unreachable target', async () => {
+      mockDeliveryStrategy.healthCheck = vi.fn().mockRejectedValue(new Error('Unknown Webhook'));
+
+      const report = await createManager().checkHealth();
+
+      expect(report.healthy).toBe(false);
+      expect(report.checks[1]).toMatchObject({ status: 'unhealthy', message: 'Unknown Webhook' });
+    });
+
+    it('should time out slow checks', async () => {
+      mockBackupStrategy.healthCheck = vi.fn(() => new Promise<void>(() => {}));
+
+      const report = await createManager().checkHealth({ timeoutMs: 10 });
+
+      expect(report.checks[0]).toMatchObject({ status: 'unhealthy', message: 'Timed out after 10ms' });
+    });
+  });
+
+  describe('catalog', () => {
+    const catalogFile = join(tmpdir(), `wbackup-manager-catalog-${Date.now()}.jsonl`);
+    const backupFile = join(tmpdir(), `wbackup-manager-catalog-${Date.now()}.dump`);
+
+    afterEach(async () => {
+      await rm(catalogFile, { force: true });
+      await rm(backupFile, { force: true });
+    });
+
+    it('should record a successful run with its checksum and message IDs', async () => {
+      await writeFile(backupFile, 'hello world');
+      (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ...mockBackupResult,
+        filePath: backupFile,
+      });
+      const catalog = new JsonLinesCatalog(catalogFile);
+
+      await new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' })
+        .catalog(catalog)
+        .run();
+
+      const entry = await catalog.latest('testdb');
+      expect(entry).toMatchObject({
+        status: 'success',
+        database: 'testdb',
+        strategy: 'mock-db',
+        fileName: 'test-backup.dump',
+        sizeBytes: 1024,
+        checksum: 'b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9',
+        deliveries: [{ platform: 'mock', success: true, messageId: '123' }],
+      });
+      expect(entry?.error).toBeUndefined();
+    });
+
+    it('should record a failed run with the error phase', async () => {
+      (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('dump failed'));
+      const catalog = new JsonLinesCatalog(catalogFile);
+
+      await expect(
+        new BackupManager()
+          .database('mock-db', { connectionString: 'test://' })
+          .delivery('mock-webhook', { webhookUrl: 'https://test.com' })
+          .catalog(catalog)
+          .run()
+      ).rejects.toThrow('dump failed');
+
+      const [entry] = await catalog.list({ status: 'failed' });
+      expect(entry).toMatchObject({
+        database: 'testdb',
+        strategy: 'mock-db',
+        error: 'dump failed',
+        errorPhase: 'backup',
+        deliveries: [],
+      });
+    });
+
+    it('should not fail the run when the catalog cannot be written', async () => {
+      const onProgress = vi.fn();
+      const catalog = new JsonLinesCatalog(catalogFile);
+      catalog.record = vi.fn().mockRejectedValue(new Error('disk full'));
+
+      await new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' })
+        .catalog(catalog)
+        .onProgress(onProgress)
+        .run();
+
+      expect(onProgress).toHaveBeenCalledWith('cleanup', 'Failed to record run in catalog: disk full');
+    });
+  });
+
+  describe('retention', () => {
+    const archiveDir = join(tmpdir(), `wbackup-manager-archive-${Date.now()}`);
+    const backupFile = join(tmpdir(), `wbackup-manager-retention-${Date.now()}.dump`);
+
+    const createManager = () =>
+      new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' });
+
+    beforeEach(async () => {
+      await writeFile(backupFile, 'hello world');
+      (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...mockBackupResult,
+        filePath: backupFile,
+        fileName: 'new.dump',
+      });
+    });
+
+    afterEach(async () => {
+      await rm(archiveDir, { recursive: true, force: true });
+      await rm(backupFile, { force: true });
+    });
+
+    it('should archive the backup and prune older ones', async () => {
+      await mkdir(archiveDir, { recursive: true });
+      await writeFile(join(archiveDir, 'old.dump'), 'old');
+      await utimes(join(archiveDir, 'old.dump'), new Date('2024-01-01'), new Date('2024-01-01'));
+
+      const result = await createManager().retention({ directory: archiveDir, keepLast: 1 }).run();
+
+      expect(result.archivedPath).toBe(join(archiveDir, basename(backupFile)));
+      expect(result.pruned?.deleted.map((b) => b.fileName)).toEqual(['old.dump']);
+      expect(await readdir(archiveDir)).toEqual([basename(backupFile)]);
+      expect(mockBackupStrategy.cleanup).not.toHaveBeenCalled();
+    });
+
+    it('should prune on demand with a dry run', async () => {
+      await mkdir(archiveDir, { recursive: true });
+      await writeFile(join(archiveDir, 'a.dump'), 'a');
+      await writeFile(join(archiveDir, 'b.dump'), 'b');
+      const manager = createManager().retention({ directory: archiveDir, keepLast: 1 });
+
+      const result = await manager.prune({ dryRun: true });
+
+      expect(result.deleted).toHaveLength(1);
+      expect(await readdir(archiveDir)).toHaveLength(2);
+    });
+
+    it('should require a policy for prune', async () => {
+      await expect(createManager().prune()).rejects.toThrow('Retention policy is required');
+    });
+
+    it('should reject an invalid policy', () => {
+      expect(() => createManager().retention({ directory: archiveDir, keepLast: -1 })).toThrow();
+    });
+  });
+
+  describe('naming', () => {
+    const catalogFile = join(tmpdir(), `wbackup-manager-naming-${Date.now()}.jsonl`);
+    const unnamedPath = join(tmpdir(), `wbackup-manager-unnamed-${Date.now()}.sql`);
+    let outputPaths: string[];
+
+    beforeEach(() => {
+      outputPaths = [];
+      (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mockImplementation(
+        async (_config: unknown, context: BackupContext = {}) => {
+          const filePath = context.outputPath?.('orders', '.sql') ?? unnamedPath;
+          outputPaths.push(filePath);
+          await writeFile(filePath, 'dump');
+          return { ...mockBackupResult, filePath, fileName: basename(filePath) };
+        }
+      );
+      (mockBackupStrategy.cleanup as ReturnType<typeof vi.fn>).mockImplementation(removeFile);
+    });
+
+    afterEach(async () => {
+      await rm(catalogFile, { force: true });
+    });
+
+    const createManager = () =>
+      new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' });
+
+    it('should name the dump from the template and remove its directory afterwards', async () => {
+      const catalog = new JsonLinesCatalog(catalogFile);
+      const result = await createManager()
+        .naming('{env}_{type}_{database}_{runId}', { env: 'prod' })
+        .catalog(catalog)
+        .run();
+
+      const entry = await catalog.latest('testdb');
+      expect(result.backup.fileName).toBe(`prod_mock-db_orders_${entry?.id}.sql`);
+      await expect(access(dirname(outputPaths[0]!))).rejects.toThrow();
+    });
+
+    it('should give every run a directory of its own', async () => {
+      const manager = createManager().naming('{database}').retainBackup(true);
+      const [first, second] = await Promise.all([manager.run(), manager.run()]);
+
+      expect(first.backup.fileName).toBe('orders.sql');
+      expect(first.backup.filePath).not.toBe(second.backup.filePath);
+      await Promise.all(outputPaths.map((path) => rm(dirname(path), { recursive: true, force: true })));
+    });
+
+    it('should leave the default temp path alone without a template', async () => {
+      await createManager().run();
+      expect(outputPaths).toEqual([unnamedPath]);
+      await rm(unnamedPath, { force: true });
+    });
+
+    it('should reject unknown placeholders', () => {
+      expect(() => createManager().naming('{databse}')).toThrow('Unknown placeholder {databse}');
+    });
+  });
+
+  describe('metrics', () => {
+    const createManager = (metrics: BackupMetrics) =>
+      new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' })
+        .metrics(metrics);
+
+    it('should record successful runs with their retries', async () => {
+      (mockDeliveryStrategy.deliver as ReturnType<typeof vi.fn>).mockImplementationOnce(
+        async (_config: unknown, _backup: BackupResult, context: DeliveryContext) => {
+          context.onRetry?.(1, 0);
+          context.onRetry?.(2, 0);
+          return { success: true, platform: 'mock', deliveredAt: new Date() };
+        }
+      );
+      const metrics = new BackupMetrics();
+
+      await createManager(metrics).run();
+
+      const text = metrics.render();
+      expect(text).toContain('wbackup_runs_total{database="testdb",status="success"} 1\n');
+      expect(text).toContain('wbackup_last_size_bytes{database="testdb"} 1024\n');
+      expect(text).toContain('wbackup_delivery_retries_total{database="testdb",destination="mock-webhook"} 2\n');
+    });
+
+    it('should record failed runs under the database name before a dump exists', async () => {
+      (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('dump failed'));
+      const metrics = new BackupMetrics();
+
+      await expect(createManager(metrics).run()).rejects.toThrow('dump failed');
+
+      const text = metrics.render();
+      expect(text).toContain('wbackup_runs_total{database="testdb",status="failed"} 1\n');
+      expect(text).not.toContain('wbackup_last_success_timestamp_seconds{');
+    });
+
+    it('should not fail the run when the textfile cannot be written', async () => {
+      const onProgress = vi.fn();
+      const metrics = new BackupMetrics({ textfilePath: '/dev/null/wbackup.prom' });
+
+      await createManager(metrics).onProgress(onProgress).run();
+
+      expect(onProgress).toHaveBeenCalledWith('cleanup', expect.stringMatching(/^Failed to write metrics: /));
+    });
+  });
+
+  describe('manifest', () => {
+    const backupFile = join(tmpdir(), `wbackup-manager-manifest-${Date.now()}.dump`);
+    const helloChecksum = 'b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9';
+
+    beforeEach(async () => {
+      await writeFile(backupFile, 'hello world');
+      (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ...mockBackupResult,
+        filePath: backupFile,
+      });
+    });
+
+    afterEach(async () => {
+      await rm(backupFile, { force: true });
+    });
+
+    const createManager = () =>
+      new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' });
+
+    it('should expose the checksum and hand every destination a manifest', async () => {
+      mockBackupStrategy.toolVersions = vi.fn().mockResolvedValue({ mockdump: 'mockdump 1.2.3' });
+
+      const result = await createManager().run();
+
+      expect(result.backup.checksum).toBe(helloChecksum);
+      const context = (mockDeliveryStrategy.deliver as ReturnType<typeof vi.fn>).mock.calls[0]?.[2] as DeliveryContext;
+      expect(context.manifest).toMatchObject({
+        version: 1,
+        database: 'testdb',
+        file: { fileName: 'test-backup.dump', sizeBytes: 1024, sha256: helloChecksum },
+        tools: { mockdump: 'mockdump 1.2.3' },
+        metadata: { type: 'mock', duration: 100 },
+      });
+    });
+
+    it('should still deliver when tool versions cannot be read', async () => {
+      mockBackupStrategy.toolVersions = vi.fn().mockRejectedValue(new Error('no tools'));
+
+      await createManager().run();
+
+      const context = (mockDeliveryStrategy.deliver as ReturnType<typeof vi.fn>).mock.calls[0]?.[2] as DeliveryContext;
+      expect(context.manifest?.tools).toEqual({});
+    });
+
+    it('should skip the manifest when disabled', async () => {
+      const result = await createManager().manifest(false).run();
+
+      expect(result.backup.checksum).toBe(helloChecksum);
+      const context = (mockDeliveryStrategy.deliver as ReturnType<typeof vi.fn>).mock.calls[0]?.[2] as DeliveryContext;
+      expect(context.manifest).toBeUndefined();
+    });
+  });
+
+  describe('compression', () => {
+    const createManager = () =>
+      new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' });
+
+    it('should hand the chosen compressor to the strategy', async () => {
+      await createManager().compression({ codec: 'brotli', level: 9 }).run();
+
+      const context = (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mock.calls[0]?.[1] as BackupContext;
+      expect(context.compressor).toMatchObject({ codec: 'brotli', level: 9, extension: '.br' });
+    });
+
+    it('should leave the default compressor to maybeCompress', async () => {
+      await createManager().run();
+
+      const context = (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mock.calls[0]?.[1] as BackupContext;
+      expect(context.compressor).toBeUndefined();
+    });
+
+    it('should reject a level outside the codec range', () => {
+      expect(() => createManager().compression({ codec: 'gzip', level: 12 })).toThrow('gzip level must be 1-9');
+    });
+
+    it('should report skipped compression as progress', async () => {
+      (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mockImplementationOnce(
+        async (_config: unknown, context: BackupContext) => {
+          context.onCompressionSkipped?.('the custom format is compressed already');
+          return mockBackupResult;
+        }
+      );
+      const onProgress = vi.fn();
+
+      await createManager().onProgress(onProgress).run();
+
+      expect(onProgress).toHaveBeenCalledWith('backup', 'Compression skipped: the custom format is compressed already');
+    });
+  });
+
+  describe('encryption', () => {
+    const backupFile = join(tmpdir(), `wbackup-manager-encrypt-${Date.now()}.dump`);
+    const encryptedFile = `${backupFile}.enc`;
+    const key = 'ab'.repeat(32);
+
+    beforeEach(async () => {
+      await writeFile(backupFile, 'hello world');
+      (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ...mockBackupResult,
+        filePath: backupFile,
+      });
+    });
+
+    afterEach(async () => {
+      await rm(backupFile, { force: true });
+      await rm(encryptedFile, { force: true });
+      await rm(`${backupFile}.out`, { force: true });
+    });
+
+    const createManager = () =>
+      new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' });
+
+    it('should deliver an encrypted copy and remove the plaintext dump', async () => {
+      const result = await createManager().retainBackup(true).encrypt({ key }).run();
+
+      expect(result.backup).toMatchObject({
+        filePath: encryptedFile,
+        fileName: basename(encryptedFile),
+        encrypted: true,
+      });
+      expect(result.backup.sizeBytes).toBeGreaterThan('hello world'.length);
+      expect(mockBackupStrategy.cleanup).toHaveBeenCalledWith(backupFile);
+      const delivered = (mockDeliveryStrategy.deliver as ReturnType<typeof vi.fn>).mock.calls[0]?.[1] as BackupResult;
+      expect(delivered.filePath).toBe(encryptedFile);
+      const context = (mockDeliveryStrategy.deliver as ReturnType<typeof vi.fn>).mock.calls[0]?.[2] as DeliveryContext;
+      expect(context.manifest).toMatchObject({ encrypted: true, file: { sizeBytes: result.backup.sizeBytes } });
+
+      await decryptFile(encryptedFile, `${backupFile}.out`, { key });
+      expect(await readFile(`${backupFile}.out`, 'utf-8')).toBe('hello world');
+    });
+
+    it('should record recipient fingerprints', async () => {
+      const { publicKey, fingerprint } = generateRecipientKeyPair();
+
+      const result = await createManager().encrypt({ recipients: [publicKey] }).run();
+
+      expect(result.backup).toMatchObject({ encrypted: true, recipients: [fingerprint] });
+      const delivered = (mockDeliveryStrategy.deliver as ReturnType<typeof vi.fn>).mock.calls[0]?.[1] as BackupResult;
+      expect(delivered.recipients).toEqual([fingerprint]);
+    });
+
+    it('should reject invalid options when configured', () => {
+      expect(() => new BackupManager().encrypt({ key: 'too short' })).toThrow();
+    });
+
+    it('should fail the backup phase and still remove the plaintext when encryption fails', async () => {
+      await writeFile(encryptedFile, 'left over');
+      const onError = vi.fn();
+
+      await expect(createManager().encrypt({ key }).onError(onError).run()).rejects.toThrow('Encryption failed');
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), 'backup');
+      expect(mockBackupStrategy.cleanup).toHaveBeenCalledWith(backupFile);
+      expect(mockDeliveryStrategy.deliver).not.toHaveBeenCalled();
+    });
+
+    it('should keep the passphrase out of error messages', async () => {
+      const passphrase = 'very secret passphrase';
+      (mockDeliveryStrategy.deliver as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error(`bad ${passphrase}`));
+
+      const result = await createManager().encrypt({ passphrase, scryptLogN: 14 }).run().catch((e: Error) => e);
+
+      expect(String(result)).not.toContain(passphrase);
+    });
+  });
+
+  describe('streaming', () => {
+    const dump = 'INSERT INTO orders VALUES (1);\n'.repeat(100);
+    let received: Buffer;
+    let dumpDone: Promise<void>;
+
+    const dumpStream = (): BackupStream => ({
+      stream: Readable.from([Buffer.from(dump)]),
+      done: dumpDone,
+      fileName: 'orders.sql',
+      database: 'orders',
+      metadata: { type: 'mock' },
+    });
+
+    beforeEach(() => {
+      dumpDone = Promise.resolve();
+      mockBackupStrategy.backupStream = vi.fn(async () => dumpStream());
+      mockDeliveryStrategy.deliverStream = vi.fn(async (_config: unknown, backup: StreamedBackup) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of backup.stream) {
+          chunks.push(chunk as Buffer);
+        }
+        received = Buffer.concat(chunks);
+        return { success: true, platform: 'mock', deliveredAt: new Date(), partsDelivered: 1, totalParts: 1 };
+      });
+    });
+
+    const createManager = () =>
+      new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' })
+        .streaming(true);
+
+    it('should compress the dump into the destination without a file', async () => {
+      const result = await createManager().run();
+
+      expect(gunzipSync(received).toString()).toBe(dump);
+      expect(result.backup).toMatchObject({
+        filePath: '',
+        fileName: 'orders.sql.gz',
+        sizeBytes: received.length,
+        compressed: true,
+        codec: 'gzip',
+        streamed: true,
+        checksum: createHash('sha256').update(received).digest('hex'),
+      });
+      expect(mockBackupStrategy.backup).not.toHaveBeenCalled();
+      expect(mockBackupStrategy.cleanup).not.toHaveBeenCalled();
+      expect(mockDeliveryStrategy.deliver).not.toHaveBeenCalled();
+    });
+
+    it('should stream the dump as is without compression', async () => {
+      const result = await createManager().compress(false).run();
+
+      expect(received.toString()).toBe(dump);
+      expect(result.backup).toMatchObject({ fileName: 'orders.sql', compressed: false, sizeBytes: dump.length });
+    });
+
+    it('should fail the backup phase when the dump tool fails', async () => {
+      dumpDone = Promise.reject(new Error('pg_dump exited with code 1'));
+      dumpDone.catch(() => {});
+      const onError = vi.fn();
+
+      await expect(createManager().onError(onError).run()).rejects.toThrow('pg_dump exited with code 1');
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), 'backup');
+    });
+
+    it('should fail the delivery phase when the destination fails', async () => {
+      (mockDeliveryStrategy.deliverStream as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        success: false,
+        platform: 'mock',
+        error: 'upload rejected',
+        deliveredAt: new Date(),
+      });
+      const onError = vi.fn();
+
+      await expect(createManager().onError(onError).run()).rejects.toThrow('upload rejected');
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), 'delivery');
+    });
+
+    it('should refuse options that need a file on disk', async () => {
+      await expect(createManager().retainBackup(true).resumable(true).run()).rejects.toThrow(
+        'Streaming cannot be combined with resumable(), retainBackup()'
+      );
+      expect(mockBackupStrategy.backupStream).not.toHaveBeenCalled();
+    });
+
+    it('should need a destination that accepts streams', async () => {
+      delete mockDeliveryStrategy.deliverStream;
+
+      await expect(createManager().run()).rejects.toThrow('mock-webhook cannot receive streamed backups');
+    });
+
+    it('should report what rules streaming out in preflight', async () => {
+      delete mockBackupStrategy.backupStream;
+
+      const report = await createManager().delivery('mock-webhook', { webhookUrl: 'https://test.com' }).preflight();
+
+      expect(report.checks.filter((check) => check.name === 'streaming')).toEqual([
+        { name: 'streaming', status: 'fail', message: 'mock-db backups cannot be streamed' },
+        { name: 'streaming', status: 'fail', message: 'Streaming needs exactly one destination' },
+      ]);
+    });
+  });
+
+  describe('events', () => {
+    const createManager = () =>
+      new BackupManager()
+        .database('mock-db', { connectionString: 'test://' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com' });
+
+    it('should emit structured lifecycle events', async () => {
+      const lifecycle = [
+        'backup:start',
+        'backup:end',
+        'delivery:start',
+        'delivery:end',
+        'cleanup:end',
+        'run:end',
+      ] as const;
+      const events: string[] = [];
+      const manager = createManager();
+      for (const name of lifecycle) {
+        manager.on(name, (event) => void events.push(event.type));
+      }
+      const backupEnd = vi.fn();
+      const deliveryEnd = vi.fn();
+      manager.on('backup:end', backupEnd).on('delivery:end', deliveryEnd);
+
+      await manager.run();
+
+      expect(events).toEqual([...lifecycle]);
+      expect(backupEnd).toHaveBeenCalledWith({
+        type: 'backup:end',
+        result: mockBackupResult,
+        durationMs: expect.any(Number),
+      });
+      expect(deliveryEnd).toHaveBeenCalledWith(
+        expect.objectContaining({
+          destination: 'mock-webhook',
+          index: 0,
+          result: expect.objectContaining({ success: true }),
+        })
+      );
+    });
+
+    it('should forward compression and part events from strategies', async () => {
+      (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mockImplementationOnce(async (_config, context) => {
+        context.onCompressed({ inputBytes: 4096, outputBytes: 1024, durationMs: 5 });
+        return mockBackupResult;
+      });
+      const deliver = mockDeliveryStrategy.deliver as ReturnType<typeof vi.fn>;
+      deliver.mockImplementationOnce(async (_config, _backup, context) => {
+        context.onPart({ partNumber: 1, totalParts: 1, sizeBytes: 1024, messageId: '123' });
+        return { success: true, platform: 'mock', deliveredAt: new Date() };
+      });
+      const compressEnd = vi.fn();
+      const deliveryPart = vi.fn();
+
+      await createManager().on('compress:end', compressEnd).on('delivery:part', deliveryPart).run();
+
+      expect(compressEnd).toHaveBeenCalledWith({
+        type: 'compress:end',
+        database: 'testdb',
+        inputBytes: 4096,
+        outputBytes: 1024,
+        durationMs: 5,
+      });
+      expect(deliveryPart).toHaveBeenCalledWith({
+        type: 'delivery:part',
+        destination: 'mock-webhook',
+        index: 0,
+        partNumber: 1,
+        totalParts: 1,
+        sizeBytes: 1024,
+        messageId: '123',
+      });
+    });
+
+    it('should forward byte progress as events and progress messages', async () => {
+      const progress = { bytes: 512, totalBytes: 1024, bytesPerSecond: 1024, etaMs: 500, elapsedMs: 500 };
+      (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mockImplementationOnce(async (_config, context) => {
+        expect(context.progressIntervalMs).toBe(250);
+        context.onByteProgress('dump', { bytes: 2048, bytesPerSecond: 1024, elapsedMs: 2000 });
+        context.onByteProgress('compress', progress);
+        return mockBackupResult;
+      });
+      const deliver = mockDeliveryStrategy.deliver as ReturnType<typeof vi.fn>;
+      deliver.mockImplementationOnce(async (_config, _backup, context) => {
+        context.onByteProgress({ ...progress, partNumber: 2, totalParts: 3 });
+        return { success: true, platform: 'mock', deliveredAt: new Date() };
+      });
+      const dumpProgress = vi.fn();
+      const compressProgress = vi.fn();
+      const deliveryProgress = vi.fn();
+      const onProgress = vi.fn();
+
+      await createManager()
+        .progressInterval(250)
+        .on('backup:progress', dumpProgress)
+        .on('compress:progress', compressProgress)
+        .on('delivery:progress', deliveryProgress)
+        .onProgress(onProgress)
+        .run();
+
+      expect(dumpProgress).toHaveBeenCalledWith(expect.objectContaining({ database: 'testdb', bytes: 2048 }));
+      expect(compressProgress).toHaveBeenCalledWith({ type: 'compress:progress', database: 'testdb', ...progress });
+      expect(deliveryProgress).toHaveBeenCalledWith(
+        expect.objectContaining({ destination: 'mock-webhook', index: 0, partNumber: 2, totalParts: 3 })
+      );
+      expect(onProgress).toHaveBeenCalledWith('backup', 'Dumped: 2.00 KB (1.00 KB/s)');
+      expect(onProgress).toHaveBeenCalledWith('backup', 'Compressed: 512.00 B of 1.00 KB (50%, 1.00 KB/s, ETA 500ms)');
+      expect(onProgress).toHaveBeenCalledWith(
+        'delivery',
+        'Uploaded part 2/3 to mock-webhook: 512.00 B of 1.00 KB (50%, 1.00 KB/s, ETA 500ms)'
+      );
+    });
+
+    it('should redact configured secrets from errors, progress and metadata', async () => {
+      const backup = mockBackupStrategy.backup as ReturnType<typeof vi.fn>;
+      backup.mockResolvedValueOnce({ ...mockBackupResult, metadata: { uri: 'test://admin:s3cr3t@db/app' } });
+      const deliver = mockDeliveryStrategy.deliver as ReturnType<typeof vi.fn>;
+      deliver.mockRejectedValueOnce(new Error('POST https://test.com/hooks/hook-token failed'));
+      const onProgress = vi.fn();
+      const onError = vi.fn();
+      const backupEnd = vi.fn();
+
+      const run = new BackupManager()
+        .database('mock-db', { connectionString: 'test://admin:s3cr3t@db/app' })
+        .delivery('mock-webhook', { webhookUrl: 'https://test.com/hooks/hook-token' })
+        .on('backup:end', backupEnd)
+        .onProgress(onProgress)
+        .onError(onError)
+        .run();
+
+      await expect(run).rejects.toThrow('POST **** failed');
+      const messages = onProgress.mock.calls.map(([, message]) => message).join('\n');
+      expect(messages).toContain('Delivery to mock-webhook failed: POST ****');
+      expect(messages).not.toContain('hook-token');
+      expect(backupEnd.mock.calls[0]?.[0].result.metadata).toEqual({ uri: 'test://admin:****@db/app' });
+      expect(JSON.stringify(onError.mock.calls)).not.toContain('hook-token');
+    });
+
+    it('should emit run:error to every listener alongside onError', async () => {
+      (mockBackupStrategy.backup as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('dump failed'));
+      const logger = vi.fn();
+      const metrics = vi.fn();
+      const onError = vi.fn();
+
+      await expect(
+        createManager().on('run:error', logger).on('run:error', metrics).onError(onError).run()
+      ).rejects.toThrow('dump failed');
+
+      const payload = { type: 'run:error', error: expect.any(Error), phase: 'backup', durationMs: expect.any(Number) };
+      expect(logger).toHaveBeenCalledWith(payload);
+      expect(metrics).toHaveBeenCalledWith(payload);
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), 'backup');
+    });
+
+    it('should replace the previous callback when onProgress is called again', async () => {
+      const first = vi.fn();
+      const second = vi.fn();
+
+      await createManager().onProgress(first).onProgress(second).run();
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalled();
+    });
+
+    it('should stop calling a listener after off', async () => {
+      const listener = vi.fn();
+
+      await createManager().on('backup:start', listener).off('backup:start', listener).run();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { access, readFile } from 'node:fs/promises';
+import { basename, dirname } from 'node:path';
+import { createManifest, getWbackupVersion, withManifestFile } from '../src/manifest.js';
+import type { BackupResult } from '../src/types.js';
+
+const backup: BackupResult & { checksum: string } = {
+  filePath: '/tmp/orders.dump',
+  fileName: 'orders.dump',
+  sizeBytes: 100,
+  database: 'orders',
+  createdAt: new Date('2024-03-05T10:00:00Z'),
+  compressed: true,
+  metadata: { type: 'postgresql', format: 'custom' },
+  checksum: 'a'.repeat(64),
+};
+
+describe('createManifest', () => {
+  it('should describe the file, tools and wbackup version', async () => {
+    const packageJson = JSON.parse(await readFile(new URL('../package.json', import.meta.url), 'utf-8'));
+
+    const manifest = await createManifest(backup, { pg_dump: 'pg_dump (PostgreSQL) 16.2' });
+
+    expect(manifest).toEqual({
+      version: 1,
+      wbackupVersion: packageJson.version,
+      createdAt: '2024-03-05T10:00:00.000Z',
+      database: 'orders',
+      compressed: true,
+      encrypted: false,
+      file: { fileName: 'orders.dump', sizeBytes: 100, sha256: 'a'.repeat(64) },
+      parts: [],
+      tools: { pg_dump: 'pg_dump (PostgreSQL) 16.2' },
+      metadata: { type: 'postgresql', format: 'custom' },
+    });
+    expect(await getWbackupVersion()).toBe(packageJson.version);
+  });
+});
+
+describe('withManifestFile', () => {
+  it('should write the manifest with its parts and remove it afterwards', async () => {
+    const manifest = await createManifest(backup, {});
+    const parts = [{ partNumber: 1, fileName: 'orders.dump', sizeBytes: 100, sha256: 'a'.repeat(64) }];
+    let sentPath = '';
+
+    const content = await withManifestFile(manifest, parts, async (filePath) => {
+      sentPath = filePath;
+      return JSON.parse(await readFile(filePath, 'utf-8'));
+    });
+
+    expect(basename(sentPath)).toBe('orders.dump.manifest.json');
+    expect(content.parts).toEqual(parts);
+    await expect(access(dirname(sentPath))).rejects.toThrow();
+  });
+
+  it('should remove the file when sending fails', async () => {
+    const manifest = await createManifest(backup, {});
+    let sentPath = '';
+
+    await expect(
+      withManifestFile(manifest, [], async (filePath) => {
+        sentPath = filePath;
+        throw new Error('upload failed');
+      })
+    ).rejects.toThrow('upload failed');
+    await expect(access(sentPath)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import type { AddressInfo, Server } from 'node:net';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { BackupMetrics, METRICS_CONTENT_TYPE } from '../src/metrics.js';
+import type { RunMetrics } from '../src/types.js';
+
+const successfulRun: RunMetrics = {
+  database: 'orders',
+  status: 'success',
+  finishedAt: new Date('2024-03-05T10:00:00Z'),
+  durationMs: 1500,
+  sizeBytes: 2048,
+  retries: {},
+};
+
+describe('BackupMetrics', () => {
+  it('should render nothing but metadata before the first run', () => {
+    const text = new BackupMetrics().render();
+    expect(text).toContain('# TYPE wbackup_runs_total counter');
+    expect(text).not.toMatch(/^wbackup_/m);
+  });
+
+  it('should track the last success, duration, size and run totals per database', async () => {
+    const metrics = new BackupMetrics();
+    await metrics.record(successfulRun);
+    await metrics.record({ ...successfulRun, status: 'failed', durationMs: 500, sizeBytes: 1 });
+
+    const text = metrics.render();
+    expect(text).toContain('wbackup_last_success_timestamp_seconds{database="orders"} 1709632800\n');
+    expect(text).toContain('wbackup_last_duration_seconds{database="orders"} 0.5\n');
+    expect(text).toContain('wbackup_last_size_bytes{database="orders"} 2048\n');
+    expect(text).toContain('wbackup_runs_total{database="orders",status="success"} 1\n');
+    expect(text).toContain('wbackup_runs_total{database="orders",status="failed"} 1\n');
+  });
+
+  it('should add up delivery retries by destination', async () => {
+    const metrics = new BackupMetrics();
+    await metrics.record({ ...successfulRun, retries: { discord: 2 } });
+    await metrics.record({ ...successfulRun, retries: { discord: 1, telegram: 3 } });
+
+    const text = metrics.render();
+    expect(text).toContain('wbackup_delivery_retries_total{database="orders",destination="discord"} 3\n');
+    expect(text).toContain('wbackup_delivery_retries_total{database="orders",destination="telegram"} 3\n');
+  });
+
+  it('should escape label values', async () => {
+    const metrics = new BackupMetrics();
+    await metrics.record({ ...successfulRun, database: 'a"b\\c' });
+    expect(metrics.render()).toContain('{database="a\\"b\\\\c"}');
+  });
+
+  it('should rewrite the textfile after every run', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'wbackup-metrics-'));
+    const textfilePath = join(directory, 'nested', 'wbackup.prom');
+    try {
+      const metrics = new BackupMetrics({ textfilePath });
+      await metrics.record(successfulRun);
+
+      expect(await readFile(textfilePath, 'utf-8')).toBe(metrics.render());
+      expect(await readdir(join(directory, 'nested'))).toEqual(['wbackup.prom']);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  describe('HTTP', () => {
+    let server: Server | undefined;
+
+    afterEach(async () => {
+      await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+      server = undefined;
+    });
+
+    it('should serve /metrics on localhost', async () => {
+      const metrics = new BackupMetrics();
+      await metrics.record(successfulRun);
+      server = await metrics.listen(0);
+      const { address, port } = server.address() as AddressInfo;
+
+      const response = await fetch(`http://${address}:${port}/metrics`);
+      expect(address).toBe('127.0.0.1');
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe(METRICS_CONTENT_TYPE);
+      expect(await response.text()).toBe(metrics.render());
+
+      expect((await fetch(`http://${address}:${port}/other`)).status).toBe(404);
+      expect((await fetch(`http://${address}:${port}/metrics`, { method: 'POST' })).status).toBe(405);
+    });
+  });
+});
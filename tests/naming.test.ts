@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { hostname } from 'node:os';
+import { renderFileName, sanitizeFileName, validateNamingTemplate } from '../src/naming.js';
+
+const variables = {
+  database: 'orders',
+  type: 'postgresql',
+  runId: 'run-1',
+  date: new Date('2024-03-05T07:08:09Z'),
+};
+
+describe('renderFileName', () => {
+  it('should fill the built-in placeholders', () => {
+    expect(renderFileName('{type}-{database}-{runId}', variables)).toBe('postgresql-orders-run-1');
+    expect(renderFileName('{host}', variables)).toBe(sanitizeFileName(hostname()));
+  });
+
+  it('should format dates and times in UTC', () => {
+    expect(renderFileName('{date}_{time}', variables)).toBe('2024-03-05_07-08-09');
+    expect(renderFileName('{date:YYYYMMDD-HHmmss}', variables)).toBe('20240305-070809');
+    expect(renderFileName('{date:YYYY/MM}', variables)).toBe('2024-03');
+  });
+
+  it('should let custom variables add placeholders and override env', () => {
+    const custom = { env: 'prod', region: 'eu west' };
+    expect(renderFileName('{env}-{region}-{database}', { ...variables, custom })).toBe('prod-eu-west-orders');
+  });
+
+  it('should never produce path separators', () => {
+    expect(renderFileName('{database}', { ...variables, database: '../../etc/passwd' })).toBe('etc-passwd');
+  });
+});
+
+describe('sanitizeFileName', () => {
+  it('should replace unsafe characters and trim separators', () => {
+    expect(sanitizeFileName('  my db: "prod" / 2024  ')).toBe('my-db-prod-2024');
+    expect(sanitizeFileName('.hidden')).toBe('hidden');
+  });
+
+  it('should fall back to a default for empty names', () => {
+    expect(sanitizeFileName('///')).toBe('backup');
+  });
+
+  it('should limit the length', () => {
+    expect(sanitizeFileName('a'.repeat(500))).toHaveLength(200);
+  });
+});
+
+describe('validateNamingTemplate', () => {
+  it('should accept built-in and custom placeholders', () => {
+    expect(() => validateNamingTemplate('{database}-{date:YYYY}-{region}', ['region'])).not.toThrow();
+  });
+
+  it('should reject unknown placeholders and empty templates', () => {
+    expect(() => validateNamingTemplate('{region}')).toThrow('Unknown placeholder {region}');
+    expect(() => validateNamingTemplate(' ')).toThrow('must not be empty');
+  });
+});
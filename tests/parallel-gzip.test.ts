@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { randomBytes } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { buffer } from 'node:stream/consumers';
+import { gunzipSync } from 'node:zlib';
+import { createParallelGzip, MIN_GZIP_BLOCK_SIZE } from '../src/parallel-gzip.js';
+import { findExecutable } from '../src/preflight.js';
+
+const hasGzip = (await findExecutable('gzip')) !== undefined;
+
+function compress(input: Buffer, threads = 2, blockSize = MIN_GZIP_BLOCK_SIZE): Promise<Buffer> {
+  return buffer(Readable.from([input]).pipe(createParallelGzip({ level: 6, threads, blockSize })));
+}
+
+// Half random, half repetitive, so blocks differ in size and finish out of order
+const input = Buffer.concat([randomBytes(3 * MIN_GZIP_BLOCK_SIZE), Buffer.alloc(4 * MIN_GZIP_BLOCK_SIZE + 123, 'a')]);
+
+describe('createParallelGzip', () => {
+  it('should write one gzip member per block, in input order', async () => {
+    const output = await compress(input, 3);
+
+    expect(gunzipSync(output).equals(input)).toBe(true);
+    // Every member starts with the gzip magic bytes and deflate method
+    const members = output.toString('latin1').split('\x1f\x8b\x08').length - 1;
+    expect(members).toBeGreaterThanOrEqual(8);
+  });
+
+  it.skipIf(!hasGzip)('should be readable by gunzip', async () => {
+    const output = await compress(input);
+
+    expect(execFileSync('gzip', ['--decompress', '--stdout'], { input: output }).equals(input)).toBe(true);
+  });
+
+  it('should write a valid gzip file for empty input', async () => {
+    const output = await compress(Buffer.alloc(0));
+
+    expect(gunzipSync(output)).toHaveLength(0);
+  });
+
+  it('should split input that arrives in small chunks', async () => {
+    const chunks = Array.from({ length: 50 }, (_, i) => Buffer.alloc(5000, i));
+    const stream = Readable.from(chunks).pipe(createParallelGzip({ level: 1, threads: 2, blockSize: 64 * 1024 }));
+
+    expect(gunzipSync(await buffer(stream)).equals(Buffer.concat(chunks))).toBe(true);
+  });
+});
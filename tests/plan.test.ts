@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { BackupPlan } from '../src/plan.js';
+import type { BackupManager } from '../src/manager.js';
+import { registry } from '../src/registry.js';
+import type { BackupStrategy, DeliveryStrategy } from '../src/types.js';
+import { BackupError } from '../src/utils.js';
+
+const MockBackupConfigSchema = z.object({
+  connectionString: z.string(),
+  delayMs: z.number().default(0),
+  fail: z.boolean().default(false),
+  compress: z.boolean().default(true),
+});
+
+let running = 0;
+let maxRunning = 0;
+
+const createPlanBackupStrategy = (): BackupStrategy<z.infer<typeof MockBackupConfigSchema>> => ({
+  name: 'plan-db',
+  configSchema: MockBackupConfigSchema,
+  async backup(config) {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    await new Promise((resolve) => setTimeout(resolve, config.delayMs));
+    running--;
+
+    if (config.fail) {
+      throw new BackupError('dump failed', 'backup');
+    }
+    return {
+      filePath: `/tmp/${config.connectionString}.dump`,
+      fileName: `${config.connectionString}.dump`,
+      sizeBytes: 1024,
+      database: config.connectionString,
+      createdAt: new Date(),
+      compressed: config.compress,
+      metadata: { type: 'mock' },
+    };
+  },
+  cleanup: vi.fn().mockResolvedValue(undefined),
+});
+
+const createPlanDeliveryStrategy = (): DeliveryStrategy => ({
+  name: 'plan-webhook',
+  configSchema: z.object({ webhookUrl: z.string() }),
+  maxFileSizeBytes: 25 * 1024 * 1024,
+  deliver: vi.fn().mockResolvedValue({ success: true, platform: 'mock', deliveredAt: new Date() }),
+});
+
+describe('BackupPlan', () => {
+  beforeEach(() => {
+    running = 0;
+    maxRunning = 0;
+
+    try {
+      registry.registerBackup('plan-db', createPlanBackupStrategy);
+    } catch {
+      // Already registered
+    }
+    try {
+      registry.registerDelivery('plan-webhook', createPlanDeliveryStrategy);
+    } catch {
+      // Already registered
+    }
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const job = (name: string, extra: Record<string, unknown> = {}) =>
+    (manager: BackupManager) =>
+      manager
+        .database('plan-db', { connectionString: name, ...extra })
+        .delivery('plan-webhook', { webhookUrl: 'https://test.com' });
+
+  it('should reject duplicate job ids', () => {
+    const plan = new BackupPlan().add('orders', job('orders'));
+    expect(() => plan.add('orders', job('orders'))).toThrow('Backup job "orders" is already added');
+  });
+
+  it('should reject invalid concurrency', async () => {
+    await expect(new BackupPlan().runAll({ concurrency: 0 })).rejects.toThrow('positive integer');
+  });
+
+  it('should return an empty report for an empty plan', async () => {
+    const report = await new BackupPlan().runAll();
+    expect(report).toMatchObject({ jobs: [], succeeded: 0, failed: 0 });
+  });
+
+  it('should run every job and report in insertion order', async () => {
+    const report = await new BackupPlan()
+      .add('slow', job('slow', { delayMs: 20 }))
+      .add('fast', job('fast'))
+      .runAll({ concurrency: 2 });
+
+    expect(report.jobs.map((j) => j.id)).toEqual(['slow', 'fast']);
+    expect(report.succeeded).toBe(2);
+    expect(report.failed).toBe(0);
+  });
+
+  it('should never exceed the concurrency limit', async () => {
+    const plan = new BackupPlan();
+    for (let i = 0; i < 6; i++) {
+      plan.add(`db-${i}`, job(`db-${i}`, { delayMs: 5 }));
+    }
+
+    await plan.runAll({ concurrency: 2 });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should isolate failures from other jobs', async () => {
+    const errorSpy = vi.fn();
+
+    const report = await new BackupPlan()
+      .add('broken', job('broken', { fail: true }))
+      .add('healthy', job('healthy'))
+      .onError(errorSpy)
+      .runAll();
+
+    expect(report.succeeded).toBe(1);
+    expect(report.failed).toBe(1);
+    expect(report.jobs[0]).toMatchObject({ id: 'broken', success: false, phase: 'backup' });
+    expect(errorSpy).toHaveBeenCalledWith('broken', expect.any(BackupError), 'backup');
+  });
+
+  it('should report every job when the error callback throws synchronously', async () => {
+    const report = await new BackupPlan()
+      .add('broken', job('broken', { fail: true }))
+      .add('healthy', job('healthy'))
+      .onError(() => {
+        throw new Error('callback failed');
+      })
+      .runAll();
+
+    expect(report.jobs.map((result) => [result.id, result.success])).toEqual([
+      ['broken', false],
+      ['healthy', true],
+    ]);
+  });
+
+  it('should isolate errors thrown while configuring a job', async () => {
+    const report = await new BackupPlan()
+      .add('misconfigured', (manager) => manager.database('unknown-db', {}).delivery('plan-webhook', {}))
+      .add('healthy', job('healthy'))
+      .runAll();
+
+    expect(report.jobs[0]?.success).toBe(false);
+    expect(report.jobs[1]?.success).toBe(true);
+  });
+
+  it('should tag progress messages with the job id', async () => {
+    const progressSpy = vi.fn();
+
+    await new BackupPlan()
+      .add('orders', job('orders'))
+      .onProgress(progressSpy)
+      .runAll();
+
+    expect(progressSpy).toHaveBeenCalledWith('orders', 'backup', expect.any(String));
+    expect(progressSpy).toHaveBeenCalledWith('orders', 'delivery', expect.any(String));
+  });
+
+  it('should keep the progress callback of the job itself', async () => {
+    const jobProgress = vi.fn();
+    const planProgress = vi.fn();
+
+    await new BackupPlan()
+      .add('orders', (manager) => job('orders')(manager).onProgress(jobProgress))
+      .onProgress(planProgress)
+      .runAll();
+
+    expect(jobProgress).toHaveBeenCalled();
+    expect(planProgress).toHaveBeenCalled();
+  });
+
+  it('should fail every job as cancelled when the signal is aborted', async () => {
+    const report = await new BackupPlan()
+      .add('orders', job('orders'))
+      .add('events', job('events'))
+      .runAll({ signal: AbortSignal.abort() });
+
+    expect(report.failed).toBe(2);
+    expect(report.jobs.every((j) => !j.success && j.phase === 'cancelled')).toBe(true);
+  });
+});
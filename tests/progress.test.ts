@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { writeFile, appendFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createProgressTracker, createUploadBody, trackDumpProgress } from '../src/progress.js';
+import { sleep } from '../src/utils.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createProgressTracker', () => {
+  it('should report at most once per interval', () => {
+    vi.useFakeTimers();
+    const onProgress = vi.fn();
+    const tracker = createProgressTracker(1000, onProgress);
+
+    tracker.report(100);
+    vi.advanceTimersByTime(500);
+    tracker.report(200);
+    expect(onProgress).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(500);
+    tracker.report(300);
+    expect(onProgress).toHaveBeenCalledTimes(1);
+    expect(onProgress).toHaveBeenCalledWith({ bytes: 300, bytesPerSecond: 300, elapsedMs: 1000 });
+  });
+
+  it('should estimate the remaining time when the total is known', () => {
+    vi.useFakeTimers();
+    const onProgress = vi.fn();
+    const tracker = createProgressTracker(1000, onProgress);
+
+    vi.advanceTimersByTime(2000);
+    tracker.report(500, 2000);
+
+    expect(onProgress).toHaveBeenCalledWith({
+      bytes: 500,
+      totalBytes: 2000,
+      bytesPerSecond: 250,
+      etaMs: 6000,
+      elapsedMs: 2000,
+    });
+  });
+
+  it('should report the last state once on finish', () => {
+    const onProgress = vi.fn();
+    const tracker = createProgressTracker(60_000, onProgress);
+
+    tracker.report(10, 10);
+    tracker.finish();
+    tracker.finish();
+
+    expect(onProgress).toHaveBeenCalledTimes(1);
+    expect(onProgress.mock.calls[0]?.[0]).toMatchObject({ bytes: 10, totalBytes: 10 });
+  });
+
+  it('should restart the rate when the count goes back to zero', () => {
+    vi.useFakeTimers();
+    const onProgress = vi.fn();
+    const tracker = createProgressTracker(0, onProgress);
+
+    vi.advanceTimersByTime(1000);
+    tracker.report(1000);
+    vi.advanceTimersByTime(1000);
+    tracker.report(0);
+    vi.advanceTimersByTime(1000);
+    tracker.report(500);
+
+    expect(onProgress.mock.calls.at(-1)?.[0]).toMatchObject({ bytes: 500, bytesPerSecond: 500, elapsedMs: 1000 });
+  });
+});
+
+describe('trackDumpProgress', () => {
+  const dumpFile = join(tmpdir(), `wbackup-progress-test-${Date.now()}.sql`);
+
+  afterEach(async () => {
+    await rm(dumpFile, { force: true });
+  });
+
+  it('should report the size of the file while it grows', async () => {
+    const onByteProgress = vi.fn();
+
+    const result = await trackDumpProgress(dumpFile, { onByteProgress, progressIntervalMs: 5 }, async () => {
+      await writeFile(dumpFile, 'a'.repeat(100));
+      await sleep(30);
+      await appendFile(dumpFile, 'b'.repeat(100));
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    const sizes = onByteProgress.mock.calls.map(([, progress]) => progress.bytes);
+    expect(sizes).toContain(100);
+    expect(onByteProgress).toHaveBeenLastCalledWith('dump', expect.objectContaining({ bytes: 200 }));
+  });
+
+  it('should only run the dump without a listener', async () => {
+    const dump = vi.fn().mockResolvedValue(undefined);
+    await trackDumpProgress(dumpFile, {}, dump);
+    expect(dump).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createUploadBody', () => {
+  it('should count every byte of the serialised form', async () => {
+    const formData = new FormData();
+    formData.append('file', new Blob(['hello world']), 'test.dump');
+    const onBytes = vi.fn();
+
+    const init = await createUploadBody(formData, onBytes);
+    const sent = await new Response(init.body).text();
+
+    expect(sent).toContain('hello world');
+    expect(onBytes).toHaveBeenLastCalledWith(Buffer.byteLength(sent), Buffer.byteLength(sent));
+    expect((init.headers as Record<string, string>)['content-length']).toBe(String(Buffer.byteLength(sent)));
+  });
+});
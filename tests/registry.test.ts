@@ -1,11 +1,12 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { z } from 'zod';
-import type { BackupStrategy, DeliveryStrategy, BackupResult } from '../src/types.js';
+import type { BackupStrategy, DeliveryStrategy, BackupResult, RestoreStrategy } from '../src/types.js';
 
 // Create a fresh registry for testing (avoid polluting global registry)
 class TestRegistry {
   private readonly backupStrategies = new Map<string, () => BackupStrategy>();
   private readonly deliveryStrategies = new Map<string, () => DeliveryStrategy>();
+  private readonly restoreStrategies = new Map<string, () => RestoreStrategy>();
 
   registerBackup<TConfig>(name: string, factory: () => BackupStrategy<TConfig>): void {
     if (this.backupStrategies.has(name)) {
@@ -21,6 +22,13 @@ class TestRegistry {
     this.deliveryStrategies.set(name, factory as () => DeliveryStrategy);
   }
 
+  registerRestore<TConfig>(name: string, factory: () => RestoreStrategy<TConfig>): void {
+    if (this.restoreStrategies.has(name)) {
+      throw new Error(`Restore strategy "${name}" is already registered`);
+    }
+    this.restoreStrategies.set(name, factory as () => RestoreStrategy);
+  }
+
   getBackupStrategy(name: string): BackupStrategy {
     const factory = this.backupStrategies.get(name);
     if (!factory) {
@@ -39,6 +47,15 @@ class TestRegistry {
     return factory();
   }
 
+  getRestoreStrategy(name: string): RestoreStrategy {
+    const factory = this.restoreStrategies.get(name);
+    if (!factory) {
+      const available = Array.from(this.restoreStrategies.keys()).join(', ');
+      throw new Error(`Unknown restore strategy "${name}". Available: ${available || 'none'}`);
+    }
+    return factory();
+  }
+
   listBackupStrategies(): string[] {
     return Array.from(this.backupStrategies.keys());
   }
@@ -46,6 +63,10 @@ class TestRegistry {
   listDeliveryStrategies(): string[] {
     return Array.from(this.deliveryStrategies.keys());
   }
+
+  listRestoreStrategies(): string[] {
+    return Array.from(this.restoreStrategies.keys());
+  }
 }
 
 // Mock strategies for testing
@@ -83,6 +104,14 @@ const createMockDeliveryStrategy = (): DeliveryStrategy<z.infer<typeof MockConfi
   },
 });
 
+const createMockRestoreStrategy = (): RestoreStrategy<z.infer<typeof MockConfigSchema>> => ({
+  name: 'mock-restore',
+  configSchema: MockConfigSchema,
+  async restore() {
+    return { database: 'testdb', metadata: { type: 'mock' } };
+  },
+});
+
 describe('Registry', () => {
   let registry: TestRegistry;
 
@@ -116,6 +145,26 @@ describe('Registry', () => {
     });
   });
 
+  describe('registerRestore', () => {
+    it('should register restore strategies next to backup strategies of the same name', () => {
+      registry.registerBackup('mock', createMockBackupStrategy);
+      registry.registerRestore('mock', createMockRestoreStrategy);
+      expect(registry.getRestoreStrategy('mock').name).toBe('mock-restore');
+      expect(registry.listRestoreStrategies()).toEqual(['mock']);
+    });
+
+    it('should throw if strategy already registered', () => {
+      registry.registerRestore('mock', createMockRestoreStrategy);
+      expect(() => registry.registerRestore('mock', createMockRestoreStrategy))
+        .toThrow('Restore strategy "mock" is already registered');
+    });
+
+    it('should throw for unknown strategy', () => {
+      expect(() => registry.getRestoreStrategy('unknown'))
+        .toThrow('Unknown restore strategy "unknown". Available: none');
+    });
+  });
+
   describe('getBackupStrategy', () => {
     it('should return registered strategy', () => {
       registry.registerBackup('mock', createMockBackupStrategy);
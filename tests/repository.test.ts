@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { BackupRepository, createBackupRepository } from '../src/repository.js';
+import type { SnapshotSource } from '../src/types.js';
+
+const chunking = { minSize: 1024, avgSize: 4096, maxSize: 16384 };
+const data = randomBytes(128 * 1024);
+const edited = Buffer.concat([data.subarray(0, 60_000), Buffer.from('new row'), data.subarray(60_000)]);
+
+let testDir: string;
+let repository: BackupRepository;
+
+function source(createdAt: string): SnapshotSource {
+  return { fileName: 'orders.sql', database: 'orders', createdAt: new Date(createdAt), compressed: false };
+}
+
+async function chunkFiles(): Promise<string[]> {
+  const root = join(testDir, 'repo', 'chunks');
+  const prefixes = await readdir(root);
+  const files = await Promise.all(
+    prefixes.map(async (prefix) => (await readdir(join(root, prefix))).map((id) => join(root, prefix, id)))
+  );
+  return files.flat();
+}
+
+beforeEach(async () => {
+  testDir = await mkdtemp(join(tmpdir(), 'wbackup-repository-'));
+  repository = createBackupRepository(join(testDir, 'repo'), { chunking });
+});
+
+afterEach(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+describe('BackupRepository', () => {
+  it('should only store the chunks a backup does not share with earlier ones', async () => {
+    const first = await repository.store([data], source('2024-01-01T02:00:00Z'));
+    const second = await repository.store([edited], source('2024-01-02T02:00:00Z'));
+
+    expect(first).toMatchObject({ newBytes: data.length, dedupRatio: 0 });
+    expect(second.newBytes).toBeLessThan(edited.length / 4);
+    expect(second.dedupRatio).toBeGreaterThan(0.75);
+    expect(second.snapshot).toMatchObject({ fileName: 'orders.sql', database: 'orders', sizeBytes: edited.length });
+    expect(second.snapshot.id).toMatch(/^20240102T020000Z-[0-9a-f]{8}$/);
+
+    const snapshots = await repository.snapshots();
+    expect(snapshots.map((snapshot) => snapshot.id)).toEqual([second.snapshot.id, first.snapshot.id]);
+    expect(snapshots[1]?.createdAt).toEqual(new Date('2024-01-01T02:00:00Z'));
+  });
+
+  it('should restore a snapshot byte for byte without overwriting files', async () => {
+    await repository.store([data], source('2024-01-01T02:00:00Z'));
+    const { snapshot } = await repository.store([edited], source('2024-01-02T02:00:00Z'));
+    const targetPath = join(testDir, 'restored.sql');
+
+    expect(await repository.restore(snapshot.id, targetPath)).toBe(targetPath);
+    expect((await readFile(targetPath)).equals(edited)).toBe(true);
+    await expect(repository.restore(snapshot.id, targetPath)).rejects.toThrow('already exists');
+    const unknown = repository.restore('20240101T000000Z-00000000', join(testDir, 'x'));
+    await expect(unknown).rejects.toThrow('Unknown snapshot');
+    await expect(repository.restore('../escape', join(testDir, 'x'))).rejects.toThrow('Invalid snapshot ID');
+  });
+
+  it('should report missing and corrupt chunks', async () => {
+    await repository.store([data], source('2024-01-01T02:00:00Z'));
+    expect(await repository.check({ readData: true })).toMatchObject({ ok: true, snapshots: 1, errors: [] });
+
+    const [missing, corrupt] = await chunkFiles();
+    await rm(missing ?? '');
+    await writeFile(corrupt ?? '', gzipSync('not the original chunk'));
+
+    expect((await repository.check()).errors).toEqual([expect.stringContaining('references missing chunk')]);
+    const result = await repository.check({ readData: true });
+    expect(result.ok).toBe(false);
+    expect(result.errors).toContainEqual(expect.stringMatching(/^Chunk [0-9a-f]{64} is corrupt$/));
+    await expect(repository.restore((await repository.snapshots())[0]?.id ?? '', join(testDir, 'x'))).rejects.toThrow(
+      /missing|corrupt/
+    );
+  });
+
+  it('should store a corrupt chunk again with the next backup that contains it', async () => {
+    await repository.store([data], source('2024-01-01T02:00:00Z'));
+    const [corrupt] = await chunkFiles();
+    await writeFile(corrupt ?? '', gzipSync('not the original chunk'));
+
+    const second = await repository.store([data], source('2024-01-02T02:00:00Z'));
+
+    expect(second.newChunks).toBe(1);
+    expect(await repository.check({ readData: true })).toMatchObject({ ok: true, errors: [] });
+  });
+
+  it('should prune snapshots and the chunks only they used', async () => {
+    const old = await repository.store([randomBytes(64 * 1024)], source('2024-01-01T02:00:00Z'));
+    const kept = await repository.store([data], source('2024-01-02T02:00:00Z'));
+    const chunksBefore = (await chunkFiles()).length;
+
+    const dryRun = await repository.prune({ keepLast: 1 }, { dryRun: true });
+    expect(dryRun.deleted.map((snapshot) => snapshot.id)).toEqual([old.snapshot.id]);
+    expect(await chunkFiles()).toHaveLength(chunksBefore);
+
+    const result = await repository.prune({ keepLast: 1 });
+    expect(result).toMatchObject({ chunksDeleted: old.newChunks, dryRun: false });
+    expect(result.bytesFreed).toBeGreaterThan(0);
+    expect((await repository.snapshots()).map((snapshot) => snapshot.id)).toEqual([kept.snapshot.id]);
+    expect(await repository.check({ readData: true })).toMatchObject({ ok: true, unreferencedChunks: 0 });
+  });
+
+  it('should leave only unreferenced chunks after a failed backup', async () => {
+    async function* failing(): AsyncGenerator<Buffer> {
+      yield data;
+      throw new Error('dump failed');
+    }
+
+    await expect(repository.store(failing(), source('2024-01-01T02:00:00Z'))).rejects.toThrow('dump failed');
+    const check = await repository.check();
+    expect(check).toMatchObject({ ok: true, snapshots: 0 });
+    expect(check.unreferencedChunks).toBeGreaterThan(0);
+
+    await repository.prune({});
+    expect((await repository.check()).unreferencedChunks).toBe(0);
+  });
+
+  it('should refuse to run while another process holds the lock', async () => {
+    await repository.store([data], source('2024-01-01T02:00:00Z'));
+    const lockPath = join(testDir, 'repo', 'lock');
+
+    await writeFile(lockPath, String(process.pid));
+    await expect(repository.store([data], source('2024-01-02T02:00:00Z'))).rejects.toThrow('locked by process');
+
+    // A lock whose process is gone is taken over
+    await writeFile(lockPath, '2147483646');
+    await expect(repository.prune({})).resolves.toMatchObject({ kept: [expect.anything()] });
+  });
+
+  it('should let callers in the same process wait for each other', async () => {
+    const other = createBackupRepository(join(testDir, 'repo'), { chunking });
+
+    const results = await Promise.all([
+      repository.store([data], source('2024-01-01T02:00:00Z')),
+      other.store([edited], source('2024-01-02T02:00:00Z')),
+      repository.prune({ keepLast: 2 }),
+    ]);
+
+    expect(results[2].kept).toHaveLength(2);
+    expect(await repository.check({ readData: true })).toMatchObject({ ok: true, snapshots: 2 });
+  });
+
+  it('should keep the chunk sizes it was created with', async () => {
+    await repository.store([data], source('2024-01-01T02:00:00Z'));
+    const reopened = new BackupRepository(join(testDir, 'repo'), {
+      chunking: { minSize: 64, avgSize: 256, maxSize: 512 },
+    });
+
+    const { dedupRatio } = await reopened.store([data], source('2024-01-02T02:00:00Z'));
+    expect(dedupRatio).toBe(1);
+  });
+
+  it('should not create a repository just to read it', async () => {
+    await expect(repository.snapshots()).rejects.toThrow('No backup repository');
+    await expect(repository.check()).rejects.toThrow('No backup repository');
+  });
+});
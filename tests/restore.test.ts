@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { access, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { brotliCompressSync, gzipSync } from 'node:zlib';
+import { z } from 'zod';
+import { RestoreManager } from '../src/restore.js';
+import { encryptFile } from '../src/encryption.js';
+import { registry } from '../src/registry.js';
+import { RestoreError } from '../src/utils.js';
+import type { RestoreContext, RestoreStrategy } from '../src/types.js';
+
+const dump = Buffer.from('CREATE TABLE orders (id int);\n'.repeat(100));
+const key = { key: randomBytes(32).toString('hex') };
+
+interface RestoreCall {
+  filePath: string;
+  content: Buffer;
+  target: string | undefined;
+}
+
+const calls: RestoreCall[] = [];
+let restoreImpl: (context: RestoreContext) => Promise<void> = async () => {};
+
+const mockRestoreStrategy: RestoreStrategy<{ connectionString: string }> = {
+  name: 'mock-restore',
+  configSchema: z.object({ connectionString: z.string() }),
+  restore: async (_config, filePath, context = {}) => {
+    calls.push({ filePath, content: await readFile(filePath), target: context.target });
+    await restoreImpl(context);
+    const metadata = { connectionString: 'postgres://app:hunter22@db/orders' };
+    return { database: context.target ?? 'orders', metadata };
+  },
+  preflight: async () => [{ name: 'mock', status: 'pass', message: 'ok' }],
+};
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'wbackup-restore-test-'));
+  calls.length = 0;
+  restoreImpl = async () => {};
+  try {
+    registry.registerRestore('mock-restore', () => mockRestoreStrategy);
+  } catch {
+    // Already registered
+  }
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+function manager(): RestoreManager {
+  return new RestoreManager().database('mock-restore', { connectionString: 'postgres://app:hunter22@db/orders' });
+}
+
+async function backupFile(name: string, content: Buffer): Promise<string> {
+  const filePath = join(directory, name);
+  await writeFile(filePath, content);
+  return filePath;
+}
+
+describe('RestoreManager', () => {
+  it('should hand a plain dump straight to the strategy', async () => {
+    const filePath = await backupFile('orders.sql', dump);
+
+    const result = await manager().from(filePath).run();
+
+    expect(calls).toEqual([{ filePath, content: dump, target: undefined }]);
+    expect(result).toMatchObject({
+      database: 'orders',
+      sourcePath: filePath,
+      sizeBytes: dump.length,
+      decrypted: false,
+      codec: undefined,
+    });
+    expect(result.metadata['connectionString']).not.toContain('hunter22');
+  });
+
+  it('should decompress gzip and brotli backups transparently', async () => {
+    const gzipped = await backupFile('orders.sql.gz', gzipSync(dump));
+    const brotli = await backupFile('orders.sql.br', brotliCompressSync(dump));
+
+    expect(await manager().from(gzipped).run()).toMatchObject({ codec: 'gzip', sizeBytes: dump.length });
+    expect(await manager().from(brotli).run()).toMatchObject({ codec: 'brotli' });
+
+    expect(calls.map((call) => call.content.equals(dump))).toEqual([true, true]);
+    expect(calls[0]?.filePath).toMatch(/orders\.sql$/);
+    // The temp directory is gone once the run ends
+    await expect(access(calls[0]?.filePath ?? '')).rejects.toThrow();
+  });
+
+  it('should decrypt and then decompress encrypted backups', async () => {
+    const compressed = await backupFile('orders.sql.gz', gzipSync(dump));
+    await encryptFile(compressed, `${compressed}.enc`, key);
+    const progress = vi.fn();
+
+    const result = await manager().from(`${compressed}.enc`).decrypt(key).onProgress(progress).run();
+
+    expect(result).toMatchObject({ decrypted: true, codec: 'gzip' });
+    expect(calls[0]?.content.equals(dump)).toBe(true);
+    expect(progress).toHaveBeenCalledWith('decrypt', 'Decrypting orders.sql.gz.enc');
+    expect(progress).toHaveBeenCalledWith('decompress', 'Decompressing orders.sql.gz (gzip)');
+  });
+
+  it('should fail in the decrypt phase without the right key', async () => {
+    const filePath = await backupFile('orders.sql', dump);
+    await encryptFile(filePath, `${filePath}.enc`, key);
+    const onError = vi.fn();
+
+    const missingKey = manager().from(`${filePath}.enc`).onError(onError).run();
+    await expect(missingKey).rejects.toMatchObject({
+      phase: 'decrypt',
+      message: expect.stringContaining('.decrypt()'),
+    });
+    const wrongKey = manager().from(`${filePath}.enc`).decrypt({ key: randomBytes(32).toString('hex') }).run();
+    await expect(wrongKey).rejects.toMatchObject({ name: 'RestoreError', phase: 'decrypt' });
+
+    expect(onError).toHaveBeenCalledWith(expect.any(RestoreError), 'decrypt');
+    expect(calls).toHaveLength(0);
+  });
+
+  it('should pass the target database to the strategy', async () => {
+    const filePath = await backupFile('orders.sql', dump);
+
+    const result = await manager().from(filePath).target('orders_staging').run();
+
+    expect(calls[0]?.target).toBe('orders_staging');
+    expect(result.database).toBe('orders_staging');
+  });
+
+  it('should wrap strategy failures with secrets redacted', async () => {
+    const filePath = await backupFile('orders.sql', dump);
+    restoreImpl = async () => {
+      throw new Error('psql: connection to postgres://app:hunter22@db/orders failed');
+    };
+    const onSuccess = vi.fn();
+
+    const error = await manager().from(filePath).onSuccess(onSuccess).run().catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(RestoreError);
+    expect(error).toMatchObject({ phase: 'restore' });
+    expect((error as Error).message).toContain('connection to');
+    expect((error as Error).message).not.toContain('hunter22');
+    expect(onSuccess).not.toHaveBeenCalled();
+  });
+
+  it('should report cancellation and timeouts in the cancelled phase', async () => {
+    const filePath = await backupFile('orders.sql', dump);
+    restoreImpl = (context) =>
+      new Promise((_, reject) => context.signal?.addEventListener('abort', () => reject(new Error('killed'))));
+
+    const controller = new AbortController();
+    const cancelled = manager().from(filePath).run({ signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    await expect(cancelled).rejects.toMatchObject({ phase: 'cancelled', message: 'The restore was cancelled' });
+
+    const timedOut = manager().from(filePath).timeout(20).run();
+    await expect(timedOut).rejects.toThrow('The restore timed out after 20ms');
+  });
+
+  it('should require a database and a backup file', async () => {
+    await expect(new RestoreManager().from('orders.sql').run()).rejects.toThrow('Call .database() first');
+    await expect(manager().run()).rejects.toThrow('Call .from() first');
+  });
+
+  describe('preflight', () => {
+    it('should pass for a valid setup', async () => {
+      const filePath = await backupFile('orders.sql.gz', gzipSync(dump));
+      const report = await manager().from(filePath).preflight();
+
+      expect(report.ok).toBe(true);
+      expect(report.checks.map((check) => check.name)).toEqual([
+        'database (mock-restore)',
+        'mock',
+        'backup file',
+        'temp directory',
+      ]);
+    });
+
+    it('should fail for unknown strategies, missing files and missing keys', async () => {
+      const filePath = await backupFile('orders.sql', dump);
+      await encryptFile(filePath, `${filePath}.enc`, key);
+
+      const unknown = await new RestoreManager().database('nope', {}).from(join(directory, 'missing.sql')).preflight();
+      expect(unknown.checks.filter((check) => check.status === 'fail').map((check) => check.message)).toEqual([
+        expect.stringContaining('Unknown restore strategy "nope"'),
+        expect.stringContaining('Backup file is not readable'),
+      ]);
+
+      const encrypted = await manager().from(`${filePath}.enc`).preflight();
+      expect(encrypted.ok).toBe(false);
+      expect(encrypted.checks).toContainEqual(expect.objectContaining({ name: 'backup file', status: 'fail' }));
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdir, readFile, readdir, rm, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { archiveBackup, listArchivedBackups, planRetention, pruneBackups } from '../src/retention.js';
+import type { ArchivedBackup } from '../src/types.js';
+
+const backup = (iso: string, sizeBytes = 100): ArchivedBackup => ({
+  path: `/archive/${iso}.dump`,
+  fileName: `${iso}.dump`,
+  sizeBytes,
+  createdAt: new Date(iso),
+});
+
+const names = (backups: ArchivedBackup[]) => backups.map((b) => b.fileName.replace('.dump', ''));
+
+// Two backups a day, at 02:00 and 14:00, from 2024-01-01 to 2024-03-31
+const history: ArchivedBackup[] = [];
+for (let day = new Date('2024-01-01T00:00:00Z'); day < new Date('2024-04-01T00:00:00Z');) {
+  const date = day.toISOString().slice(0, 10);
+  history.push(backup(`${date}T02:00:00.000Z`), backup(`${date}T14:00:00.000Z`));
+  day = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+}
+
+describe('planRetention', () => {
+  it('should keep the newest N backups', () => {
+    const { kept, deleted } = planRetention(history, { directory: '/archive', keepLast: 3 });
+    expect(names(kept)).toEqual([
+      '2024-03-31T14:00:00.000Z',
+      '2024-03-31T02:00:00.000Z',
+      '2024-03-30T14:00:00.000Z',
+    ]);
+    expect(deleted).toHaveLength(history.length - 3);
+  });
+
+  it('should keep the newest backup of each day, ISO week and month', () => {
+    const { kept } = planRetention(history, { directory: '/archive', keepDaily: 2, keepWeekly: 2, keepMonthly: 3 });
+    expect(names(kept)).toEqual([
+      '2024-03-31T14:00:00.000Z', // day, week 13 and March
+      '2024-03-30T14:00:00.000Z', // day
+      '2024-03-24T14:00:00.000Z', // week 12
+      '2024-02-29T14:00:00.000Z', // February
+      '2024-01-31T14:00:00.000Z', // January
+    ]);
+  });
+
+  it('should keep everything without keep rules', () => {
+    expect(planRetention(history, { directory: '/archive' }).deleted).toEqual([]);
+  });
+
+  it('should apply max age on top of the keep rules', () => {
+    const now = new Date('2024-04-01T00:00:00Z').getTime();
+    const { kept } = planRetention(history, { directory: '/archive', keepMonthly: 12, maxAgeDays: 45 }, now);
+    expect(names(kept)).toEqual(['2024-03-31T14:00:00.000Z', '2024-02-29T14:00:00.000Z']);
+  });
+
+  it('should drop the oldest kept backups over the size limit', () => {
+    const backups = [
+      backup('2024-01-03T00:00:00Z', 400),
+      backup('2024-01-02T00:00:00Z', 300),
+      backup('2024-01-01T00:00:00Z', 300),
+    ];
+    const { kept } = planRetention(backups, { directory: '/archive', maxTotalBytes: 700 });
+    expect(kept.map((b) => b.sizeBytes)).toEqual([400, 300]);
+  });
+
+  it('should never delete the newest backup', () => {
+    const now = new Date('2030-01-01T00:00:00Z').getTime();
+    const backups = [backup('2024-01-02T00:00:00Z', 500), backup('2024-01-01T00:00:00Z', 500)];
+    const { kept } = planRetention(backups, { directory: '/archive', maxAgeDays: 1, maxTotalBytes: 100 }, now);
+    expect(names(kept)).toEqual(['2024-01-02T00:00:00Z']);
+  });
+});
+
+describe('archive directory', () => {
+  const archiveDir = join(tmpdir(), `wbackup-retention-test-${Date.now()}`);
+
+  const createBackup = async (fileName: string, date: string) => {
+    await mkdir(archiveDir, { recursive: true });
+    const path = join(archiveDir, fileName);
+    await writeFile(path, 'backup');
+    await utimes(path, new Date(date), new Date(date));
+  };
+
+  afterEach(async () => {
+    await rm(archiveDir, { recursive: true, force: true });
+  });
+
+  it('should list regular files with their modification time', async () => {
+    await createBackup('a.dump', '2024-01-01T00:00:00Z');
+    await createBackup('.hidden', '2024-01-01T00:00:00Z');
+    await mkdir(join(archiveDir, 'nested'));
+
+    const backups = await listArchivedBackups(archiveDir);
+    expect(backups).toEqual([{
+      path: join(archiveDir, 'a.dump'),
+      fileName: 'a.dump',
+      sizeBytes: 6,
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+    }]);
+    expect(await listArchivedBackups(join(archiveDir, 'missing'))).toEqual([]);
+  });
+
+  it('should only list deletions in a dry run', async () => {
+    await createBackup('old.dump', '2024-01-01T00:00:00Z');
+    await createBackup('new.dump', '2024-01-02T00:00:00Z');
+
+    const dryRun = await pruneBackups({ directory: archiveDir, keepLast: 1 }, { dryRun: true });
+    expect(dryRun).toMatchObject({ dryRun: true, deleted: [expect.objectContaining({ fileName: 'old.dump' })] });
+    expect((await readdir(archiveDir)).sort()).toEqual(['new.dump', 'old.dump']);
+
+    await pruneBackups({ directory: archiveDir, keepLast: 1 });
+    expect(await readdir(archiveDir)).toEqual(['new.dump']);
+  });
+
+  it('should move a backup into the archive directory', async () => {
+    const source = join(tmpdir(), `wbackup-retention-source-${Date.now()}.dump`);
+    await writeFile(source, 'backup');
+
+    const archivedPath = await archiveBackup(source, archiveDir);
+
+    expect(archivedPath).toBe(join(archiveDir, source.split('/').pop() ?? ''));
+    expect(await readdir(archiveDir)).toHaveLength(1);
+    await expect(readdir(source)).rejects.toThrow();
+  });
+
+  it('should keep an archived backup with the same name', async () => {
+    const source = join(tmpdir(), `wbackup-retention-source-${Date.now()}`);
+    await mkdir(source, { recursive: true });
+    await createBackup('orders.sql.gz', '2024-01-01T00:00:00Z');
+    await createBackup('orders-1.sql.gz', '2024-01-02T00:00:00Z');
+    await writeFile(join(source, 'orders.sql.gz'), 'newer backup');
+
+    try {
+      const archivedPath = await archiveBackup(join(source, 'orders.sql.gz'), archiveDir);
+
+      expect(archivedPath).toBe(join(archiveDir, 'orders-2.sql.gz'));
+      expect(await readFile(join(archiveDir, 'orders.sql.gz'), 'utf8')).toBe('backup');
+      expect(await readFile(archivedPath, 'utf8')).toBe('newer backup');
+    } finally {
+      await rm(source, { recursive: true, force: true });
+    }
+  });
+});
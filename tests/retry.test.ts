@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  RetryConfigSchema,
+  RetryableError,
+  computeBackoff,
+  isRetryable,
+  withRetry,
+} from '../src/retry.js';
+import { BackupError } from '../src/utils.js';
+
+const noDelay = RetryConfigSchema.parse({ initialDelayMs: 0, jitter: false });
+
+describe('RetryConfigSchema', () => {
+  it('should apply defaults', () => {
+    expect(RetryConfigSchema.parse({})).toEqual({
+      maxAttempts: 5,
+      initialDelayMs: 1000,
+      maxDelayMs: 60000,
+      multiplier: 2,
+      jitter: true,
+    });
+  });
+
+  it('should reject fewer than one attempt', () => {
+    expect(() => RetryConfigSchema.parse({ maxAttempts: 0 })).toThrow();
+  });
+});
+
+describe('computeBackoff', () => {
+  const config = RetryConfigSchema.parse({ initialDelayMs: 100, maxDelayMs: 1000, jitter: false });
+
+  it('should grow exponentially', () => {
+    expect(computeBackoff(1, config)).toBe(100);
+    expect(computeBackoff(2, config)).toBe(200);
+    expect(computeBackoff(3, config)).toBe(400);
+  });
+
+  it('should cap at maxDelayMs', () => {
+    expect(computeBackoff(10, config)).toBe(1000);
+  });
+
+  it('should keep jittered delays between half and full delay', () => {
+    const jittered = { ...config, jitter: true };
+    for (let i = 0; i < 20; i++) {
+      const delay = computeBackoff(3, jittered);
+      expect(delay).toBeGreaterThanOrEqual(200);
+      expect(delay).toBeLessThanOrEqual(400);
+    }
+  });
+});
+
+describe('isRetryable', () => {
+  it('should retry rate limits and network failures only', () => {
+    expect(isRetryable(new RetryableError('429'))).toBe(true);
+    expect(isRetryable(new TypeError('fetch failed', { cause: new Error('ECONNRESET') }))).toBe(true);
+    expect(isRetryable(new TypeError('fetch is not a function'))).toBe(false);
+    expect(isRetryable(new BackupError('400', 'delivery'))).toBe(false);
+    expect(isRetryable(new Error('ENOENT'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('should return the first successful result', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new RetryableError('busy'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(withRetry(operation, { config: noDelay, label: 'Upload' })).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop at maxAttempts', async () => {
+    const operation = vi.fn().mockRejectedValue(new RetryableError('busy'));
+
+    await expect(withRetry(operation, { config: { ...noDelay, maxAttempts: 3 }, label: 'Upload' }))
+      .rejects.toThrow('busy');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report each retry before waiting', async () => {
+    const operation = vi.fn().mockRejectedValue(new RetryableError('busy', 0));
+    const onRetry = vi.fn();
+
+    await expect(withRetry(operation, { config: { ...noDelay, maxAttempts: 3 }, label: 'Upload', onRetry }))
+      .rejects.toThrow('busy');
+    expect(onRetry.mock.calls).toEqual([[1, 0], [2, 0]]);
+  });
+
+  it('should not retry permanent errors', async () => {
+    const operation = vi.fn().mockRejectedValue(new BackupError('bad request', 'delivery'));
+
+    await expect(withRetry(operation, { config: noDelay, label: 'Upload' })).rejects.toThrow('bad request');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should prefer the server retry hint', async () => {
+    const slow = RetryConfigSchema.parse({ initialDelayMs: 60000, jitter: false });
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new RetryableError('429', 5))
+      .mockResolvedValueOnce('ok');
+    const progress = vi.fn();
+
+    await withRetry(operation, { config: slow, label: 'Upload', onProgress: progress });
+
+    expect(progress).toHaveBeenCalledWith('Upload failed: 429. Retrying in 5ms');
+  });
+
+  it('should cap the server retry hint at maxDelayMs', async () => {
+    const capped = RetryConfigSchema.parse({ initialDelayMs: 0, maxDelayMs: 5, jitter: false });
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new RetryableError('429', 3_600_000))
+      .mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+
+    await withRetry(operation, { config: capped, label: 'Upload', onRetry });
+
+    expect(onRetry).toHaveBeenCalledWith(1, 5);
+  });
+
+  it('should report every attempt', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new RetryableError('busy'))
+      .mockResolvedValueOnce('ok');
+    const progress = vi.fn();
+
+    await withRetry(operation, { config: noDelay, label: 'Upload', onProgress: progress });
+
+    expect(progress).toHaveBeenCalledWith('Upload (attempt 1/5)');
+    expect(progress).toHaveBeenCalledWith('Upload (attempt 2/5)');
+  });
+
+  it('should stop retrying once the signal aborts', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn(async () => {
+      controller.abort(new Error('cancelled'));
+      throw new RetryableError('busy');
+    });
+
+    await expect(withRetry(operation, { config: noDelay, label: 'Upload', signal: controller.signal }))
+      .rejects.toThrow('busy');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,294 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { BackupManager } from '../src/manager.js';
+import { BackupScheduler } from '../src/scheduler.js';
+import { registry } from '../src/registry.js';
+import type { BackupResult, BackupStrategy, DeliveryStrategy, SchedulerClock } from '../src/types.js';
+
+class FakeClock implements SchedulerClock {
+  private timers: Array<{ at: number; callback: () => void }> = [];
+
+  constructor(private current: number) {}
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const timer = { at: this.current + ms, callback };
+    this.timers.push(timer);
+    return timer;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter((timer) => timer !== handle);
+  }
+
+  get pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+    for (;;) {
+      const due = this.timers
+        .filter((timer) => timer.at <= target)
+        .sort((a, b) => a.at - b.at)[0];
+      if (!due) break;
+      this.timers = this.timers.filter((timer) => timer !== due);
+      this.current = due.at;
+      due.callback();
+      await flush();
+    }
+    this.current = target;
+  }
+}
+
+// Let pending runs settle; a run spans several promise and I/O turns. Short real
+// timers rather than setImmediate give file system calls time on a busy machine
+const flush = async () => {
+  for (let i = 0; i < 10; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+};
+
+const mockBackupResult: BackupResult = {
+  filePath: '/tmp/scheduled.dump',
+  fileName: 'scheduled.dump',
+  sizeBytes: 1024,
+  database: 'testdb',
+  createdAt: new Date(),
+  compressed: true,
+  metadata: { type: 'mock' },
+};
+
+let releaseBackup: (() => void) | undefined;
+let blockBackups = false;
+
+const scheduledBackup: BackupStrategy = {
+  name: 'scheduled-db',
+  configSchema: z.object({ connectionString: z.string(), compress: z.boolean().default(true) }),
+  backup: vi.fn(async () => {
+    if (blockBackups) {
+      await new Promise<void>((resolve) => {
+        releaseBackup = resolve;
+      });
+    }
+    return mockBackupResult;
+  }),
+  cleanup: vi.fn().mockResolvedValue(undefined),
+};
+
+const scheduledDelivery: DeliveryStrategy = {
+  name: 'scheduled-webhook',
+  configSchema: z.object({ webhookUrl: z.string() }),
+  maxFileSizeBytes: 25 * 1024 * 1024,
+  deliver: vi.fn().mockResolvedValue({ success: true, platform: 'mock', deliveredAt: new Date() }),
+};
+
+const createManager = () =>
+  new BackupManager()
+    .database('scheduled-db', { connectionString: 'test://' })
+    .delivery('scheduled-webhook', { webhookUrl: 'https://test.com' });
+
+describe('BackupScheduler', () => {
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    clock = new FakeClock(Date.parse('2026-03-10T00:00:00Z'));
+    blockBackups = false;
+    releaseBackup = undefined;
+
+    try {
+      registry.registerBackup('scheduled-db', () => scheduledBackup);
+    } catch {
+      // Already registered
+    }
+    try {
+      registry.registerDelivery('scheduled-webhook', () => scheduledDelivery);
+    } catch {
+      // Already registered
+    }
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should reject duplicate ids and invalid schedules', () => {
+    const scheduler = new BackupScheduler({ clock }).every('job', 1000, createManager());
+
+    expect(() => scheduler.every('job', 1000, createManager())).toThrow('already added');
+    expect(() => scheduler.every('bad', 0, createManager())).toThrow('positive number');
+    expect(() => scheduler.cron('bad-cron', 'not cron', createManager())).toThrow('Invalid cron');
+    expect(() => scheduler.cron('bad-tz', '* * * * *', createManager(), { timeZone: 'Nope/Nope' }))
+      .toThrow('Invalid time zone');
+  });
+
+  it('should expose next run times once started', () => {
+    const scheduler = new BackupScheduler({ clock })
+      .cron('nightly', '0 30 2 * * *', createManager(), { timeZone: 'UTC' });
+
+    expect(scheduler.nextRun('nightly')).toBeUndefined();
+
+    scheduler.start();
+
+    expect(scheduler.nextRun('nightly')?.toISOString()).toBe('2026-03-10T02:30:00.000Z');
+    expect(scheduler.status()).toEqual([
+      { id: 'nightly', running: false, nextRunAt: new Date('2026-03-10T02:30:00.000Z') },
+    ]);
+    expect(() => scheduler.nextRun('unknown')).toThrow('Unknown scheduled job "unknown"');
+  });
+
+  it('should run interval jobs on every tick', async () => {
+    const scheduler = new BackupScheduler({ clock }).every('hourly', 3600_000, createManager()).start();
+
+    await clock.advance(3 * 3600_000);
+
+    expect(scheduledBackup.backup).toHaveBeenCalledTimes(3);
+    await scheduler.stop();
+  });
+
+  it('should run cron jobs at matching times', async () => {
+    const scheduler = new BackupScheduler({ clock })
+      .cron('nightly', '30 2 * * *', createManager(), { timeZone: 'UTC' })
+      .start();
+
+    await clock.advance(2 * 24 * 3600_000);
+
+    expect(scheduledBackup.backup).toHaveBeenCalledTimes(2);
+    expect(scheduler.nextRun('nightly')?.toISOString()).toBe('2026-03-12T02:30:00.000Z');
+    await scheduler.stop();
+  });
+
+  it('should skip overlapping runs by default', async () => {
+    blockBackups = true;
+    const skipSpy = vi.fn();
+    const scheduler = new BackupScheduler({ clock })
+      .every('busy', 1000, createManager())
+      .onSkip(skipSpy)
+      .start();
+
+    await clock.advance(3000);
+
+    expect(scheduledBackup.backup).toHaveBeenCalledTimes(1);
+    expect(skipSpy).toHaveBeenCalledTimes(2);
+    expect(scheduler.status()[0]?.running).toBe(true);
+
+    blockBackups = false;
+    releaseBackup?.();
+    await scheduler.stop();
+  });
+
+  it('should queue a single follow-up run when overlap is queue', async () => {
+    blockBackups = true;
+    const scheduler = new BackupScheduler({ clock })
+      .every('busy', 1000, createManager(), { overlap: 'queue' })
+      .start();
+
+    await clock.advance(3000);
+    expect(scheduledBackup.backup).toHaveBeenCalledTimes(1);
+
+    blockBackups = false;
+    releaseBackup?.();
+    await flush();
+
+    expect(scheduledBackup.backup).toHaveBeenCalledTimes(2);
+    await scheduler.stop();
+  });
+
+  it('should report failed runs and keep scheduling', async () => {
+    const errorSpy = vi.fn();
+    (scheduledBackup.backup as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('dump failed'));
+
+    const scheduler = new BackupScheduler({ clock })
+      .every('flaky', 1000, createManager())
+      .onError(errorSpy)
+      .start();
+
+    await clock.advance(2000);
+
+    expect(errorSpy).toHaveBeenCalledWith('flaky', expect.any(Error), 'backup');
+    expect(scheduledBackup.backup).toHaveBeenCalledTimes(2);
+    await scheduler.stop();
+  });
+
+  it('should keep scheduling when the error callback throws synchronously', async () => {
+    (scheduledBackup.backup as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('dump failed'));
+
+    const scheduler = new BackupScheduler({ clock })
+      .every('flaky', 1000, createManager())
+      .onError(() => {
+        throw new Error('callback failed');
+      })
+      .start();
+
+    await clock.advance(2000);
+
+    expect(scheduledBackup.backup).toHaveBeenCalledTimes(2);
+    await expect(scheduler.stop()).resolves.toBeUndefined();
+  });
+
+  it('should keep scheduling when the skip callback throws', async () => {
+    blockBackups = true;
+    const scheduler = new BackupScheduler({ clock })
+      .every('busy', 1000, createManager())
+      .onSkip(() => {
+        throw new Error('callback failed');
+      })
+      .start();
+
+    await clock.advance(2000);
+
+    expect(scheduler.nextRun('busy')).toEqual(new Date(clock.now() + 1000));
+    blockBackups = false;
+    releaseBackup?.();
+    await flush();
+    await clock.advance(1000);
+
+    expect(scheduledBackup.backup).toHaveBeenCalledTimes(2);
+    await scheduler.stop();
+  });
+
+  it('should wait for in-flight runs and clear timers on stop', async () => {
+    blockBackups = true;
+    const scheduler = new BackupScheduler({ clock }).every('job', 1000, createManager()).start();
+    await clock.advance(1000);
+
+    let stopped = false;
+    const stopping = scheduler.stop().then(() => {
+      stopped = true;
+    });
+    await flush();
+
+    expect(stopped).toBe(false);
+    expect(clock.pendingTimers).toBe(0);
+
+    releaseBackup?.();
+    await stopping;
+
+    expect(stopped).toBe(true);
+    expect(scheduledBackup.cleanup).toHaveBeenCalledWith(mockBackupResult.filePath);
+    expect(scheduler.nextRun('job')).toBeUndefined();
+  });
+
+  it('should abort in-flight runs when stopped with cancel', async () => {
+    const errorSpy = vi.fn();
+    (scheduledBackup.backup as ReturnType<typeof vi.fn>).mockImplementationOnce(
+      (_config: unknown, context?: { signal?: AbortSignal }) =>
+        new Promise((_resolve, reject) => {
+          context?.signal?.addEventListener('abort', () => reject(context.signal?.reason));
+        })
+    );
+
+    const scheduler = new BackupScheduler({ clock })
+      .every('job', 1000, createManager())
+      .onError(errorSpy)
+      .start();
+    await clock.advance(1000);
+
+    await scheduler.stop({ cancel: true });
+
+    expect(errorSpy).toHaveBeenCalledWith('job', expect.any(Error), 'cancelled');
+  });
+});
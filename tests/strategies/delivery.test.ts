@@ -1,8 +1,54 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, writeFile, rm } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { Readable } from 'node:stream';
 import {
   DiscordDeliveryStrategy,
+  FilesystemDeliveryStrategy,
+  RepositoryDeliveryStrategy,
   TelegramDeliveryStrategy,
 } from '../../src/strategies/delivery/index.js';
+import { BackupRepository } from '../../src/repository.js';
+import type { BackupManifest, BackupResult, StreamedBackup } from '../../src/types.js';
+
+const testFile = join(tmpdir(), `wbackup-delivery-test-${Date.now()}.dump`);
+
+const testBackup: BackupResult = {
+  filePath: testFile,
+  fileName: 'test.dump',
+  sizeBytes: 11,
+  database: 'testdb',
+  createdAt: new Date(),
+  compressed: false,
+  metadata: { type: 'mock' },
+};
+
+const streamedBackup = (content: string): StreamedBackup => ({
+  stream: Readable.from([Buffer.from(content)]),
+  fileName: 'test.sql.gz',
+  database: 'testdb',
+  createdAt: new Date('2024-03-05T10:00:00Z'),
+  compressed: true,
+  metadata: { type: 'mock' },
+});
+
+const fastRetry = { initialDelayMs: 0, jitter: false, maxAttempts: 3 };
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+beforeAll(async () => {
+  await writeFile(testFile, 'hello world');
+});
+
+afterAll(async () => {
+  await rm(testFile, { force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
 
 describe('DiscordDeliveryStrategy', () => {
   const strategy = new DiscordDeliveryStrategy();
@@ -65,6 +111,64 @@ describe('DiscordDeliveryStrategy', () => {
   });
 });
 
+describe('DiscordDeliveryStrategy retries', () => {
+  const config = { webhookUrl: 'https://discord.com/api/webhooks/123/abc', retry: fastRetry };
+
+  it('should retry after a 429 using retry_after', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(429, { message: 'rate limited', retry_after: 0.001 }))
+      .mockResolvedValueOnce(jsonResponse(200, { id: 'msg-1' }));
+    vi.stubGlobal('fetch', fetchMock);
+    const progress = vi.fn();
+
+    const strategy = new DiscordDeliveryStrategy();
+    const result = await strategy.deliver(strategy.configSchema.parse(config), testBackup, {
+      onProgress: progress,
+    });
+
+    expect(result).toMatchObject({ success: true, messageId: 'msg-1' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(progress).toHaveBeenCalledWith(expect.stringContaining('Retrying in 1ms'));
+    expect(progress).toHaveBeenCalledWith('Uploading to Discord (attempt 2/3)');
+  });
+
+  it('should fall back to the Retry-After header', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('busy', { status: 503, headers: { 'Retry-After': '0.002' } }))
+      .mockResolvedValueOnce(jsonResponse(200, { id: 'msg-1' }));
+    vi.stubGlobal('fetch', fetchMock);
+    const progress = vi.fn();
+
+    const strategy = new DiscordDeliveryStrategy();
+    await strategy.deliver(strategy.configSchema.parse(config), testBackup, { onProgress: progress });
+
+    expect(progress).toHaveBeenCalledWith(expect.stringContaining('Retrying in 2ms'));
+  });
+
+  it('should not retry client errors', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('bad payload', { status: 400 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const strategy = new DiscordDeliveryStrategy();
+    const result = await strategy.deliver(strategy.configSchema.parse(config), testBackup);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Discord API error (400)');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(429, { retry_after: 0 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const strategy = new DiscordDeliveryStrategy();
+    const result = await strategy.deliver(strategy.configSchema.parse(config), testBackup);
+
+    expect(result.success).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
+
 describe('TelegramDeliveryStrategy', () => {
   const strategy = new TelegramDeliveryStrategy();
 
@@ -138,3 +242,455 @@ describe('TelegramDeliveryStrategy', () => {
     });
   });
 });
+
+describe('TelegramDeliveryStrategy retries', () => {
+  const config = { botToken: '123:abc', chatId: '456', retry: fastRetry };
+
+  it('should retry after a 429 using parameters.retry_after', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(429, {
+        ok: false,
+        error_code: 429,
+        description: 'Too Many Requests: retry after 0',
+        parameters: { retry_after: 0.003 },
+      }))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true, result: { message_id: 42 } }));
+    vi.stubGlobal('fetch', fetchMock);
+    const progress = vi.fn();
+
+    const strategy = new TelegramDeliveryStrategy();
+    const result = await strategy.deliver(strategy.configSchema.parse(config), testBackup, {
+      onProgress: progress,
+    });
+
+    expect(result).toMatchObject({ success: true, messageId: '42' });
+    expect(progress).toHaveBeenCalledWith(expect.stringContaining('Retrying in 3ms'));
+  });
+
+  it('should retry network failures', async () => {
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed', { cause: new Error('ECONNRESET') }))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true, result: { message_id: 7 } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const strategy = new TelegramDeliveryStrategy();
+    const result = await strategy.deliver(strategy.configSchema.parse(config), testBackup);
+
+    expect(result.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('delivery health checks', () => {
+  it('should GET the Discord webhook', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { id: '123', name: 'backups' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const strategy = new DiscordDeliveryStrategy();
+    await strategy.healthCheck(strategy.configSchema.parse({ webhookUrl: 'https://discord.com/api/webhooks/123/abc' }));
+
+    expect(fetchMock).toHaveBeenCalledWith('https://discord.com/api/webhooks/123/abc', expect.anything());
+  });
+
+  it('should report an unknown Discord webhook', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(404, { message: 'Unknown Webhook' })));
+
+    const strategy = new DiscordDeliveryStrategy();
+    await expect(
+      strategy.healthCheck(strategy.configSchema.parse({ webhookUrl: 'https://discord.com/api/webhooks/1/x' }))
+    ).rejects.toThrow('Discord webhook check failed (404)');
+  });
+
+  it('should call Telegram getMe', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { ok: true, result: { username: 'backup_bot' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const strategy = new TelegramDeliveryStrategy();
+    await strategy.healthCheck(strategy.configSchema.parse({ botToken: '123:abc', chatId: '456' }));
+
+    expect(fetchMock).toHaveBeenCalledWith('https://api.telegram.org/bot123:abc/getMe', expect.anything());
+  });
+
+  it('should report an invalid Telegram token', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(401, { ok: false, description: 'Unauthorized' })));
+
+    const strategy = new TelegramDeliveryStrategy();
+    await expect(
+      strategy.healthCheck(strategy.configSchema.parse({ botToken: 'bad', chatId: '456' }))
+    ).rejects.toThrow('Telegram getMe failed (401)');
+  });
+});
+
+describe('upload progress', () => {
+  // Reads the streamed body the way fetch would, so the byte counter runs
+  const readingFetch = (body: unknown) =>
+    vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      await new Response(init.body).arrayBuffer();
+      return jsonResponse(200, body);
+    });
+
+  it('should report bytes sent to Discord', async () => {
+    const fetchMock = readingFetch({ id: 'msg-1' });
+    vi.stubGlobal('fetch', fetchMock);
+    const onByteProgress = vi.fn();
+
+    const strategy = new DiscordDeliveryStrategy();
+    const config = strategy.configSchema.parse({ webhookUrl: 'https://discord.com/api/webhooks/123/abc' });
+    const result = await strategy.deliver(config, testBackup, { onByteProgress, progressIntervalMs: 0 });
+
+    expect(result.success).toBe(true);
+    const init = fetchMock.mock.calls[0]?.[1] as RequestInit;
+    const headers = init.headers as Record<string, string>;
+    expect(headers['content-type']).toMatch(/^multipart\/form-data; ?boundary=/);
+
+    const last = onByteProgress.mock.calls.at(-1)?.[0];
+    expect(last).toMatchObject({ partNumber: 1, totalParts: 1, bytes: Number(headers['content-length']) });
+    expect(last.totalBytes).toBe(last.bytes);
+  });
+
+  it('should report bytes sent to Telegram', async () => {
+    vi.stubGlobal('fetch', readingFetch({ ok: true, result: { message_id: 1 } }));
+    const onByteProgress = vi.fn();
+
+    const strategy = new TelegramDeliveryStrategy();
+    const config = strategy.configSchema.parse({ botToken: '123:abc', chatId: '456' });
+    await strategy.deliver(config, testBackup, { onByteProgress, progressIntervalMs: 0 });
+
+    const last = onByteProgress.mock.calls.at(-1)?.[0];
+    expect(last.bytes).toBeGreaterThan(testBackup.sizeBytes);
+    expect(last.bytes).toBe(last.totalBytes);
+  });
+
+  it('should send the form data as is without a progress listener', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'msg-1' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const strategy = new DiscordDeliveryStrategy();
+    const config = strategy.configSchema.parse({ webhookUrl: 'https://discord.com/api/webhooks/123/abc' });
+    await strategy.deliver(config, testBackup);
+
+    expect((fetchMock.mock.calls[0]?.[1] as RequestInit).body).toBeInstanceOf(FormData);
+  });
+});
+
+describe('manifest delivery', () => {
+  const manifest: BackupManifest = {
+    version: 1,
+    wbackupVersion: '1.0.0',
+    createdAt: testBackup.createdAt.toISOString(),
+    database: 'testdb',
+    compressed: false,
+    encrypted: false,
+    file: { fileName: 'test.dump', sizeBytes: 11, sha256: 'a'.repeat(64) },
+    parts: [],
+    tools: {},
+    metadata: {},
+  };
+
+  const sentFile = (fetchMock: ReturnType<typeof vi.fn>, call: number, field: string) =>
+    (fetchMock.mock.calls[call]?.[1]?.body as FormData).get(field) as File;
+
+  it('should send the manifest to Discord after the backup', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(200, { id: 'msg-1' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const strategy = new DiscordDeliveryStrategy();
+    const config = strategy.configSchema.parse({ webhookUrl: 'https://discord.com/api/webhooks/123/abc' });
+    const result = await strategy.deliver(config, testBackup, { manifest });
+
+    expect(result).toMatchObject({ success: true, messageId: 'msg-1' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sentFile(fetchMock, 1, 'file').name).toMatch(/\.manifest\.json$/);
+    expect(JSON.parse(await sentFile(fetchMock, 1, 'file').text()).parts).toHaveLength(1);
+  });
+
+  it('should send the manifest to Telegram after the backup', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(200, { ok: true, result: { message_id: 7 } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const strategy = new TelegramDeliveryStrategy();
+    const config = strategy.configSchema.parse({ botToken: '123:abc', chatId: '456' });
+    const result = await strategy.deliver(config, testBackup, { manifest });
+
+    expect(result).toMatchObject({ success: true, messageId: '7' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sentFile(fetchMock, 1, 'document').name).toMatch(/\.manifest\.json$/);
+  });
+});
+
+describe('recipient fingerprints', () => {
+  const encryptedBackup: BackupResult = {
+    ...testBackup,
+    encrypted: true,
+    recipients: ['0123456789abcdef', 'fedcba9876543210'],
+  };
+
+  it('should list them in the Discord embed', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(200, { id: 'msg-1' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const strategy = new DiscordDeliveryStrategy();
+    const config = strategy.configSchema.parse({ webhookUrl: 'https://discord.com/api/webhooks/123/abc' });
+    await strategy.deliver(config, encryptedBackup);
+
+    const body = fetchMock.mock.calls[0]?.[1]?.body as FormData;
+    const payload = JSON.parse(body.get('payload_json') as string);
+    expect(payload.embeds[0].fields).toContainEqual({
+      name: 'Encrypted For',
+      value: '`0123456789abcdef`\n`fedcba9876543210`',
+    });
+  });
+
+  it('should list them in the Telegram caption', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(200, { ok: true, result: { message_id: 7 } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const strategy = new TelegramDeliveryStrategy();
+    const config = strategy.configSchema.parse({ botToken: '123:abc', chatId: '456' });
+    await strategy.deliver(config, encryptedBackup);
+
+    const body = fetchMock.mock.calls[0]?.[1]?.body as FormData;
+    expect(body.get('caption')).toContain(
+      '<b>Encrypted for:</b> <code>0123456789abcdef</code>, <code>fedcba9876543210</code>'
+    );
+  });
+});
+
+describe('streamed delivery', () => {
+  const sentFile = (fetchMock: ReturnType<typeof vi.fn>, call: number, field: string) =>
+    (fetchMock.mock.calls[call]?.[1]?.body as FormData).get(field) as File;
+
+  it('should post a streamed backup to Discord with the size of what was sent', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(200, { id: 'msg-1' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const strategy = new DiscordDeliveryStrategy();
+    const config = strategy.configSchema.parse({ webhookUrl: 'https://discord.com/api/webhooks/123/abc' });
+    const result = await strategy.deliverStream(config, streamedBackup('hello world'));
+
+    expect(result).toMatchObject({ success: true, messageId: 'msg-1', partsDelivered: 1, totalParts: 1 });
+    expect(sentFile(fetchMock, 0, 'file').name).toBe('test.sql.gz');
+    expect(await sentFile(fetchMock, 0, 'file').text()).toBe('hello world');
+    const payload = JSON.parse((fetchMock.mock.calls[0]?.[1]?.body as FormData).get('payload_json') as string);
+    expect(payload.embeds[0].title).toBe('Database Backup: testdb');
+    expect(payload.embeds[0].fields).toContainEqual({ name: 'Size', value: '11.00 B', inline: true });
+  });
+
+  it('should send a streamed backup to Telegram', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(200, { ok: true, result: { message_id: 7 } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const strategy = new TelegramDeliveryStrategy();
+    const config = strategy.configSchema.parse({ botToken: '123:abc', chatId: '456' });
+    const result = await strategy.deliverStream(config, streamedBackup('hello world'));
+
+    expect(result).toMatchObject({ success: true, messageId: '7' });
+    expect(sentFile(fetchMock, 0, 'document').name).toBe('test.sql.gz');
+  });
+});
+
+describe('FilesystemDeliveryStrategy', () => {
+  const strategy = new FilesystemDeliveryStrategy();
+  let directory: string;
+  let sourceFile: string;
+  let backup: BackupResult;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'wbackup-fs-delivery-'));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await rm(join(directory, 'target'), { recursive: true, force: true });
+  });
+
+  const config = (options: Record<string, unknown>) => strategy.configSchema.parse(options);
+  const fileName = () => basename(sourceFile);
+
+  const writeSource = async () => {
+    sourceFile = join(directory, `source-${Date.now()}.dump`);
+    await writeFile(sourceFile, 'hello world');
+    backup = { ...testBackup, filePath: sourceFile, createdAt: new Date('2024-03-05T10:00:00Z') };
+  };
+
+  it('should have no file size limit', () => {
+    expect(strategy.name).toBe('filesystem');
+    expect(strategy.maxFileSizeBytes).toBe(Number.POSITIVE_INFINITY);
+  });
+
+  it('should copy into a UTC day subdirectory and keep the source', async () => {
+    await writeSource();
+    const result = await strategy.deliver(config({ directory: join(directory, 'target') }), backup);
+
+    const expectedPath = join(directory, 'target', '2024', '03', '05', fileName());
+    expect(result).toMatchObject({ success: true, platform: 'filesystem', filePath: expectedPath });
+    expect(await readFile(expectedPath, 'utf-8')).toBe('hello world');
+    expect(await readFile(sourceFile, 'utf-8')).toBe('hello world');
+    expect(await readdir(join(directory, 'target', '2024', '03', '05'))).toHaveLength(1);
+  });
+
+  it('should write into the directory itself without subdirectories', async () => {
+    await writeSource();
+    const target = join(directory, 'target');
+    const result = await strategy.deliver(config({ directory: target, subdirectories: 'none' }), backup);
+
+    expect(result.filePath).toBe(join(target, fileName()));
+  });
+
+  it('should group by month', async () => {
+    await writeSource();
+    const target = join(directory, 'target');
+    const result = await strategy.deliver(config({ directory: target, subdirectories: 'month' }), backup);
+
+    expect(result.filePath).toBe(join(target, '2024', '03', fileName()));
+  });
+
+  it('should remove the source in move mode', async () => {
+    await writeSource();
+    const result = await strategy.deliver(config({ directory: join(directory, 'target'), mode: 'move' }), backup);
+
+    expect(result.success).toBe(true);
+    expect(await readFile(result.filePath!, 'utf-8')).toBe('hello world');
+    await expect(readFile(sourceFile)).rejects.toThrow();
+  });
+
+  it('should fail when the target lacks free space', async () => {
+    await writeSource();
+    const result = await strategy.deliver(
+      config({ directory: join(directory, 'target'), minFreeBytes: Number.MAX_SAFE_INTEGER }),
+      backup
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Not enough free space');
+  });
+
+  it('should report copy progress as a single part', async () => {
+    await writeSource();
+    const onByteProgress = vi.fn();
+    await strategy.deliver(config({ directory: join(directory, 'target') }), backup, {
+      onByteProgress,
+      progressIntervalMs: 0,
+    });
+
+    expect(onByteProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ bytes: 11, totalBytes: 11, partNumber: 1, totalParts: 1 })
+    );
+  });
+
+  it('should write the manifest next to the backup', async () => {
+    await writeSource();
+    const checksum = 'a'.repeat(64);
+    const manifest: BackupManifest = {
+      version: 1,
+      wbackupVersion: '1.0.0',
+      createdAt: backup.createdAt.toISOString(),
+      database: 'testdb',
+      compressed: false,
+      file: { fileName: fileName(), sizeBytes: 11, sha256: checksum },
+      parts: [],
+      tools: {},
+      metadata: {},
+    };
+
+    const result = await strategy.deliver(config({ directory: join(directory, 'target') }), backup, { manifest });
+
+    const written = JSON.parse(await readFile(`${result.filePath}.manifest.json`, 'utf-8'));
+    expect(written.parts).toEqual([{ partNumber: 1, fileName: fileName(), sizeBytes: 11, sha256: checksum }]);
+    expect(await readdir(join(directory, 'target', '2024', '03', '05'))).toHaveLength(2);
+  });
+
+  it('should write a streamed backup without leaving temporary files', async () => {
+    const target = join(directory, 'target');
+    const result = await strategy.deliverStream(config({ directory: target }), streamedBackup('hello world'));
+
+    const expectedPath = join(target, '2024', '03', '05', 'test.sql.gz');
+    expect(result).toMatchObject({ success: true, filePath: expectedPath });
+    expect(await readFile(expectedPath, 'utf-8')).toBe('hello world');
+    expect(await readdir(join(target, '2024', '03', '05'))).toEqual(['test.sql.gz']);
+  });
+
+  it('should remove the partial file when the stream fails', async () => {
+    const target = join(directory, 'target');
+    const failing: StreamedBackup = {
+      ...streamedBackup(''),
+      stream: Readable.from(
+        (async function* () {
+          yield Buffer.from('partial');
+          throw new Error('mysqldump exited with code 2');
+        })()
+      ),
+    };
+
+    const result = await strategy.deliverStream(config({ directory: target, subdirectories: 'none' }), failing);
+
+    expect(result).toMatchObject({ success: false, error: 'mysqldump exited with code 2' });
+    expect(await readdir(target)).toEqual([]);
+  });
+
+  it('should create the directory during the health check', async () => {
+    const target = join(directory, 'target', 'nested');
+    await expect(strategy.healthCheck(config({ directory: target }))).resolves.toBeUndefined();
+    expect(await readdir(target)).toEqual([]);
+  });
+
+  it('should require a directory', () => {
+    expect(() => strategy.configSchema.parse({})).toThrow();
+  });
+});
+
+describe('RepositoryDeliveryStrategy', () => {
+  const strategy = new RepositoryDeliveryStrategy();
+  const chunking = { minSize: 64, avgSize: 256, maxSize: 1024 };
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'wbackup-repository-delivery-'));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const config = () => strategy.configSchema.parse({ directory: join(directory, 'repo'), chunking });
+
+  it('should store a backup as a snapshot and report what was new', async () => {
+    const onProgress = vi.fn();
+    const first = await strategy.deliver(config(), testBackup, { onProgress });
+    const second = await strategy.deliverStream(config(), { ...streamedBackup('hello world'), compressed: false });
+
+    expect(first).toMatchObject({ success: true, platform: 'repository', newBytes: 11, dedupRatio: 0 });
+    expect(second).toMatchObject({ success: true, newBytes: 0, dedupRatio: 1 });
+    expect(onProgress).toHaveBeenCalledWith(expect.stringMatching(/^Stored snapshot \S+: 11.00 B new of 11.00 B \(0\.0% deduplicated\)$/));
+
+    const repository = new BackupRepository(join(directory, 'repo'));
+    const snapshots = await repository.snapshots();
+    expect(snapshots.map((snapshot) => snapshot.id).sort()).toEqual([first.snapshotId, second.snapshotId].sort());
+  });
+
+  it('should warn that compressed backups deduplicate poorly', async () => {
+    const onProgress = vi.fn();
+    await strategy.deliverStream(config(), streamedBackup('hello world'), { onProgress });
+
+    expect(onProgress).toHaveBeenCalledWith(expect.stringContaining('deduplicate poorly'));
+  });
+
+  it('should fail the delivery when the stream fails', async () => {
+    const failing: StreamedBackup = {
+      ...streamedBackup(''),
+      stream: Readable.from(
+        (async function* () {
+          yield Buffer.from('partial');
+          throw new Error('pg_dump exited with code 1');
+        })()
+      ),
+    };
+
+    const result = await strategy.deliverStream(config(), failing);
+
+    expect(result).toMatchObject({ success: false, error: 'pg_dump exited with code 1' });
+  });
+});
@@ -0,0 +1,367 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { writeFile, rm, readFile, readdir } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { createHash } from 'node:crypto';
+import { tmpdir } from 'node:os';
+import { Readable } from 'node:stream';
+import { deliverParts, deliverStreamParts } from '../../src/strategies/delivery/multipart.js';
+import type { StreamPart } from '../../src/strategies/delivery/multipart.js';
+import { loadDeliveryState } from '../../src/delivery-state.js';
+import type { BackupManifest, BackupResult, StreamedBackup } from '../../src/types.js';
+import { ensureDir } from '../../src/utils.js';
+
+describe('deliverParts', () => {
+  const testDir = join(tmpdir(), `wbackup-multipart-test-${Date.now()}`);
+  const backupPath = join(testDir, 'backup.dump');
+  const statePath = `${backupPath}.delivery-1-mock.json`;
+
+  const backup: BackupResult = {
+    filePath: backupPath,
+    fileName: 'backup.dump',
+    sizeBytes: 100,
+    database: 'testdb',
+    createdAt: new Date('2026-03-10T00:00:00Z'),
+    compressed: false,
+    metadata: { type: 'mock' },
+  };
+
+  beforeEach(async () => {
+    await ensureDir(testDir);
+    await writeFile(backupPath, 'x'.repeat(100));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  const failingAt = (failingPart: number) =>
+    vi.fn(async ({ partNumber }: { partNumber: number }) => {
+      if (partNumber === failingPart) {
+        throw new Error(`part ${partNumber} rejected`);
+      }
+      return `msg-${partNumber}`;
+    });
+
+  it('should upload every part and report the first message id', async () => {
+    const sendPart = failingAt(0);
+
+    const result = await deliverParts({
+      platform: 'mock',
+      backup,
+      maxPartSizeBytes: 30,
+      context: {},
+      sendPart,
+    });
+
+    expect(result).toMatchObject({ success: true, messageId: 'msg-1', partsDelivered: 4, totalParts: 4 });
+    expect(sendPart).toHaveBeenCalledTimes(4);
+  });
+
+  it('should report each uploaded part', async () => {
+    const onPart = vi.fn();
+
+    await deliverParts({
+      platform: 'mock',
+      backup,
+      maxPartSizeBytes: 30,
+      context: { onPart },
+      sendPart: failingAt(0),
+    });
+
+    expect(onPart).toHaveBeenCalledTimes(4);
+    expect(onPart).toHaveBeenNthCalledWith(1, { partNumber: 1, totalParts: 4, sizeBytes: 30, messageId: 'msg-1' });
+    expect(onPart).toHaveBeenNthCalledWith(4, { partNumber: 4, totalParts: 4, sizeBytes: 10, messageId: 'msg-4' });
+  });
+
+  it('should remove part files even when an upload fails', async () => {
+    await deliverParts({ platform: 'mock', backup, maxPartSizeBytes: 30, context: {}, sendPart: failingAt(2) });
+
+    expect(await readdir(testDir)).toEqual(['backup.dump']);
+  });
+
+  it('should not write state without a statePath', async () => {
+    await deliverParts({ platform: 'mock', backup, maxPartSizeBytes: 30, context: {}, sendPart: failingAt(2) });
+
+    expect(await loadDeliveryState(statePath)).toBeUndefined();
+  });
+
+  it('should record delivered parts and resume with the missing ones', async () => {
+    const first = await deliverParts({
+      platform: 'mock',
+      backup,
+      maxPartSizeBytes: 30,
+      context: { statePath },
+      sendPart: failingAt(3),
+    });
+
+    expect(first).toMatchObject({ success: false, partsDelivered: 2, totalParts: 4 });
+    const state = await loadDeliveryState(statePath);
+    expect(state?.completed).toBe(false);
+    expect(state?.parts).toEqual([
+      { partNumber: 1, messageId: 'msg-1' },
+      { partNumber: 2, messageId: 'msg-2' },
+    ]);
+
+    const retry = failingAt(0);
+    const second = await deliverParts({
+      platform: 'mock',
+      backup,
+      maxPartSizeBytes: 30,
+      context: { statePath },
+      sendPart: retry,
+    });
+
+    expect(second).toMatchObject({ success: true, messageId: 'msg-1', partsDelivered: 4 });
+    expect(retry.mock.calls.map(([part]) => part.partNumber)).toEqual([3, 4]);
+    expect((await loadDeliveryState(statePath))?.completed).toBe(true);
+  });
+
+  it('should refuse to resume when the backup file changed', async () => {
+    await deliverParts({ platform: 'mock', backup, maxPartSizeBytes: 30, context: { statePath }, sendPart: failingAt(3) });
+    await writeFile(backupPath, 'y'.repeat(100));
+
+    const result = await deliverParts({
+      platform: 'mock',
+      backup,
+      maxPartSizeBytes: 30,
+      context: { statePath },
+      sendPart: failingAt(0),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Backup file changed');
+  });
+
+  it('should store the backup result in the state file', async () => {
+    await deliverParts({ platform: 'mock', backup, maxPartSizeBytes: 30, context: { statePath }, sendPart: failingAt(1) });
+
+    const raw = JSON.parse(await readFile(statePath, 'utf8'));
+    expect(raw.backup).toMatchObject({ database: 'testdb', createdAt: '2026-03-10T00:00:00.000Z' });
+    expect(raw.checksum).toMatch(/^[a-f0-9]{64}$/);
+    expect(raw.backup.checksum).toBe(raw.checksum);
+  });
+
+  describe('manifest', () => {
+    const fullChecksum = createHash('sha256').update('x'.repeat(100)).digest('hex');
+    const manifest: BackupManifest = {
+      version: 1,
+      wbackupVersion: '1.0.0',
+      createdAt: backup.createdAt.toISOString(),
+      database: 'testdb',
+      compressed: false,
+      file: { fileName: 'backup.dump', sizeBytes: 100, sha256: fullChecksum },
+      parts: [],
+      tools: {},
+      metadata: { type: 'mock' },
+    };
+
+    const readManifest = () => {
+      const sent: Array<{ name: string; content: BackupManifest }> = [];
+      const sendManifest = vi.fn(async (filePath: string) => {
+        sent.push({ name: basename(filePath), content: JSON.parse(await readFile(filePath, 'utf8')) });
+      });
+      return { sent, sendManifest };
+    };
+
+    it('should send the manifest last with a checksum for every part', async () => {
+      const { sent, sendManifest } = readManifest();
+      const sendPart = failingAt(0);
+
+      const result = await deliverParts({
+        platform: 'mock',
+        backup,
+        maxPartSizeBytes: 30,
+        context: { manifest },
+        sendPart,
+        sendManifest,
+      });
+
+      expect(result.success).toBe(true);
+      expect(sendManifest.mock.invocationCallOrder[0]).toBeGreaterThan(Math.max(...sendPart.mock.invocationCallOrder));
+      expect(sent[0]?.name).toBe('backup.dump.manifest.json');
+      const parts = sent[0]?.content.parts ?? [];
+      expect(parts.map((part) => [part.partNumber, part.fileName, part.sizeBytes])).toEqual([
+        [1, 'backup.dump.part1', 30],
+        [2, 'backup.dump.part2', 30],
+        [3, 'backup.dump.part3', 30],
+        [4, 'backup.dump.part4', 10],
+      ]);
+      expect(parts[3]?.sha256).toBe(createHash('sha256').update('x'.repeat(10)).digest('hex'));
+      expect(sent[0]?.content.file.sha256).toBe(fullChecksum);
+    });
+
+    it('should list the whole file as the only part when it is not split', async () => {
+      const { sent, sendManifest } = readManifest();
+
+      await deliverParts({
+        platform: 'mock',
+        backup,
+        maxPartSizeBytes: 1000,
+        context: { manifest },
+        sendPart: failingAt(0),
+        sendManifest,
+      });
+
+      expect(sent[0]?.content.parts).toEqual([
+        { partNumber: 1, fileName: 'backup.dump', sizeBytes: 100, sha256: fullChecksum },
+      ]);
+    });
+
+    it('should fail the delivery when the manifest cannot be sent', async () => {
+      const result = await deliverParts({
+        platform: 'mock',
+        backup,
+        maxPartSizeBytes: 30,
+        context: { manifest },
+        sendPart: failingAt(0),
+        sendManifest: vi.fn().mockRejectedValue(new Error('manifest rejected')),
+      });
+
+      expect(result).toMatchObject({ success: false, error: 'manifest rejected' });
+    });
+
+    it('should not send the manifest again when resuming a completed delivery', async () => {
+      const sendManifest = vi.fn();
+      const sendPart = failingAt(0);
+      const options = { platform: 'mock', backup, maxPartSizeBytes: 30, context: { statePath, manifest } };
+
+      await deliverParts({ ...options, sendPart, sendManifest });
+      const resumed = await deliverParts({ ...options, sendPart, sendManifest });
+
+      expect(resumed).toMatchObject({ success: true, partsDelivered: 4 });
+      expect(sendPart).toHaveBeenCalledTimes(4);
+      expect(sendManifest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not send a manifest without one in the context', async () => {
+      const sendManifest = vi.fn();
+      await deliverParts({
+        platform: 'mock',
+        backup,
+        maxPartSizeBytes: 30,
+        context: {},
+        sendPart: failingAt(0),
+        sendManifest,
+      });
+
+      expect(sendManifest).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('deliverStreamParts', () => {
+  const streamed = (chunks: Array<string | Error>): StreamedBackup => ({
+    stream: Readable.from(
+      (async function* () {
+        for (const chunk of chunks) {
+          if (chunk instanceof Error) {
+            throw chunk;
+          }
+          yield Buffer.from(chunk);
+        }
+      })()
+    ),
+    fileName: 'backup.sql.gz',
+    database: 'testdb',
+    createdAt: new Date('2026-03-10T00:00:00Z'),
+    compressed: true,
+    metadata: { type: 'mock' },
+  });
+
+  const collect = () => {
+    const parts: Array<Omit<StreamPart, 'data' | 'onUploadProgress'> & { data: string }> = [];
+    const sendPart = vi.fn(async ({ data, fileName, partNumber, totalParts }: StreamPart) => {
+      parts.push({ data: data.toString(), fileName, partNumber, totalParts });
+      return `msg-${partNumber}`;
+    });
+    return { parts, sendPart };
+  };
+
+  it('should cut parts across chunk boundaries and only number the last one', async () => {
+    const { parts, sendPart } = collect();
+
+    const result = await deliverStreamParts({
+      platform: 'mock',
+      backup: streamed(['aaaa', 'aabbb', 'bbbc']),
+      maxPartSizeBytes: 6,
+      context: {},
+      sendPart,
+    });
+
+    expect(result).toMatchObject({ success: true, messageId: 'msg-1', partsDelivered: 3, totalParts: 3 });
+    expect(parts).toEqual([
+      { data: 'aaaaaa', fileName: 'backup.sql.gz.part1', partNumber: 1, totalParts: 0 },
+      { data: 'bbbbbb', fileName: 'backup.sql.gz.part2', partNumber: 2, totalParts: 0 },
+      { data: 'c', fileName: 'backup.sql.gz.part3', partNumber: 3, totalParts: 3 },
+    ]);
+  });
+
+  it('should keep the file name when everything fits into one part', async () => {
+    const { parts, sendPart } = collect();
+
+    await deliverStreamParts({
+      platform: 'mock',
+      backup: streamed(['abc', 'def']),
+      maxPartSizeBytes: 6,
+      context: {},
+      sendPart,
+    });
+
+    expect(parts).toEqual([{ data: 'abcdef', fileName: 'backup.sql.gz', partNumber: 1, totalParts: 1 }]);
+  });
+
+  it('should deliver an empty stream as one empty file', async () => {
+    const { parts, sendPart } = collect();
+
+    await deliverStreamParts({ platform: 'mock', backup: streamed([]), maxPartSizeBytes: 6, context: {}, sendPart });
+
+    expect(parts).toEqual([{ data: '', fileName: 'backup.sql.gz', partNumber: 1, totalParts: 1 }]);
+  });
+
+  it('should never send the last part of a stream that fails', async () => {
+    const { parts, sendPart } = collect();
+
+    const result = await deliverStreamParts({
+      platform: 'mock',
+      backup: streamed(['aaaaaa', 'bb', new Error('pg_dump exited with code 1')]),
+      maxPartSizeBytes: 6,
+      context: {},
+      sendPart,
+    });
+
+    expect(result).toMatchObject({ success: false, error: 'pg_dump exited with code 1', partsDelivered: 1 });
+    expect(parts.map((part) => part.data)).toEqual(['aaaaaa']);
+  });
+
+  it('should stop reading the stream when an upload fails', async () => {
+    const backup = streamed(['aaaaaa', 'bbbbbb', 'cc']);
+
+    const result = await deliverStreamParts({
+      platform: 'mock',
+      backup,
+      maxPartSizeBytes: 6,
+      context: {},
+      sendPart: vi.fn().mockRejectedValue(new Error('part 1 rejected')),
+    });
+
+    expect(result).toMatchObject({ success: false, error: 'part 1 rejected', partsDelivered: 0 });
+    expect(backup.stream.destroyed).toBe(true);
+  });
+
+  it('should report parts with an unknown total until the last one', async () => {
+    const onPart = vi.fn();
+
+    await deliverStreamParts({
+      platform: 'mock',
+      backup: streamed(['aaaaaa', 'b']),
+      maxPartSizeBytes: 6,
+      context: { onPart },
+      sendPart: collect().sendPart,
+    });
+
+    expect(onPart.mock.calls.map(([part]) => part)).toEqual([
+      { partNumber: 1, totalParts: 0, sizeBytes: 6, messageId: 'msg-1' },
+      { partNumber: 2, totalParts: 2, sizeBytes: 1, messageId: 'msg-2' },
+    ]);
+  });
+});
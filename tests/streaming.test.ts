@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { gunzipSync } from 'node:zlib';
+import { createStreamPipeline } from '../src/streaming.js';
+import { createCompressor } from '../src/compression.js';
+import type { BackupStream } from '../src/types.js';
+
+const content = 'INSERT INTO orders VALUES (1);\n'.repeat(1000);
+
+const dumpStream = (done: Promise<void> = Promise.resolve()): BackupStream => ({
+  stream: Readable.from([Buffer.from(content.slice(0, 5000)), Buffer.from(content.slice(5000))]),
+  done,
+  fileName: 'orders.sql',
+  database: 'orders',
+  metadata: {},
+});
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('createStreamPipeline', () => {
+  it('should compress the dump and hash what it delivers', async () => {
+    const pipeline = createStreamPipeline(dumpStream(), { compressor: createCompressor() });
+
+    const output = await readAll(pipeline.stream);
+
+    expect(gunzipSync(output).toString()).toBe(content);
+    expect(pipeline.stats()).toEqual({
+      inputBytes: content.length,
+      sizeBytes: output.length,
+      checksum: createHash('sha256').update(output).digest('hex'),
+    });
+  });
+
+  it('should pass the dump through without a compressor', async () => {
+    const reported: number[] = [];
+    const pipeline = createStreamPipeline(dumpStream(), { onDumpBytes: (bytes) => reported.push(bytes) });
+
+    expect((await readAll(pipeline.stream)).toString()).toBe(content);
+    expect(reported).toEqual([5000, content.length]);
+  });
+
+  it('should fail the stream when the dump tool fails after its output ended', async () => {
+    const pipeline = createStreamPipeline(dumpStream(Promise.reject(new Error('pg_dump exited with code 1'))));
+
+    await expect(readAll(pipeline.stream)).rejects.toThrow('pg_dump exited with code 1');
+    expect(pipeline.stats().checksum).toBeUndefined();
+  });
+});
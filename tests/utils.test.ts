@@ -1,19 +1,27 @@
-import { describe, it, expect, afterEach } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { writeFile, rm, mkdir } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
+import { createHash } from 'node:crypto';
 import {
   BackupError,
+  BackupCancelledError,
+  createPhaseSignal,
+  runCommand,
+  spawnCommandStream,
+  sleep,
   ensureDir,
   removeFile,
   getFileSize,
-  compressFile,
   generateTempPath,
   formatBytes,
   formatDuration,
   splitFile,
+  getToolVersions,
 } from '../src/utils.js';
 
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
 describe('BackupError', () => {
   it('should create error with phase', () => {
     const error = new BackupError('test error', 'backup');
@@ -29,6 +37,121 @@ describe('BackupError', () => {
   });
 });
 
+describe('BackupCancelledError', () => {
+  it('should use the cancelled phase and record where it stopped', () => {
+    const error = new BackupCancelledError('cancelled', 'delivery', true);
+    expect(error).toBeInstanceOf(BackupError);
+    expect(error.phase).toBe('cancelled');
+    expect(error.interruptedPhase).toBe('delivery');
+    expect(error.timedOut).toBe(true);
+  });
+});
+
+describe('sleep', () => {
+  it('should reject when the signal aborts', async () => {
+    const controller = new AbortController();
+    const pending = sleep(10_000, controller.signal);
+    controller.abort(new Error('stop'));
+    await expect(pending).rejects.toThrow('stop');
+  });
+
+  it('should reject immediately for an aborted signal', async () => {
+    await expect(sleep(10_000, AbortSignal.abort(new Error('already')))).rejects.toThrow('already');
+  });
+});
+
+describe('createPhaseSignal', () => {
+  it('should abort with the parent', () => {
+    const parent = new AbortController();
+    const phase = createPhaseSignal(parent.signal);
+    parent.abort();
+    expect(phase.signal.aborted).toBe(true);
+    expect(phase.timedOut()).toBe(false);
+    phase.dispose();
+  });
+
+  it('should abort after the timeout', async () => {
+    const phase = createPhaseSignal(undefined, 5);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(phase.signal.aborted).toBe(true);
+    expect(phase.timedOut()).toBe(true);
+    phase.dispose();
+  });
+
+  it('should not time out once disposed', async () => {
+    const phase = createPhaseSignal(undefined, 5);
+    phase.dispose();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(phase.signal.aborted).toBe(false);
+  });
+});
+
+describe('runCommand', () => {
+  it('should kill the child process when aborted', async () => {
+    const controller = new AbortController();
+    const pending = runCommand({
+      command: process.execPath,
+      args: ['-e', 'setTimeout(() => {}, 10000)'],
+      notFoundMessage: 'node not found',
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(pending).rejects.toThrow('was cancelled');
+  });
+
+  it('should pipe the input file to stdin', async () => {
+    const dir = join(tmpdir(), `wbackup-input-${Date.now()}`);
+    await mkdir(dir, { recursive: true });
+    try {
+      const inputPath = join(dir, 'input.sql');
+      await writeFile(inputPath, 'x'.repeat(200000));
+      const script =
+        'let n = 0; process.stdin.on("data", (d) => n += d.length).on("end", () => process.exit(n === 200000 ? 0 : 1))';
+      const options = { command: process.execPath, args: ['-e', script], notFoundMessage: 'node not found' };
+
+      await expect(runCommand({ ...options, input: inputPath })).resolves.toBeUndefined();
+      await expect(runCommand({ ...options, input: join(dir, 'missing.sql') })).rejects.toThrow('Failed to read');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('spawnCommandStream', () => {
+  const node = (script: string) => ({
+    command: process.execPath,
+    args: ['-e', script],
+    notFoundMessage: 'node not found',
+  });
+
+  it('should stream stdout and resolve once the command exits', async () => {
+    const { stream, done } = spawnCommandStream(node('process.stdout.write("a".repeat(100000))'));
+
+    let bytes = 0;
+    for await (const chunk of stream) {
+      bytes += (chunk as Buffer).length;
+    }
+    await done;
+    expect(bytes).toBe(100000);
+  });
+
+  it('should reject with stderr when the command fails after writing', async () => {
+    const script = 'process.stdout.write("partial"); console.error("boom"); process.exit(3)';
+    const { stream, done } = spawnCommandStream(node(script));
+    stream.resume();
+
+    await expect(done).rejects.toThrow(/exited with code 3: boom/);
+  });
+
+  it('should kill the command when the stream is destroyed early', async () => {
+    const { stream, done } = spawnCommandStream(node('setInterval(() => process.stdout.write("x"), 10)'));
+    stream.once('data', () => stream.destroy());
+
+    await expect(done).rejects.toThrow('exited with code null');
+  });
+});
+
 describe('formatBytes', () => {
   it('should format 0 bytes', () => {
     expect(formatBytes(0)).toBe('0 B');
@@ -129,37 +252,13 @@ describe('file operations', () => {
     });
   });
 
-  describe('compressFile', () => {
-    it('should compress file and return new path', async () => {
-      await ensureDir(testDir);
-      const content = 'hello world '.repeat(100);
-      await writeFile(testFile, content);
-
-      const originalSize = await getFileSize(testFile);
-      const compressedPath = await compressFile(testFile);
-
-      expect(compressedPath).toBe(testFile + '.gz');
-      const compressedSize = await getFileSize(compressedPath);
-      expect(compressedSize).toBeLessThan(originalSize);
-    });
-
-    it('should remove original file after compression', async () => {
-      await ensureDir(testDir);
-      await writeFile(testFile, 'test content');
-      await compressFile(testFile);
-
-      await expect(getFileSize(testFile)).rejects.toThrow();
-    });
-  });
-
   describe('splitFile', () => {
     it('should return single file if under limit', async () => {
       await ensureDir(testDir);
       await writeFile(testFile, 'small file');
       const chunks = await splitFile(testFile, 1024);
 
-      expect(chunks).toHaveLength(1);
-      expect(chunks[0]).toBe(testFile);
+      expect(chunks).toEqual([{ filePath: testFile, sizeBytes: 10, sha256: sha256('small file') }]);
     });
 
     it('should split large file into chunks', async () => {
@@ -170,14 +269,25 @@ describe('file operations', () => {
       const chunks = await splitFile(testFile, 30);
 
       expect(chunks.length).toBeGreaterThan(1);
-      expect(chunks[0]).toContain('.part1');
+      expect(chunks[0]?.filePath).toContain('.part1');
+      expect(chunks.map((chunk) => chunk.sizeBytes)).toEqual([30, 30, 30, 10]);
+      expect(chunks[0]?.sha256).toBe(sha256('x'.repeat(30)));
+      expect(chunks[3]?.sha256).toBe(sha256('x'.repeat(10)));
 
       // Cleanup chunks
       for (const chunk of chunks) {
-        if (chunk !== testFile) {
-          await removeFile(chunk);
+        if (chunk.filePath !== testFile) {
+          await removeFile(chunk.filePath);
         }
       }
     });
   });
 });
+
+describe('getToolVersions', () => {
+  it('should report the first line of --version and skip missing commands', async () => {
+    const versions = await getToolVersions(['node', 'wbackup-missing-tool']);
+
+    expect(versions).toEqual({ node: process.version });
+  });
+});